@@ -0,0 +1,2 @@
+ALTER TABLE "movies" ADD COLUMN "score_low" real;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "score_high" real;
\ No newline at end of file
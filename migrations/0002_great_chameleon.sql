@@ -0,0 +1,8 @@
+CREATE TABLE "normalization_calibrations" (
+	"version" smallint NOT NULL,
+	"source" text NOT NULL,
+	"quantiles" real[] NOT NULL,
+	"sample_size" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "normalization_calibrations_version_source_pk" PRIMARY KEY("version","source")
+);
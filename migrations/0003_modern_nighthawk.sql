@@ -0,0 +1,2 @@
+ALTER TABLE "movies" ADD COLUMN "critic_audience_gap" real;--> statement-breakpoint
+CREATE INDEX "idx_movies_critic_audience_gap" ON "movies" USING btree ("critic_audience_gap") WHERE "movies"."overall_score" is not null and "movies"."coverage" >= 0.70;
\ No newline at end of file
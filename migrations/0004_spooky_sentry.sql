@@ -0,0 +1 @@
+ALTER TABLE "movies" ADD COLUMN "votes_count" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "movies" ADD COLUMN "imdb_letterboxd_votes" integer;--> statement-breakpoint
+CREATE INDEX "idx_movies_gems" ON "movies" USING btree ("overall_score") WHERE "movies"."overall_score" is not null and "movies"."coverage" >= 0.70 and "movies"."imdb_letterboxd_votes" < 50000;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "scores" DROP CONSTRAINT "source_check";--> statement-breakpoint
+ALTER TABLE "scores" ADD CONSTRAINT "source_check" CHECK ("scores"."source" in ('allocine_press','allocine_user','douban','imdb','letterboxd','metacritic','mubi','rotten_tomatoes','rotten_tomatoes_all','rotten_tomatoes_audience','rotten_tomatoes_top'));
\ No newline at end of file
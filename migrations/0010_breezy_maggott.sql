@@ -0,0 +1,10 @@
+CREATE TABLE "rating_distributions" (
+	"imdb_id" text NOT NULL,
+	"source" text NOT NULL,
+	"ratings" real[] NOT NULL,
+	"counts" integer[] NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "rating_distributions_imdb_id_source_pk" PRIMARY KEY("imdb_id","source")
+);
+--> statement-breakpoint
+ALTER TABLE "rating_distributions" ADD CONSTRAINT "rating_distributions_imdb_id_movies_imdb_id_fk" FOREIGN KEY ("imdb_id") REFERENCES "public"."movies"("imdb_id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
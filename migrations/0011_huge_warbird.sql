@@ -0,0 +1,19 @@
+CREATE TABLE "critic_reviews" (
+	"imdb_id" text NOT NULL,
+	"review_id" text NOT NULL,
+	"critic_name" text NOT NULL,
+	"critic_slug" text,
+	"publication" text,
+	"top_critic" boolean DEFAULT false NOT NULL,
+	"sentiment" text NOT NULL,
+	"original_score" text,
+	"normalized_score" real,
+	"review_url" text,
+	"published_at" date,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "critic_reviews_imdb_id_review_id_pk" PRIMARY KEY("imdb_id","review_id"),
+	CONSTRAINT "sentiment_check" CHECK ("critic_reviews"."sentiment" in ('fresh','rotten'))
+);
+--> statement-breakpoint
+ALTER TABLE "critic_reviews" ADD CONSTRAINT "critic_reviews_imdb_id_movies_imdb_id_fk" FOREIGN KEY ("imdb_id") REFERENCES "public"."movies"("imdb_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_critic_reviews_critic" ON "critic_reviews" USING btree ("critic_slug");
\ No newline at end of file
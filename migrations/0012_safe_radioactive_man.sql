@@ -0,0 +1,11 @@
+CREATE TABLE "source_ids" (
+	"imdb_id" text NOT NULL,
+	"source" text NOT NULL,
+	"external_id" text NOT NULL,
+	"method" text NOT NULL,
+	"confidence" text NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "source_ids_imdb_id_source_pk" PRIMARY KEY("imdb_id","source"),
+	CONSTRAINT "source_ids_source_check" CHECK ("source_ids"."source" in ('allocineFilm','allocineSeries','douban','filmAffinity','kinopoisk','letterboxd','metacritic','mubi','rottenTomatoes')),
+	CONSTRAINT "confidence_check" CHECK ("source_ids"."confidence" in ('high','medium','low'))
+);
@@ -0,0 +1,19 @@
+-- Existing rows hold free-form messages; map them to codes the same way
+-- classifyErrorMessage (src/lib/source-errors.ts) does before constraining
+UPDATE "scores" SET "error" = CASE
+	WHEN "error" ~ '^Request failed: (404|410)' THEN 'not_found'
+	WHEN "error" ~ '^Request failed: (401|403|451)' THEN 'blocked'
+	WHEN "error" ~ '^Request failed: 429' THEN 'rate_limited'
+	WHEN "error" ~ '^Request failed: 408' THEN 'timeout'
+	WHEN "error" ~ '^Request failed: ' THEN 'unavailable'
+	WHEN "error" ~ '^Slug mismatch' THEN 'slug_mismatch'
+	WHEN "error" ~ '^(No .*|Could not find .*)ID$' THEN 'no_id'
+	WHEN "error" ~* 'temporarily unavailable' THEN 'unavailable'
+	WHEN "error" ~* 'timed? ?out' THEN 'timeout'
+	WHEN "error" ~* 'abort' THEN 'aborted'
+	WHEN "error" ~ '^(No rating|Could not fetch)' THEN 'no_data'
+	WHEN "error" ~ '(JSON|Unexpected token)' THEN 'parse_failed'
+	ELSE 'unavailable'
+END
+WHERE "error" IS NOT NULL AND "error" NOT IN ('no_id','not_found','slug_mismatch','blocked','rate_limited','timeout','unavailable','parse_failed','no_data','aborted');--> statement-breakpoint
+ALTER TABLE "scores" ADD CONSTRAINT "error_check" CHECK ("scores"."error" is null or "scores"."error" in ('no_id','not_found','slug_mismatch','blocked','rate_limited','timeout','unavailable','parse_failed','no_data','aborted'));
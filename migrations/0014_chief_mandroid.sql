@@ -0,0 +1,8 @@
+CREATE TABLE "parser_checks" (
+	"day" date NOT NULL,
+	"source" text NOT NULL,
+	"pages" integer DEFAULT 0 NOT NULL,
+	"drifted" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "parser_checks_day_source_pk" PRIMARY KEY("day","source"),
+	CONSTRAINT "parser_checks_source_check" CHECK ("parser_checks"."source" in ('rotten_tomatoes','metacritic','allocine','letterboxd','mubi','filmaffinity'))
+);
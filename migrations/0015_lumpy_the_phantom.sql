@@ -0,0 +1,9 @@
+ALTER TABLE "movies" ADD COLUMN "critic_reviews_fetched_at" timestamp with time zone;--> statement-breakpoint
+-- Films whose reviews were already collected count as fetched
+UPDATE "movies" SET "critic_reviews_fetched_at" = r."fetched_at"
+FROM (
+	SELECT "imdb_id", max("updated_at") AS "fetched_at"
+	FROM "critic_reviews"
+	GROUP BY "imdb_id"
+) r
+WHERE "movies"."imdb_id" = r."imdb_id";
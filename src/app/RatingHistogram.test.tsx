@@ -0,0 +1,40 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import "@testing-library/jest-dom/vitest";
+import { RatingHistogram } from "./RatingHistogram";
+
+// Mock CSS modules
+vi.mock("./page.module.css", () => ({
+  default: new Proxy({}, { get: (_, prop) => prop }),
+}));
+
+describe("RatingHistogram", () => {
+  it("scales bars relative to the largest bucket", () => {
+    render(
+      <RatingHistogram
+        distribution={[
+          { rating: 0.5, count: 0 },
+          { rating: 1, count: 50 },
+          { rating: 1.5, count: 1200 },
+        ]}
+      />,
+    );
+    const bars = screen
+      .getByRole("img", { name: "Rating distribution" })
+      .querySelectorAll("span");
+    expect(bars).toHaveLength(3);
+    expect(bars[0]).toHaveStyle({ height: "2%" });
+    expect(bars[2]).toHaveStyle({ height: "100%" });
+    expect(bars[2]).toHaveAttribute("title", "1.5: 1,200 ratings");
+  });
+
+  it("renders nothing for an empty distribution", () => {
+    const { container } = render(
+      <RatingHistogram distribution={[{ rating: 1, count: 0 }]} />,
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+});
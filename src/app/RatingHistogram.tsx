@@ -0,0 +1,33 @@
+import { memo } from "react";
+import type { RatingDistribution } from "@/lib/types";
+import styles from "./page.module.css";
+
+function formatRating(rating: number) {
+  return Number.isInteger(rating) ? String(rating) : rating.toFixed(1);
+}
+
+export const RatingHistogram = memo(function RatingHistogram({
+  distribution,
+}: {
+  distribution: RatingDistribution;
+}) {
+  const max = Math.max(...distribution.map((b) => b.count));
+  if (max === 0) return null;
+
+  return (
+    <div
+      className={styles.histogram}
+      role="img"
+      aria-label="Rating distribution"
+    >
+      {distribution.map((b) => (
+        <span
+          key={b.rating}
+          className={styles.histogramBar}
+          style={{ height: `${Math.max((b.count / max) * 100, 2)}%` }}
+          title={`${formatRating(b.rating)}: ${b.count.toLocaleString("en-US")} ratings`}
+        />
+      ))}
+    </div>
+  );
+});
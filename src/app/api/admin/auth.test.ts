@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { requireAdmin } from "./auth";
+
+function makeRequest(authorization?: string): Request {
+  const headers = new Headers();
+  if (authorization) headers.set("authorization", authorization);
+  return new Request("http://localhost/api/admin/anything", { headers });
+}
+
+describe("requireAdmin", () => {
+  beforeEach(() => {
+    delete process.env.ADMIN_SECRET;
+  });
+
+  it("hides the admin API when ADMIN_SECRET is not set", () => {
+    expect(requireAdmin(makeRequest("Bearer anything"))?.status).toBe(404);
+  });
+
+  it("rejects a missing or wrong bearer token", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const missing = requireAdmin(makeRequest());
+    expect(missing?.status).toBe(401);
+    expect(await missing?.json()).toEqual({ error: "unauthorized" });
+    expect(requireAdmin(makeRequest("correct-secret"))?.status).toBe(401);
+    expect(requireAdmin(makeRequest("Bearer wrong"))?.status).toBe(401);
+  });
+
+  it("lets the right bearer token through", () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    expect(requireAdmin(makeRequest("Bearer correct-secret"))).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Bearer-token check shared by the admin routes: the response to reply with
+ * when the request may not go on, or null when it may. Without ADMIN_SECRET
+ * the admin API doesn't exist (404).
+ */
+export function requireAdmin(request: Request): NextResponse | null {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret) return NextResponse.json(null, { status: 404 });
+
+  const auth = request.headers.get("authorization");
+  if (auth !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  return null;
+}
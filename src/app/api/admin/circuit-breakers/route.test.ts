@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/http", () => ({
+  getCircuitStates: vi.fn(),
+}));
+
+import { GET } from "./route";
+import { getCircuitStates } from "@/lib/http";
+import type { CircuitSnapshot } from "@/lib/circuit-breaker";
+
+function makeRequest(token?: string): Request {
+  const headers = new Headers();
+  if (token) headers.set("authorization", `Bearer ${token}`);
+  return new Request("http://localhost/api/admin/circuit-breakers", {
+    headers,
+  });
+}
+
+describe("GET /api/admin/circuit-breakers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.ADMIN_SECRET;
+  });
+
+  it("returns 404 when ADMIN_SECRET is not set", async () => {
+    const res = await GET(makeRequest("anything"));
+
+    expect(res.status).toBe(404);
+    expect(getCircuitStates).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 when token is wrong", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await GET(makeRequest("wrong-secret"));
+
+    expect(res.status).toBe(401);
+    expect(getCircuitStates).not.toHaveBeenCalled();
+  });
+
+  it("returns the state of every tracked host", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    const hosts: CircuitSnapshot[] = [
+      {
+        host: "www.rottentomatoes.com",
+        state: "open",
+        failures: 5,
+        lastFailure: "403 Forbidden",
+        openedAt: "2026-01-01T00:00:00.000Z",
+        retryAt: "2026-01-01T00:01:00.000Z",
+      },
+    ];
+    vi.mocked(getCircuitStates).mockReturnValue(hosts);
+
+    const res = await GET(makeRequest("correct-secret"));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ hosts });
+  });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getCircuitStates } from "@/lib/http";
+import { requireAdmin } from "../auth";
+
+/**
+ * Per-host circuit breaker state for this server instance: hosts with recent
+ * failures and whether requests to them are currently short-circuited.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  return NextResponse.json({ hosts: getCircuitStates() });
+}
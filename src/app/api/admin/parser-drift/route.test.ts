@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/db/parser-drift", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/db/parser-drift")>()),
+  getParserDriftReport: vi.fn(),
+}));
+
+import { GET } from "./route";
+import { getParserDriftReport } from "@/db/parser-drift";
+
+function makeRequest(token?: string, query = ""): Request {
+  const headers = new Headers();
+  if (token) headers.set("authorization", `Bearer ${token}`);
+  return new Request(`http://localhost/api/admin/parser-drift${query}`, {
+    headers,
+  });
+}
+
+describe("GET /api/admin/parser-drift", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.ADMIN_SECRET;
+  });
+
+  it("returns 404 when ADMIN_SECRET is not set", async () => {
+    const res = await GET(makeRequest("anything"));
+
+    expect(res.status).toBe(404);
+    expect(getParserDriftReport).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 when token is wrong", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await GET(makeRequest("wrong-secret"));
+
+    expect(res.status).toBe(401);
+    expect(getParserDriftReport).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an out-of-range window", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await GET(makeRequest("correct-secret", "?days=0"));
+
+    expect(res.status).toBe(400);
+    expect(getParserDriftReport).not.toHaveBeenCalled();
+  });
+
+  it("returns 503 when the database is not configured", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    vi.mocked(getParserDriftReport).mockResolvedValue(null);
+
+    const res = await GET(makeRequest("correct-secret"));
+
+    expect(res.status).toBe(503);
+  });
+
+  it("returns the report for the requested window", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    const report = {
+      since: "2026-10-13",
+      sources: [
+        {
+          source: "metacritic",
+          pages: 40,
+          drifted: 10,
+          driftRate: 0.25,
+          days: [
+            { day: "2026-10-19", pages: 40, drifted: 10, driftRate: 0.25 },
+          ],
+        },
+      ],
+    };
+    vi.mocked(getParserDriftReport).mockResolvedValue(report);
+
+    const res = await GET(makeRequest("correct-secret", "?days=7"));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(report);
+    expect(getParserDriftReport).toHaveBeenCalledWith(7);
+  });
+});
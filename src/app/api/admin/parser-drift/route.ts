@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getParserDriftReport, parseReportDays } from "@/db/parser-drift";
+import { log } from "@/lib/logger";
+import { requireAdmin } from "../auth";
+
+/**
+ * How often each scraped source served a page its parsers no longer
+ * recognise, per day over the last `?days=` days (default 30). Read-only.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const parsed = parseReportDays(new URL(request.url).searchParams.get("days"));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const report = await getParserDriftReport(parsed.days);
+    if (!report) {
+      return NextResponse.json(
+        { error: "Database not configured" },
+        { status: 503 },
+      );
+    }
+    return NextResponse.json(report);
+  } catch (err) {
+    log.error("parser_drift_report_failed", {
+      error: (err as Error).message,
+    });
+    return NextResponse.json(
+      { error: "Failed to build parser drift report" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/db/ranking-diff", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/db/ranking-diff")>()),
+  generateRankingDiff: vi.fn(),
+}));
+
+import { POST } from "./route";
+import { generateRankingDiff } from "@/db/ranking-diff";
+import type { RankingDiffReport } from "@/db/ranking-diff";
+
+function makeRequest(token?: string, body: unknown = {}): Request {
+  const headers = new Headers({ "content-type": "application/json" });
+  if (token) headers.set("authorization", `Bearer ${token}`);
+  return new Request("http://localhost/api/admin/ranking-diff", {
+    method: "POST",
+    headers,
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+describe("POST /api/admin/ranking-diff", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.ADMIN_SECRET;
+  });
+
+  it("returns 404 when ADMIN_SECRET is not set", async () => {
+    const res = await POST(makeRequest("anything"));
+
+    expect(res.status).toBe(404);
+    expect(generateRankingDiff).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 when token is wrong", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await POST(makeRequest("wrong-secret"));
+
+    expect(res.status).toBe(401);
+    expect(generateRankingDiff).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an invalid candidate config", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await POST(makeRequest("correct-secret", { profile: "nope" }));
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body).toEqual({ error: "Unknown scoring profile: nope" });
+    expect(generateRankingDiff).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for a malformed JSON body", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await POST(makeRequest("correct-secret", "{not json"));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 503 when the database is not configured", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    vi.mocked(generateRankingDiff).mockResolvedValue(null);
+
+    const res = await POST(makeRequest("correct-secret", { profile: "crowd" }));
+
+    expect(res.status).toBe(503);
+  });
+
+  it("returns the diff report for the parsed candidate", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    const report = { baseline: "current", candidate: "crowd" };
+    vi.mocked(generateRankingDiff).mockResolvedValue(
+      report as RankingDiffReport,
+    );
+
+    const res = await POST(
+      makeRequest("correct-secret", {
+        profile: "crowd",
+        minSourcesForVerdict: 4,
+      }),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual(report);
+    expect(generateRankingDiff).toHaveBeenCalledWith(
+      expect.objectContaining({
+        label: "crowd + minSourcesForVerdict",
+        minSourcesForVerdict: 4,
+      }),
+    );
+  });
+});
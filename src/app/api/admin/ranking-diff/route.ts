@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { generateRankingDiff, parseRankingConfig } from "@/db/ranking-diff";
+import { log } from "@/lib/logger";
+import { requireAdmin } from "../auth";
+
+/**
+ * Compare the stored ranking under the current algorithm with a candidate
+ * config given as the JSON body (see `parseRankingConfig`). Read-only.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseRankingConfig(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const report = await generateRankingDiff(parsed.config);
+    if (!report) {
+      return NextResponse.json(
+        { error: "Database not configured" },
+        { status: 503 },
+      );
+    }
+    return NextResponse.json(report);
+  } catch (err) {
+    log.error("ranking_diff_failed", { error: (err as Error).message });
+    return NextResponse.json(
+      { error: "Failed to build ranking diff" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/db/source-ids", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/db/source-ids")>()),
+  setSourceIdOverride: vi.fn(),
+  deleteSourceId: vi.fn(),
+}));
+
+vi.mock("@/lib/fetchers", () => ({
+  invalidateScore: vi.fn(),
+}));
+
+import { DELETE, POST } from "./route";
+import { deleteSourceId, setSourceIdOverride } from "@/db/source-ids";
+import type { SourceIdRow } from "@/db/schema";
+import { invalidateScore } from "@/lib/fetchers";
+
+function makeRequest(
+  method: "POST" | "DELETE",
+  token?: string,
+  body: unknown = {},
+): Request {
+  const headers = new Headers({ "content-type": "application/json" });
+  if (token) headers.set("authorization", `Bearer ${token}`);
+  return new Request("http://localhost/api/admin/source-ids", {
+    method,
+    headers,
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+const override = {
+  imdbId: "tt0111161",
+  key: "letterboxd",
+  id: "the-shawshank-redemption",
+};
+
+describe("POST /api/admin/source-ids", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.ADMIN_SECRET;
+  });
+
+  it("returns 404 when ADMIN_SECRET is not set", async () => {
+    const res = await POST(makeRequest("POST", "anything", override));
+
+    expect(res.status).toBe(404);
+    expect(setSourceIdOverride).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 when token is wrong", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await POST(makeRequest("POST", "wrong-secret", override));
+
+    expect(res.status).toBe(401);
+    expect(setSourceIdOverride).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an unknown platform key", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await POST(
+      makeRequest("POST", "correct-secret", { ...override, key: "netflix" }),
+    );
+
+    expect(res.status).toBe(400);
+    expect(setSourceIdOverride).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for a malformed JSON body", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await POST(makeRequest("POST", "correct-secret", "{not json"));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 503 when the database is not configured", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    vi.mocked(setSourceIdOverride).mockResolvedValue(null);
+
+    const res = await POST(makeRequest("POST", "correct-secret", override));
+
+    expect(res.status).toBe(503);
+    expect(invalidateScore).not.toHaveBeenCalled();
+  });
+
+  it("saves the override and drops the cached payload", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    const row = { ...override, source: "letterboxd", method: "manual" };
+    vi.mocked(setSourceIdOverride).mockResolvedValue(
+      row as unknown as SourceIdRow,
+    );
+
+    const res = await POST(makeRequest("POST", "correct-secret", override));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ ok: true, sourceId: row });
+    expect(setSourceIdOverride).toHaveBeenCalledWith(override);
+    expect(invalidateScore).toHaveBeenCalledWith("tt0111161");
+  });
+
+  it("returns 500 when the write fails", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    vi.mocked(setSourceIdOverride).mockRejectedValue(new Error("db down"));
+
+    const res = await POST(makeRequest("POST", "correct-secret", override));
+
+    expect(res.status).toBe(500);
+  });
+});
+
+describe("DELETE /api/admin/source-ids", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.ADMIN_SECRET;
+  });
+
+  it("returns 401 when no token is provided", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+
+    const res = await DELETE(makeRequest("DELETE", undefined, override));
+
+    expect(res.status).toBe(401);
+    expect(deleteSourceId).not.toHaveBeenCalled();
+  });
+
+  it("deletes the mapping without requiring an id", async () => {
+    process.env.ADMIN_SECRET = "correct-secret";
+    vi.mocked(deleteSourceId).mockResolvedValue(true);
+
+    const res = await DELETE(
+      makeRequest("DELETE", "correct-secret", {
+        imdbId: "tt0111161",
+        key: "letterboxd",
+      }),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ ok: true, deleted: true });
+    expect(deleteSourceId).toHaveBeenCalledWith(
+      expect.objectContaining({ imdbId: "tt0111161", key: "letterboxd" }),
+    );
+    expect(invalidateScore).toHaveBeenCalledWith("tt0111161");
+  });
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import {
+  deleteSourceId,
+  parseSourceIdOverride,
+  setSourceIdOverride,
+  type SourceIdOverride,
+} from "@/db/source-ids";
+import { invalidateScore } from "@/lib/fetchers";
+import { log } from "@/lib/logger";
+import { requireAdmin } from "../auth";
+
+// Shared auth + body validation; a NextResponse means "reply with this"
+async function readOverride(
+  request: Request,
+  requireId: boolean,
+): Promise<SourceIdOverride | NextResponse> {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseSourceIdOverride(body, { requireId });
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  return parsed.override;
+}
+
+const noDb = () =>
+  NextResponse.json({ error: "Database not configured" }, { status: 503 });
+
+/**
+ * Set or correct a platform ID for a film, e.g.
+ * `{ "imdbId": "tt0111161", "key": "letterboxd", "id": "the-shawshank-redemption" }`.
+ * Manual mappings win over Wikidata; the cached payload is dropped so the
+ * next lookup re-fetches with the new ID.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const override = await readOverride(request, true);
+  if (override instanceof NextResponse) return override;
+
+  try {
+    const row = await setSourceIdOverride(override);
+    if (!row) return noDb();
+    await invalidateScore(override.imdbId);
+    log.info("source_id_override_set", {
+      imdbId: override.imdbId,
+      key: override.key,
+      id: override.id,
+    });
+    return NextResponse.json({ ok: true, sourceId: row });
+  } catch (err) {
+    log.error("source_id_override_failed", {
+      imdbId: override.imdbId,
+      error: (err as Error).message,
+    });
+    return NextResponse.json(
+      { error: "Failed to save source ID" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Forget a mapping (`{ "imdbId", "key" }`) — manual or remembered — so the
+ * fetcher falls back to Wikidata or resolves the ID afresh.
+ */
+export async function DELETE(request: Request): Promise<NextResponse> {
+  const override = await readOverride(request, false);
+  if (override instanceof NextResponse) return override;
+
+  try {
+    const deleted = await deleteSourceId(override);
+    if (deleted === null) return noDb();
+    await invalidateScore(override.imdbId);
+    log.info("source_id_override_deleted", {
+      imdbId: override.imdbId,
+      key: override.key,
+      deleted,
+    });
+    return NextResponse.json({ ok: true, deleted });
+  } catch (err) {
+    log.error("source_id_override_failed", {
+      imdbId: override.imdbId,
+      error: (err as Error).message,
+    });
+    return NextResponse.json(
+      { error: "Failed to delete source ID" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+vi.mock("next/server", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("next/server")>();
+  return { ...actual, after: vi.fn() };
+});
+
+import { POST } from "./route";
+import { setTransport } from "@/lib/http";
+import {
+  DEFAULT_FIXTURES_DIR,
+  recordingTransport,
+  replayTransport,
+} from "@/lib/http-transport";
+import type { Transport } from "@/lib/http";
+import type { ScorePayload } from "@/lib/types";
+
+const inception = () =>
+  new Request("http://localhost/api/score", {
+    method: "POST",
+    body: JSON.stringify({ tmdbId: 27205 }),
+    headers: { "content-type": "application/json" },
+  });
+
+// Score through `transport` with fresh modules, so no in-process cache
+// (TMDB, Wikidata, Douban, scores) answers in its place
+async function scoreThrough(transport: Transport): Promise<ScorePayload> {
+  vi.resetModules();
+  const http = await import("@/lib/http");
+  const route = await import("./route");
+  http.setTransport(transport);
+  try {
+    const res = await route.POST(inception());
+    expect(res.status).toBe(200);
+    return (await res.json()) as ScorePayload;
+  } finally {
+    http.setTransport(null);
+  }
+}
+
+// The whole pipeline (TMDB → Wikidata → every source adapter → scoring)
+// against Inception's pages in the HTTP_TRANSPORT=record format — no network
+// at all. Every fixture must describe the same film: the assertions below
+// read values straight off those pages.
+describe("POST /api/score (replayed captures)", () => {
+  const fetchSpy = vi.spyOn(global, "fetch");
+
+  beforeAll(() => {
+    process.env.TMDB_API_KEY = "tmdb";
+    process.env.OMDB_API_KEY = "omdb";
+    setTransport(replayTransport(path.resolve(DEFAULT_FIXTURES_DIR)));
+  });
+
+  afterAll(() => {
+    setTransport(null);
+    fetchSpy.mockRestore();
+  });
+
+  it("scores Inception end to end offline", async () => {
+    const res = await POST(inception());
+    const json = (await res.json()) as ScorePayload;
+
+    expect(res.status).toBe(200);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(json.movie).toMatchObject({
+      imdbId: "tt1375666",
+      title: "Inception",
+      year: "2010",
+      director: "Christopher Nolan",
+    });
+
+    const failed = json.sources.filter((s) => s.normalized == null);
+    expect(failed).toEqual([]);
+    const bySource = Object.fromEntries(json.sources.map((s) => [s.source, s]));
+    expect(bySource.imdb).toMatchObject({
+      raw: { value: 8.8, scale: "0-10" },
+      count: 2703518,
+    });
+    expect(bySource.metacritic.raw?.value).toBe(74);
+    expect(bySource.metacritic.count).toBe(42);
+    expect(bySource.metacritic_user.raw?.value).toBe(8.9);
+    expect(bySource.letterboxd).toMatchObject({
+      raw: { value: 4.22 },
+      count: 2877003,
+    });
+    expect(bySource.mubi).toMatchObject({ raw: { value: 7.8 }, count: 61482 });
+    expect(bySource.filmaffinity).toMatchObject({
+      raw: { value: 8 },
+      count: 302417,
+    });
+    expect(bySource.kinopoisk).toMatchObject({
+      raw: { value: 8.518 },
+      count: 893415,
+    });
+    expect(bySource.douban.raw?.value).toBe(9.4);
+    expect(bySource.allocine_press.raw?.value).toBe(4);
+    expect(bySource.allocine_user.raw?.value).toBe(4.5);
+    expect(bySource.rotten_tomatoes.raw?.value).toBe(87);
+    expect(bySource.rotten_tomatoes.badge).toBe("certified_fresh");
+
+    // The histograms add up to the vote counts on each film page
+    const total = (d?: { count: number }[]) =>
+      d?.reduce((n, b) => n + b.count, 0);
+    expect(bySource.imdb.distribution).toHaveLength(10);
+    expect(total(bySource.imdb.distribution)).toBe(2703518);
+    expect(bySource.letterboxd.distribution).toHaveLength(10);
+    expect(bySource.letterboxd.distribution?.[9]).toEqual({
+      rating: 5,
+      count: 821309,
+    });
+    expect(total(bySource.letterboxd.distribution)).toBe(2877003);
+    expect(json.consensus?.critics).toMatch(/^Smart, innovative/);
+    expect(json.overall?.coverage).toBe(1);
+    expect(json.overall?.score).toBeGreaterThan(80);
+  });
+
+  it("replays what a recording run captured", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "score-capture-"));
+    try {
+      // The checked-in captures stand in for the network while recording
+      const fixturesDir = path.resolve(DEFAULT_FIXTURES_DIR);
+      const fixtures = replayTransport(fixturesDir);
+      const recorded = await scoreThrough(recordingTransport(dir, fixtures));
+      const hosts = async (d: string) => (await readdir(d)).sort();
+      expect(await hosts(dir)).toEqual(await hosts(fixturesDir));
+
+      const replayed = await scoreThrough(replayTransport(dir));
+      expect(replayed).toEqual(recorded);
+      expect(replayed.sources.filter((s) => s.normalized == null)).toEqual([]);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -37,8 +37,15 @@ vi.mock("@/lib/fetchers", () => ({
   })),
 }));
 
+vi.mock("@/db/calibration", () => ({
+  getLatestCalibration: vi.fn(async () => null),
+}));
+
 import { POST } from "./route";
 import { resolveByTmdbId } from "@/lib/resolve";
+import { runFetchers } from "@/lib/fetchers";
+import { getLatestCalibration } from "@/db/calibration";
+import { computeQuantiles } from "@/lib/calibration";
 import { vi as vitestVi } from "vitest";
 
 beforeAll(() => {
@@ -72,4 +79,112 @@ describe("POST /api/score", () => {
     const res = await POST(req);
     expect(res.status).toBe(400);
   });
+
+  it("re-derives overall for a non-default scoring profile", async () => {
+    const sources = [
+      ["rotten_tomatoes_top", 95],
+      ["metacritic", 94],
+      ["rotten_tomatoes_all", 93],
+      ["allocine_press", 90],
+      ["letterboxd", 80],
+      ["rotten_tomatoes_audience", 55],
+      ["imdb", 58],
+      ["allocine_user", 55],
+      ["douban", 60],
+    ].map(([source, normalized]) => ({ source, label: source, normalized }));
+    vitestVi.mocked(runFetchers).mockImplementationOnce(async ({ movie }) => ({
+      payload: {
+        movie,
+        sources,
+        overall: { score: 84, coverage: 1, disagreement: 0 },
+      } as never,
+      deferred: async () => {},
+    }));
+
+    const req = new Request("http://localhost/api/score", {
+      method: "POST",
+      body: JSON.stringify({ tmdbId: 42, profile: "crowd" }),
+      headers: { "content-type": "application/json" },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.profile).toBe("crowd");
+    expect(json.overall.score).toBeLessThan(84);
+    expect(json.overall.coverage).toBe(1);
+  });
+
+  it("400s for an unknown scoring profile", async () => {
+    const req = new Request("http://localhost/api/score", {
+      method: "POST",
+      body: JSON.stringify({ tmdbId: 42, profile: "everyone-loves-it" }),
+      headers: { "content-type": "application/json" },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(400);
+  });
+
+  it("re-normalizes calibrated sources in percentile mode", async () => {
+    vitestVi.mocked(getLatestCalibration).mockResolvedValueOnce({
+      version: 4,
+      sources: {
+        imdb: {
+          // IMDb raw values spread evenly over 6.0-8.0
+          quantiles: computeQuantiles(
+            Array.from({ length: 201 }, (_, i) => 6 + i / 100),
+          ),
+          sampleSize: 201,
+        },
+      },
+    });
+    vitestVi.mocked(runFetchers).mockImplementationOnce(async ({ movie }) => ({
+      payload: {
+        movie,
+        sources: [
+          {
+            source: "imdb",
+            label: "IMDb",
+            normalized: 84,
+            raw: { value: 7.5, scale: "0-10" },
+          },
+        ],
+        overall: null,
+      } as never,
+      deferred: async () => {},
+    }));
+
+    const req = new Request("http://localhost/api/score", {
+      method: "POST",
+      body: JSON.stringify({ tmdbId: 42, normalization: "percentile" }),
+      headers: { "content-type": "application/json" },
+    });
+    const res = await POST(req);
+    const json = await res.json();
+    expect(json.normalization).toBe("percentile");
+    expect(json.calibrationVersion).toBe(4);
+    expect(json.sources[0].normalized).toBeCloseTo(75, 5);
+  });
+
+  it("falls back to static normalization when no calibration exists", async () => {
+    const req = new Request("http://localhost/api/score", {
+      method: "POST",
+      body: JSON.stringify({ tmdbId: 42, normalization: "percentile" }),
+      headers: { "content-type": "application/json" },
+    });
+    const res = await POST(req);
+    const json = await res.json();
+    expect(json.normalization).toBe("static");
+    expect(json.calibrationVersion).toBeUndefined();
+    expect(json.sources[0].normalized).toBe(84);
+  });
+
+  it("400s for an unknown normalization mode", async () => {
+    const req = new Request("http://localhost/api/score", {
+      method: "POST",
+      body: JSON.stringify({ tmdbId: 42, normalization: "zscore" }),
+      headers: { "content-type": "application/json" },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(400);
+  });
 });
@@ -6,6 +6,15 @@ import { getApiKeys } from "@/lib/config";
 import { isAbortError } from "@/lib/http";
 import { log } from "@/lib/logger";
 import { kvGet, kvSet } from "@/lib/kv";
+import { normalizeScore } from "@/lib/normalize";
+import { isNormalizationMode } from "@/lib/calibration";
+import { getLatestCalibration } from "@/db/calibration";
+import {
+  computeOverallScore,
+  isScoringProfileId,
+  DEFAULT_SCORING_PROFILE,
+  SCORING_PROFILES,
+} from "@/lib/scoring";
 
 export async function POST(request: Request) {
   let tmdbId: number | undefined;
@@ -18,6 +27,20 @@ export async function POST(request: Request) {
         { status: 400 },
       );
     }
+    const profile = body?.profile ?? DEFAULT_SCORING_PROFILE;
+    if (!isScoringProfileId(profile)) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${String(profile)}` },
+        { status: 400 },
+      );
+    }
+    const normalization = body?.normalization ?? "static";
+    if (!isNormalizationMode(normalization)) {
+      return NextResponse.json(
+        { error: `Unknown normalization mode: ${String(normalization)}` },
+        { status: 400 },
+      );
+    }
 
     const env = {
       OMDB_API_KEY: process.env.OMDB_API_KEY,
@@ -60,7 +83,31 @@ export async function POST(request: Request) {
       }
     });
 
-    return NextResponse.json(payload, { status: 200 });
+    // Fetchers, caches and persistence always use the default profile and
+    // static normalization; other modes are re-derived from the same raw
+    // scores per request. Percentile mode degrades to static until a
+    // calibration has been computed.
+    const calibration =
+      normalization === "percentile" ? await getLatestCalibration() : null;
+    const sources = calibration
+      ? payload.sources.map((s) => (s.raw ? normalizeScore(s, calibration) : s))
+      : payload.sources;
+    const overall =
+      profile === DEFAULT_SCORING_PROFILE && !calibration
+        ? payload.overall
+        : computeOverallScore(sources, SCORING_PROFILES[profile]);
+
+    return NextResponse.json(
+      {
+        ...payload,
+        sources,
+        overall,
+        profile,
+        normalization: calibration ? "percentile" : "static",
+        ...(calibration ? { calibrationVersion: calibration.version } : {}),
+      },
+      { status: 200 },
+    );
   } catch (err) {
     if (isAbortError(err)) {
       log.info("score_request_aborted", { tmdbId });
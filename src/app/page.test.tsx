@@ -39,7 +39,10 @@ vi.mock("next/link", () => {
 Element.prototype.scrollIntoView = vi.fn();
 
 // Helper: mock search + score responses, select a movie, and return when results render
-async function selectMovieWithPayload(moviePayload: Record<string, unknown>) {
+async function selectMovieWithPayload(
+  moviePayload: Record<string, unknown>,
+  sources: Record<string, unknown>[] = [],
+) {
   const user = userEvent.setup();
 
   mockFetch.mockImplementation((url: string) => {
@@ -66,7 +69,7 @@ async function selectMovieWithPayload(moviePayload: Record<string, unknown>) {
               poster: null,
               ...moviePayload,
             },
-            sources: [],
+            sources,
             overall: { score: 75 },
             missingSources: [],
           }),
@@ -352,4 +355,125 @@ describe("Home page", () => {
       expect(screen.getByText("85")).toBeInTheDocument();
     });
   });
+
+  describe("source cards", () => {
+    it("skips optional sources the film has no page on", async () => {
+      await selectMovieWithPayload({}, [
+        { source: "imdb", label: "IMDb", normalized: 80 },
+        { source: "mubi", label: "MUBI", normalized: null },
+        {
+          source: "kinopoisk",
+          label: "Kinopoisk",
+          normalized: null,
+          error: "Timed out",
+          errorCode: "timeout",
+        },
+      ]);
+
+      expect(screen.getByText("IMDb")).toBeInTheDocument();
+      expect(screen.getByText("Kinopoisk")).toBeInTheDocument();
+      expect(screen.queryByText("MUBI")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("score breakdown panel", () => {
+    it("renders tier weights and per-source values when breakdown is present", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockImplementation((url: string) => {
+        if (url.includes("/api/search")) {
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                results: [
+                  { id: 1, title: "Test Movie", year: "2024", poster: null },
+                ],
+              }),
+          });
+        }
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              movie: { title: "Test Movie", imdbId: "tt9999999" },
+              sources: [
+                {
+                  source: "allocine_press",
+                  label: "AlloCiné Press",
+                  normalized: 90,
+                },
+              ],
+              overall: {
+                score: 75,
+                coverage: 1,
+                disagreement: 0,
+                breakdown: {
+                  profile: "balanced",
+                  tiers: [
+                    {
+                      tier: "critic",
+                      score: 80,
+                      baseWeight: 0.5,
+                      effectiveWeight: 0.625,
+                    },
+                    {
+                      tier: "cinephile",
+                      score: 70,
+                      baseWeight: 0.3,
+                      effectiveWeight: 0.375,
+                    },
+                    {
+                      tier: "mainstream",
+                      score: null,
+                      baseWeight: 0.2,
+                      effectiveWeight: 0,
+                    },
+                  ],
+                  criticMode: "baseline",
+                  criticBaseline: 78,
+                  elitePremium: { raw: 20, clamped: 15, dampened: 6 },
+                  sources: [
+                    {
+                      source: "allocine_press",
+                      normalized: 90,
+                      shrunk: 76.7,
+                      count: 4,
+                    },
+                  ],
+                },
+              },
+            }),
+        });
+      });
+
+      render(<Home />);
+      await user.type(screen.getByRole("combobox"), "Test");
+      await waitFor(() => {
+        expect(screen.getByText("Test Movie")).toBeInTheDocument();
+      });
+      await user.click(screen.getByText("Test Movie"));
+
+      await waitFor(() => {
+        expect(
+          screen.getByText("How this score was computed"),
+        ).toBeInTheDocument();
+      });
+      expect(screen.getByText("Critics")).toBeInTheDocument();
+      expect(
+        screen.getByText("(base 50%)", { exact: false }),
+      ).toBeInTheDocument();
+      expect(screen.getByText("AlloCiné Press")).toBeInTheDocument();
+      expect(screen.getByText("76.7")).toBeInTheDocument();
+      expect(
+        screen.getByText("+20.0 raw", { exact: false }),
+      ).toBeInTheDocument();
+    });
+
+    it("omits the panel for payloads without a breakdown", async () => {
+      await selectMovieWithPayload({});
+      expect(
+        screen.queryByText("How this score was computed"),
+      ).not.toBeInTheDocument();
+    });
+  });
 });
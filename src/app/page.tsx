@@ -16,12 +16,30 @@ import { NavTabs } from "./NavTabs";
 import { Poster } from "./Poster";
 import { SearchCombobox } from "./SearchCombobox";
 import { SourceIcon } from "./SourceIcon";
+import { RatingHistogram } from "./RatingHistogram";
 import dynamic from "next/dynamic";
 
 const ThemesSection = dynamic(() =>
   import("./ThemesSection").then((m) => m.ThemesSection),
 );
-import type { ScorePayload, SourceScore, MovieInfo } from "@/lib/types";
+import type {
+  ScorePayload,
+  SourceScore,
+  MovieInfo,
+  ScoringProfileId,
+  ScoreBreakdown,
+  TierName,
+} from "@/lib/types";
+import {
+  SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE,
+  isEmptyOptionalScore,
+} from "@/lib/scoring";
+
+const profileOptions = Object.values(SCORING_PROFILES).map((p) => ({
+  value: p.id,
+  label: p.label,
+}));
 
 // Discriminated union for fetch state - makes impossible states impossible
 type FetchState =
@@ -70,6 +88,9 @@ const ScoreCard = memo(function ScoreCard({ score }: { score: SourceScore }) {
           {score.raw.value} out of {score.raw.scale.split("-")[1]}
         </p>
       ) : null}
+      {score.distribution ? (
+        <RatingHistogram distribution={score.distribution} />
+      ) : null}
       {score.fromFallback ? (
         <p className={styles.scoreMuted}>via fallback</p>
       ) : null}
@@ -271,6 +292,113 @@ const CreditsList = memo(function CreditsList({ movie }: { movie: MovieInfo }) {
   );
 });
 
+const TIER_LABELS: Record<TierName, string> = {
+  critic: "Critics",
+  cinephile: "Cinephile",
+  mainstream: "Mainstream",
+};
+
+function formatDecimal(val: number | null) {
+  return val == null ? "—" : val.toFixed(1);
+}
+
+function formatSigned(val: number) {
+  return `${val >= 0 ? "+" : "−"}${Math.abs(val).toFixed(1)}`;
+}
+
+type ScoreBreakdownPanelProps = {
+  breakdown: ScoreBreakdown;
+  sources: SourceScore[];
+};
+
+const ScoreBreakdownPanel = memo(function ScoreBreakdownPanel({
+  breakdown,
+  sources,
+}: ScoreBreakdownPanelProps) {
+  const labels = new Map(sources.map((s) => [s.source, s.label]));
+  const { tiers, criticMode, criticBaseline, elitePremium } = breakdown;
+
+  return (
+    <details className={styles.breakdownPanel}>
+      <summary className={styles.breakdownSummary}>
+        How this score was computed
+      </summary>
+
+      <table className={styles.breakdownTable}>
+        <thead>
+          <tr>
+            <th scope="col">Tier</th>
+            <th scope="col">Score</th>
+            <th scope="col">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tiers.map((t) => (
+            <tr key={t.tier}>
+              <td>{TIER_LABELS[t.tier]}</td>
+              <td>{formatDecimal(t.score)}</td>
+              <td>
+                {Math.round(t.effectiveWeight * 100)}%
+                {t.effectiveWeight !== t.baseWeight ? (
+                  <span className={styles.breakdownMuted}>
+                    {" "}
+                    (base {Math.round(t.baseWeight * 100)}%)
+                  </span>
+                ) : null}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className={styles.breakdownNote}>
+        {criticMode === "baseline" ? (
+          <>
+            Critic baseline {formatDecimal(criticBaseline)}
+            {elitePremium ? (
+              <>
+                {" "}
+                · Elite premium {formatSigned(elitePremium.raw)} raw →{" "}
+                {formatSigned(elitePremium.clamped)} clamped →{" "}
+                {formatSigned(elitePremium.dampened)} applied
+              </>
+            ) : (
+              " · No elite critics available"
+            )}
+          </>
+        ) : (
+          "No RT critics average — critic tier uses Top Critics and Metacritic directly"
+        )}
+      </p>
+
+      <table className={styles.breakdownTable}>
+        <thead>
+          <tr>
+            <th scope="col">Source</th>
+            <th scope="col">Score</th>
+            <th scope="col">After shrinkage</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.sources.map((s) => (
+            <tr key={s.source}>
+              <td>{labels.get(s.source) ?? s.source}</td>
+              <td>{formatDecimal(s.normalized)}</td>
+              <td>
+                {s.shrunk !== s.normalized ? (
+                  formatDecimal(s.shrunk)
+                ) : (
+                  <span className={styles.breakdownMuted}>—</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+});
+
 type ConsensusSectionProps = {
   consensus: { critics?: string; audience?: string };
 };
@@ -303,6 +431,9 @@ function HomeContent() {
   const [resetKey, setResetKey] = useState(0);
   const [fetchState, dispatch] = useReducer(fetchReducer, { status: "idle" });
   const [lastTmdbId, setLastTmdbId] = useState<number | null>(null);
+  const [profile, setProfile] = useState<ScoringProfileId>(
+    DEFAULT_SCORING_PROFILE,
+  );
   const scoreAbortController = useRef<AbortController | null>(null);
   const deepLinkHandled = useRef(false);
 
@@ -311,29 +442,43 @@ function HomeContent() {
   const error = fetchState.status === "error" ? fetchState.error : null;
   const data = fetchState.status === "success" ? fetchState.data : null;
 
-  const fetchScores = useCallback(async (tmdbId: number) => {
-    // Cancel any in-flight request
-    scoreAbortController.current?.abort();
-    scoreAbortController.current = new AbortController();
-
-    setLastTmdbId(tmdbId);
-    dispatch({ type: "FETCH_START" });
-    try {
-      const res = await fetch("/api/score", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ tmdbId }),
-        signal: scoreAbortController.current.signal,
-      });
-      const json = await res.json();
-      if (!res.ok) throw new Error(json.error || "Request failed");
-      dispatch({ type: "FETCH_SUCCESS", data: json as ScorePayload });
-    } catch (err) {
-      // Ignore aborted requests
-      if ((err as Error).name === "AbortError") return;
-      dispatch({ type: "FETCH_ERROR", error: (err as Error).message });
-    }
-  }, []); // dispatch and setLastTmdbId are stable; scoreAbortController is a ref
+  const fetchScores = useCallback(
+    async (tmdbId: number, scoringProfile: ScoringProfileId = profile) => {
+      // Cancel any in-flight request
+      scoreAbortController.current?.abort();
+      scoreAbortController.current = new AbortController();
+
+      setLastTmdbId(tmdbId);
+      dispatch({ type: "FETCH_START" });
+      try {
+        const res = await fetch("/api/score", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          // The server defaults to the balanced profile — only send overrides
+          body: JSON.stringify(
+            scoringProfile === DEFAULT_SCORING_PROFILE
+              ? { tmdbId }
+              : { tmdbId, profile: scoringProfile },
+          ),
+          signal: scoreAbortController.current.signal,
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Request failed");
+        dispatch({ type: "FETCH_SUCCESS", data: json as ScorePayload });
+      } catch (err) {
+        // Ignore aborted requests
+        if ((err as Error).name === "AbortError") return;
+        dispatch({ type: "FETCH_ERROR", error: (err as Error).message });
+      }
+    },
+    // dispatch and setLastTmdbId are stable; scoreAbortController is a ref
+    [profile],
+  );
+
+  const handleProfileChange = (next: ScoringProfileId) => {
+    setProfile(next);
+    if (lastTmdbId != null) fetchScores(lastTmdbId, next);
+  };
 
   // Deep-link: auto-fetch when ?tmdbId= is present (e.g., from /top page)
   useEffect(() => {
@@ -370,7 +515,8 @@ function HomeContent() {
       data?.sources.filter(
         (s) =>
           !s.source.startsWith("rotten_tomatoes") &&
-          !s.source.startsWith("allocine_"),
+          !s.source.startsWith("allocine_") &&
+          !isEmptyOptionalScore(s),
       ) ?? [];
     const rtMain = rtScores.find((s) => s.source === "rotten_tomatoes");
     const rtAudience = rtScores.find(
@@ -508,7 +654,34 @@ function HomeContent() {
                   <p className={styles.verdictScore}>
                     {formatScore(data.overall?.score ?? null)}
                   </p>
+                  {data.overall?.scoreLow != null &&
+                  data.overall.scoreHigh != null ? (
+                    <p className={styles.verdictBand}>
+                      95% range {formatScore(data.overall.scoreLow)}–
+                      {formatScore(data.overall.scoreHigh)}
+                    </p>
+                  ) : null}
+                  <select
+                    className={styles.profileSelect}
+                    value={profile}
+                    onChange={(e) =>
+                      handleProfileChange(e.target.value as ScoringProfileId)
+                    }
+                    aria-label="Scoring profile"
+                  >
+                    {profileOptions.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
+                {data.overall?.breakdown && (
+                  <ScoreBreakdownPanel
+                    breakdown={data.overall.breakdown}
+                    sources={data.sources}
+                  />
+                )}
               </div>
               <div className={styles.movieInfoExtra}>
                 {data.themes && data.themes.length > 0 && (
@@ -7,9 +7,16 @@ import styles from "./top.module.css";
 
 const sortOptions = [
   { value: "top", label: "Highest Rated" },
+  { value: "weighted", label: "Weighted by Votes" },
   { value: "divisive", label: "Most Divisive" },
+  { value: "darlings", label: "Critics\u2019 Darlings" },
+  { value: "crowd", label: "Crowd Pleasers" },
+  { value: "gems", label: "Hidden Gems" },
 ] as const;
 
+// Sorts whose list is capped at 500 (the 1000 option falls back to 500)
+const cappedSorts: readonly string[] = ["divisive", "darlings", "crowd"];
+
 const limitOptions = [
   { value: "10", label: "Top 10" },
   { value: "100", label: "Top 100" },
@@ -32,7 +39,7 @@ export function TopFilters() {
 
   const rawLimit = searchParams.get("limit") ?? "10";
   const currentLimit =
-    currentSort === "divisive" && rawLimit === "1000" ? "500" : rawLimit;
+    cappedSorts.includes(currentSort) && rawLimit === "1000" ? "500" : rawLimit;
 
   const updateParams = useCallback(
     (key: string, value: string) => {
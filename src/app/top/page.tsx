@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import { Suspense } from "react";
 import Link from "next/link";
-import { getTopMovies, type TopSort } from "@/db/queries";
+import { getTopMovies, DEFAULT_MIN_VOTES, type TopSort } from "@/db/queries";
 import { NavTabs } from "../NavTabs";
 import { PosterThumbnail } from "./PosterThumbnail";
 import { TopFilters } from "./TopFilters";
@@ -23,6 +23,7 @@ type SearchParams = Promise<{
   sources?: string;
   sort?: string;
   genre?: string;
+  minVotes?: string;
 }>;
 
 function parsePositiveInt(value: string | undefined, fallback: number): number {
@@ -31,8 +32,38 @@ function parsePositiveInt(value: string | undefined, fallback: number): number {
   return Number.isInteger(n) && n > 0 ? n : fallback;
 }
 
+const SORT_COPY: Record<TopSort, { title: string; subhead: string }> = {
+  top: { title: "Highest Rated", subhead: "Highest-rated films scored so far" },
+  divisive: {
+    title: "Most Divisive",
+    subhead: "Films where critics and audiences disagree the most",
+  },
+  darlings: {
+    title: "Critics\u2019 Darlings",
+    subhead: "Films critics rate well above audiences",
+  },
+  crowd: {
+    title: "Crowd Pleasers",
+    subhead: "Films audiences rate well above critics",
+  },
+  weighted: {
+    title: "Weighted Top",
+    subhead: "Scores weighted by how many people have rated each film",
+  },
+  gems: {
+    title: "Hidden Gems",
+    subhead: "Highly rated films that few people have seen yet",
+  },
+};
+
 function parseSort(value: string | undefined): TopSort {
-  return value === "divisive" ? "divisive" : "top";
+  return value != null && Object.hasOwn(SORT_COPY, value)
+    ? (value as TopSort)
+    : "top";
+}
+
+function formatGap(gap: number): string {
+  return `${gap >= 0 ? "+" : "\u2212"}${Math.abs(gap).toFixed(1)}`;
 }
 
 export default async function TopPage({
@@ -47,49 +78,52 @@ export default async function TopPage({
     params.sources != null && params.sources !== ""
       ? parsePositiveInt(params.sources, undefined as unknown as number)
       : undefined;
+  const minVotes = parsePositiveInt(params.minVotes, DEFAULT_MIN_VOTES);
   const genre: Genre | undefined =
     params.genre && (GENRES as readonly string[]).includes(params.genre)
       ? (params.genre as Genre)
       : undefined;
 
+  const isDivisive = sort === "divisive";
+  const isGapSort = sort === "darlings" || sort === "crowd";
   const effectiveLimit = genre
     ? 500
-    : sort === "divisive"
+    : isDivisive || isGapSort
       ? Math.min(limit, 500)
       : limit;
-  const isDivisive = sort === "divisive";
   const movies = await getTopMovies({
     limit: effectiveLimit,
     minSources,
     sort,
     genre,
+    minVotes,
   });
 
+  const { title, subhead } = SORT_COPY[sort];
   const headline = genre
-    ? isDivisive
-      ? `Most Divisive ${genre}`
-      : `Highest Rated ${genre}`
-    : isDivisive
-      ? `Most Divisive ${effectiveLimit}`
-      : `Top ${effectiveLimit}`;
-  const subhead = isDivisive
-    ? "Films where critics and audiences disagree the most"
-    : "Highest-rated films scored so far";
+    ? `${title} ${genre}`
+    : sort === "top"
+      ? `Top ${effectiveLimit}`
+      : `${title} ${effectiveLimit}`;
 
   // Dense ranking: movies with identical primary scores (to 1 d.p.) share the same rank
   type Movie = (typeof movies)[number];
   const primaryScore = isDivisive
     ? (m: Movie) => m.disagreement ?? 0
-    : (m: Movie) => m.overallScore;
+    : isGapSort
+      ? (m: Movie) => m.criticAudienceGap ?? 0
+      : (m: Movie) => m.overallScore;
 
   const ranks: number[] = [];
   for (let i = 0; i < movies.length; i++) {
     if (i === 0) {
       ranks.push(1);
     } else {
+      // Weighted order isn't a displayed score, so its ranks never tie
       const tied =
+        sort !== "weighted" &&
         primaryScore(movies[i]).toFixed(1) ===
-        primaryScore(movies[i - 1]).toFixed(1);
+          primaryScore(movies[i - 1]).toFixed(1);
       ranks.push(tied ? ranks[i - 1] : i + 1);
     }
   }
@@ -166,10 +200,32 @@ export default async function TopPage({
                       </span>
                       {" spread"}
                     </p>
-                  ) : (
-                    <p className={styles.scoreSources}>
-                      {movie.sourcesCount}/9 sources
+                  ) : isGapSort ? (
+                    <p className={styles.scoreDivisive}>
+                      <span className={styles.scoreDivisiveValue}>
+                        {formatGap(movie.criticAudienceGap ?? 0)}
+                      </span>
+                      {" critics vs crowd"}
                     </p>
+                  ) : (
+                    <>
+                      {sort === "weighted" || sort === "gems" ? (
+                        <p className={styles.scoreBand}>
+                          {(movie.votesCount ?? 0).toLocaleString("en-US")}{" "}
+                          votes
+                        </p>
+                      ) : movie.scoreLow != null && movie.scoreHigh != null ? (
+                        <p
+                          className={styles.scoreBand}
+                          title={`95% range ${movie.scoreLow.toFixed(1)}–${movie.scoreHigh.toFixed(1)}`}
+                        >
+                          ±{((movie.scoreHigh - movie.scoreLow) / 2).toFixed(1)}
+                        </p>
+                      ) : null}
+                      <p className={styles.scoreSources}>
+                        {movie.sourcesCount}/9 sources
+                      </p>
+                    </>
                   )}
                 </div>
               </Link>
@@ -0,0 +1,24 @@
+/**
+ * Recompute the percentile-normalization calibration from every raw score
+ * in Postgres and store it as a new version. Safe to run on a schedule;
+ * older versions are kept.
+ *
+ *   npm run db:calibrate
+ *
+ * Needs POSTGRES_URL (read from .env.local) and Node 22+ for the global
+ * WebSocket used by the Neon driver.
+ */
+import { getDb } from "@/db/client";
+import { recomputeCalibration } from "@/db/calibration";
+import { log } from "@/lib/logger";
+
+async function main() {
+  if (!getDb()) throw new Error("Database not configured");
+  const calibration = await recomputeCalibration();
+  if (!calibration) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  log.error("calibration_failed", { error: (err as Error).message });
+  process.exitCode = 1;
+});
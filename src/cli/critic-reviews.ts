@@ -0,0 +1,36 @@
+/**
+ * Fetch Rotten Tomatoes top-critic reviews into `critic_reviews` for stored
+ * movies with an RT URL:
+ *
+ *   npm run db:critic-reviews                  # movies without reviews yet
+ *   npm run db:critic-reviews -- --all         # refetch every movie
+ *   npm run db:critic-reviews -- --limit=100
+ *
+ * Needs POSTGRES_URL (read from .env.local) and Node 22+ for the global
+ * WebSocket used by the Neon driver.
+ */
+import { collectCriticReviews } from "@/db/critic-reviews";
+import { log } from "@/lib/logger";
+
+function parseArgs(argv: string[]): { all: boolean; limit?: number } {
+  const all = argv.includes("--all");
+  const limitArg = argv.find((a) => a.startsWith("--limit="));
+  const limit = limitArg ? Number(limitArg.split("=")[1]) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    throw new Error(`Invalid --limit: ${limitArg}`);
+  }
+  return { all, limit };
+}
+
+async function main() {
+  const summary = await collectCriticReviews(parseArgs(process.argv.slice(2)));
+  if (!summary) {
+    log.error("critic_reviews_failed", { error: "Database not configured" });
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  log.error("critic_reviews_failed", { error: (err as Error).message });
+  process.exitCode = 1;
+});
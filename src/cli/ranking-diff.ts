@@ -0,0 +1,100 @@
+/**
+ * Show how the stored ranking would change under a candidate scoring config.
+ *
+ *   npm run db:rank-diff -- --profile=crowd
+ *   npm run db:rank-diff -- --config=candidate.json   # see parseRankingConfig
+ *   npm run db:rank-diff -- --profile=balanced --min-sources=4 --json
+ *
+ * Read-only. Needs POSTGRES_URL (read from .env.local) and Node 22+ for the
+ * global WebSocket used by the Neon driver.
+ */
+import { readFileSync } from "node:fs";
+import {
+  generateRankingDiff,
+  parseMoverLimit,
+  parseRankingConfig,
+} from "@/db/ranking-diff";
+import type { RankingDiffReport } from "@/db/ranking-diff";
+import { log } from "@/lib/logger";
+
+function argValue(argv: string[], name: string): string | undefined {
+  const arg = argv.find((a) => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+function candidateInput(argv: string[]): Record<string, unknown> {
+  const file = argValue(argv, "config");
+  const input: Record<string, unknown> = file
+    ? JSON.parse(readFileSync(file, "utf8"))
+    : {};
+  const profile = argValue(argv, "profile");
+  if (profile) input.profile = profile;
+  const minSources = argValue(argv, "min-sources");
+  if (minSources) input.minSourcesForVerdict = Number(minSources);
+  return input;
+}
+
+const fmt = (v: number | null) => (v == null ? "n/a" : v.toFixed(4));
+const name = (m: { title: string; year: number | null }) =>
+  m.year != null ? `${m.title} (${m.year})` : m.title;
+
+function formatReport(r: RankingDiffReport): string {
+  const lines = [
+    `Ranking diff: ${r.baseline} → ${r.candidate}`,
+    `Movies read: ${r.moviesRead}  ranked: ${r.rankedBaseline} → ${r.rankedCandidate}  in both: ${r.rankedInBoth}`,
+    `Kendall tau: ${fmt(r.kendallTau)}  Spearman: ${fmt(r.spearman)}`,
+    "",
+    "Biggest movers up:",
+    ...r.moversUp.map(
+      (m) =>
+        `  +${m.delta}  #${m.baselineRank} → #${m.candidateRank}  ${name(m)}`,
+    ),
+    "Biggest movers down:",
+    ...r.moversDown.map(
+      (m) =>
+        `  ${m.delta}  #${m.baselineRank} → #${m.candidateRank}  ${name(m)}`,
+    ),
+    "",
+    `Verdict gate: ${r.verdictGate.baselineMinSources} → ${r.verdictGate.candidateMinSources} sources`,
+    `  gained (${r.verdictGate.gained.length}):`,
+    ...r.verdictGate.gained.map(
+      (m) => `    ${name(m)}  ${m.sourcesCount} sources`,
+    ),
+    `  lost (${r.verdictGate.lost.length}):`,
+    ...r.verdictGate.lost.map(
+      (m) => `    ${name(m)}  ${m.sourcesCount} sources`,
+    ),
+  ];
+  for (const t of r.topN) {
+    lines.push(
+      "",
+      `Top ${t.n}: ${t.entered.length} in, ${t.exited.length} out`,
+      ...t.entered.map((m) => `  + #${m.rank}  ${name(m)}`),
+      ...t.exited.map((m) => `  - #${m.rank}  ${name(m)}`),
+    );
+  }
+  return lines.join("\n");
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const parsed = parseRankingConfig(candidateInput(argv));
+  if ("error" in parsed) throw new Error(parsed.error);
+
+  const movers = parseMoverLimit(argValue(argv, "movers"));
+  if ("error" in movers) throw new Error(movers.error);
+
+  const report = await generateRankingDiff(parsed.config, movers.movers);
+  if (!report) throw new Error("Database not configured");
+
+  process.stdout.write(
+    argv.includes("--json")
+      ? JSON.stringify(report, null, 2) + "\n"
+      : formatReport(report) + "\n",
+  );
+}
+
+main().catch((err) => {
+  log.error("ranking_diff_failed", { error: (err as Error).message });
+  process.exitCode = 1;
+});
@@ -0,0 +1,44 @@
+/**
+ * Re-derive composite scores from the stored source scores — no network.
+ * Run after bumping CURRENT_SCORE_VERSION:
+ *
+ *   npm run db:rescore                      # movies below the current version
+ *   npm run db:rescore -- --all             # every movie
+ *   npm run db:rescore -- --batch-size=500
+ *
+ * Needs POSTGRES_URL (read from .env.local) and Node 22+ for the global
+ * WebSocket used by the Neon driver.
+ */
+import { rescoreMovies } from "@/db/rescore";
+import { kvTopClear } from "@/db/queries-kv";
+import { log } from "@/lib/logger";
+
+function parseArgs(argv: string[]): { all: boolean; batchSize?: number } {
+  const all = argv.includes("--all");
+  const batchArg = argv.find((a) => a.startsWith("--batch-size="));
+  const batchSize = batchArg ? Number(batchArg.split("=")[1]) : undefined;
+  if (
+    batchSize !== undefined &&
+    !(Number.isInteger(batchSize) && batchSize > 0)
+  ) {
+    throw new Error(`Invalid --batch-size: ${batchArg}`);
+  }
+  return { all, batchSize };
+}
+
+async function main() {
+  const summary = await rescoreMovies(parseArgs(process.argv.slice(2)));
+  if (!summary) {
+    log.error("rescore_failed", { error: "Database not configured" });
+    process.exitCode = 1;
+    return;
+  }
+  // Ranked lists are cached by score version only — drop them so a rescore
+  // without a version bump is visible immediately.
+  if (summary.processed > 0) await kvTopClear();
+}
+
+main().catch((err) => {
+  log.error("rescore_failed", { error: (err as Error).message });
+  process.exitCode = 1;
+});
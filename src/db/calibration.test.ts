@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { NormalizationCalibration } from "./schema";
+import {
+  rowsToCalibration,
+  getLatestCalibration,
+  _resetCalibrationCache,
+} from "./calibration";
+
+vi.mock("./client", () => ({
+  getDb: vi.fn(),
+}));
+
+const createdAt = new Date("2025-01-01T00:00:00Z");
+
+describe("rowsToCalibration", () => {
+  it("returns null for an empty version", () => {
+    expect(rowsToCalibration([])).toBeNull();
+  });
+
+  it("groups rows of one version by source", () => {
+    const rows: NormalizationCalibration[] = [
+      {
+        version: 2,
+        source: "letterboxd",
+        quantiles: [1, 2],
+        sampleSize: 80,
+        createdAt,
+      },
+      {
+        version: 2,
+        source: "douban",
+        quantiles: [5, 9],
+        sampleSize: 60,
+        createdAt,
+      },
+    ];
+    expect(rowsToCalibration(rows)).toEqual({
+      version: 2,
+      sources: {
+        letterboxd: { quantiles: [1, 2], sampleSize: 80 },
+        douban: { quantiles: [5, 9], sampleSize: 60 },
+      },
+    });
+  });
+});
+
+describe("getLatestCalibration", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    _resetCalibrationCache();
+  });
+
+  it("returns null when database is not available", async () => {
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue(null);
+
+    expect(await getLatestCalibration()).toBeNull();
+  });
+
+  it("returns null when no calibration has been computed", async () => {
+    const mockFrom = vi.fn().mockResolvedValue([{ version: null }]);
+    const mockSelect = vi.fn().mockReturnValue({ from: mockFrom });
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue({ select: mockSelect } as never);
+
+    expect(await getLatestCalibration()).toBeNull();
+  });
+
+  it("remembers a missing calibration for a few minutes", async () => {
+    vi.useFakeTimers();
+    const mockFrom = vi.fn().mockResolvedValue([{ version: null }]);
+    const mockSelect = vi.fn().mockReturnValue({ from: mockFrom });
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue({ select: mockSelect } as never);
+
+    expect(await getLatestCalibration()).toBeNull();
+    expect(await getLatestCalibration()).toBeNull();
+    expect(mockSelect).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    expect(await getLatestCalibration()).toBeNull();
+    expect(mockSelect).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it("loads the rows of the highest version", async () => {
+    const rows = [
+      {
+        version: 3,
+        source: "imdb",
+        quantiles: [6, 8],
+        sampleSize: 90,
+        createdAt,
+      },
+    ];
+    const mockWhere = vi.fn().mockResolvedValue(rows);
+    const mockSelect = vi
+      .fn()
+      .mockReturnValueOnce({
+        from: vi.fn().mockResolvedValue([{ version: 3 }]),
+      })
+      .mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({ where: mockWhere }),
+      });
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue({ select: mockSelect } as never);
+
+    const calibration = await getLatestCalibration();
+
+    expect(calibration?.version).toBe(3);
+    expect(calibration?.sources.imdb?.sampleSize).toBe(90);
+    // Served from memory afterwards
+    expect(await getLatestCalibration()).toBe(calibration);
+    expect(mockSelect).toHaveBeenCalledTimes(2);
+  });
+});
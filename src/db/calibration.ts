@@ -0,0 +1,127 @@
+import { eq, isNotNull, max } from "drizzle-orm";
+import { getDb } from "./client";
+import { normalizationCalibrations, scores } from "./schema";
+import type { NormalizationCalibration } from "./schema";
+import type { SourceName } from "@/lib/types";
+import { buildCalibration } from "@/lib/calibration";
+import type { Calibration } from "@/lib/calibration";
+import { LRUCache } from "@/lib/cache";
+import { log } from "@/lib/logger";
+
+// Calibrations change only when the recompute job runs — an hour is plenty
+let calibrationCache = new LRUCache<Calibration>(60 * 60 * 1000, 1);
+const LATEST_KEY = "latest";
+
+// "No calibration yet" is remembered briefly so uncalibrated deployments don't
+// query the table on every score request; a recompute clears it.
+const NO_CALIBRATION_TTL_MS = 5 * 60 * 1000;
+let noCalibrationUntil = 0;
+
+// ─── Pure mapping functions ───────────────────────────────────────────────────
+
+export function rowsToCalibration(
+  rows: NormalizationCalibration[],
+): Calibration | null {
+  if (rows.length === 0) return null;
+  const sources: Calibration["sources"] = {};
+  for (const row of rows) {
+    sources[row.source as SourceName] = {
+      quantiles: row.quantiles,
+      sampleSize: row.sampleSize,
+    };
+  }
+  return { version: rows[0].version, sources };
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+async function latestVersion(
+  db: NonNullable<ReturnType<typeof getDb>>,
+): Promise<number | null> {
+  const [row] = await db
+    .select({ version: max(normalizationCalibrations.version) })
+    .from(normalizationCalibrations);
+  return row?.version ?? null;
+}
+
+/** Latest calibration, or null if none has been computed (or DB is disabled). */
+export async function getLatestCalibration(): Promise<Calibration | null> {
+  const cached = calibrationCache.get(LATEST_KEY);
+  if (cached) return cached;
+  if (Date.now() < noCalibrationUntil) return null;
+
+  const db = getDb();
+  if (!db) return null;
+
+  try {
+    const version = await latestVersion(db);
+    if (version == null) {
+      noCalibrationUntil = Date.now() + NO_CALIBRATION_TTL_MS;
+      return null;
+    }
+
+    const rows = await db
+      .select()
+      .from(normalizationCalibrations)
+      .where(eq(normalizationCalibrations.version, version));
+    const calibration = rowsToCalibration(rows);
+    if (calibration) calibrationCache.set(LATEST_KEY, calibration);
+    return calibration;
+  } catch (err) {
+    log.warn("calibration_load_failed", { error: (err as Error).message });
+    return null;
+  }
+}
+
+// ─── Recompute (offline job) ──────────────────────────────────────────────────
+
+/**
+ * Rebuild the calibration from every raw value in the `scores` table and
+ * store it as a new version. Returns null when the database is disabled or
+ * no source has enough raw values (nothing is stored then).
+ */
+export async function recomputeCalibration(): Promise<Calibration | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select({ source: scores.source, rawValue: scores.rawValue })
+    .from(scores)
+    .where(isNotNull(scores.rawValue));
+
+  const rawBySource = new Map<SourceName, number[]>();
+  for (const row of rows) {
+    const source = row.source as SourceName;
+    const list = rawBySource.get(source);
+    if (list) list.push(row.rawValue!);
+    else rawBySource.set(source, [row.rawValue!]);
+  }
+
+  const version = ((await latestVersion(db)) ?? 0) + 1;
+  const calibration = buildCalibration(rawBySource, version);
+  const newRows = Object.entries(calibration.sources).map(([source, c]) => ({
+    version,
+    source,
+    quantiles: c.quantiles,
+    sampleSize: c.sampleSize,
+  }));
+  if (newRows.length === 0) {
+    log.warn("calibration_skipped", { reason: "Not enough raw values" });
+    return null;
+  }
+
+  await db.insert(normalizationCalibrations).values(newRows);
+  calibrationCache.set(LATEST_KEY, calibration);
+  noCalibrationUntil = 0;
+
+  log.info("calibration_recomputed", {
+    version,
+    sources: newRows.map((r) => `${r.source}:${r.sampleSize}`),
+  });
+  return calibration;
+}
+
+export function _resetCalibrationCache(): void {
+  calibrationCache = new LRUCache<Calibration>(60 * 60 * 1000, 1);
+  noCalibrationUntil = 0;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CriticReview } from "@/lib/types";
+import { criticReviewToRow, collectCriticReviews } from "./critic-reviews";
+
+vi.mock("./client", () => ({
+  getDb: vi.fn().mockReturnValue(null),
+}));
+
+const fetchedAt = new Date("2025-01-01T00:00:00Z");
+
+describe("criticReviewToRow", () => {
+  it("maps every review field", () => {
+    const review: CriticReview = {
+      reviewId: "2613220",
+      criticName: "Peter Bradshaw",
+      criticSlug: "peter-bradshaw",
+      publication: "Guardian",
+      topCritic: true,
+      sentiment: "fresh",
+      originalScore: "5/5",
+      normalizedScore: 100,
+      reviewUrl: "https://www.theguardian.com/film/parasite-review",
+      publishedAt: "2019-10-08",
+    };
+    expect(criticReviewToRow("tt6751668", review, fetchedAt)).toEqual({
+      imdbId: "tt6751668",
+      ...review,
+      updatedAt: fetchedAt,
+    });
+  });
+});
+
+describe("collectCriticReviews", () => {
+  it("returns null when the database is not configured", async () => {
+    expect(await collectCriticReviews()).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { and, asc, eq, isNotNull, isNull } from "drizzle-orm";
+import { getDb } from "./client";
+import { criticReviews, movies, scores } from "./schema";
+import type { NewCriticReview } from "./schema";
+import type { CriticReview } from "@/lib/types";
+import { fetchRTCriticReviews, rtSlugFromUrl } from "@/lib/rt-reviews";
+import { log } from "@/lib/logger";
+
+// ─── Pure mapping functions ───────────────────────────────────────────────────
+
+export function criticReviewToRow(
+  imdbId: string,
+  review: CriticReview,
+  updatedAt: Date,
+): NewCriticReview {
+  return {
+    imdbId,
+    reviewId: review.reviewId,
+    criticName: review.criticName,
+    criticSlug: review.criticSlug,
+    publication: review.publication,
+    topCritic: review.topCritic,
+    sentiment: review.sentiment,
+    originalScore: review.originalScore,
+    normalizedScore: review.normalizedScore,
+    reviewUrl: review.reviewUrl,
+    publishedAt: review.publishedAt,
+    updatedAt,
+  };
+}
+
+// ─── Batch job (fetches RT, writes Postgres) ─────────────────────────────────
+
+export type CriticReviewsProgress = {
+  processed: number;
+  total: number;
+  reviews: number;
+  failed: number;
+};
+
+export type CriticReviewsOptions = {
+  /** Refetch movies whose reviews were already fetched. */
+  all?: boolean;
+  /** Stop after this many movies. */
+  limit?: number;
+};
+
+/**
+ * Fetch RT top-critic reviews for stored movies with a Rotten Tomatoes score
+ * and replace each movie's stored reviews. Movies are fetched one at a time to
+ * stay polite to RT; a failed movie is logged and skipped, and retried on the
+ * next run. Returns null when the database is not configured.
+ */
+export async function collectCriticReviews(
+  options: CriticReviewsOptions = {},
+): Promise<CriticReviewsProgress | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  // A fetch that found no top critics still sets the timestamp, so those
+  // films aren't asked for again on every run
+  const missingOnly = options.all
+    ? undefined
+    : isNull(movies.criticReviewsFetchedAt);
+  const query = db
+    .select({ imdbId: scores.imdbId, url: scores.url })
+    .from(scores)
+    .innerJoin(movies, eq(movies.imdbId, scores.imdbId))
+    .where(
+      and(
+        eq(scores.source, "rotten_tomatoes"),
+        isNotNull(scores.url),
+        isNull(scores.error),
+        isNotNull(scores.normalized),
+        missingOnly,
+      ),
+    )
+    .orderBy(asc(scores.imdbId));
+  const candidates = await (options.limit != null
+    ? query.limit(options.limit)
+    : query);
+
+  const progress: CriticReviewsProgress = {
+    processed: 0,
+    total: candidates.length,
+    reviews: 0,
+    failed: 0,
+  };
+  log.info("critic_reviews_started", { total: progress.total });
+
+  for (const { imdbId, url } of candidates) {
+    progress.processed++;
+    const slug = rtSlugFromUrl(url!);
+    if (!slug) {
+      progress.failed++;
+      continue;
+    }
+
+    try {
+      const reviews = await fetchRTCriticReviews(slug);
+      const fetchedAt = new Date();
+      const rows = reviews.map((r) => criticReviewToRow(imdbId, r, fetchedAt));
+      await db.transaction(async (tx) => {
+        await tx.delete(criticReviews).where(eq(criticReviews.imdbId, imdbId));
+        if (rows.length > 0) await tx.insert(criticReviews).values(rows);
+        await tx
+          .update(movies)
+          .set({ criticReviewsFetchedAt: fetchedAt })
+          .where(eq(movies.imdbId, imdbId));
+      });
+      progress.reviews += rows.length;
+    } catch (err) {
+      progress.failed++;
+      log.warn("critic_reviews_fetch_failed", {
+        imdbId,
+        slug,
+        error: (err as Error).message,
+      });
+    }
+
+    if (progress.processed % 25 === 0) {
+      log.info("critic_reviews_progress", { ...progress });
+    }
+  }
+
+  log.info("critic_reviews_finished", { ...progress });
+  return progress;
+}
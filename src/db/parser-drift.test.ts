@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildDriftReport,
+  getParserDriftReport,
+  pageChecksToRows,
+  parseReportDays,
+  recordPageChecks,
+} from "./parser-drift";
+import { getDb } from "./client";
+
+vi.mock("./client", () => ({
+  getDb: vi.fn(),
+}));
+
+describe("pageChecksToRows", () => {
+  it("sums a request's checks per source", () => {
+    const rows = pageChecksToRows(
+      [
+        { source: "metacritic", drifted: true },
+        { source: "metacritic", drifted: false },
+        { source: "allocine", drifted: false },
+      ],
+      "2026-10-19",
+    );
+
+    expect(rows).toEqual([
+      { day: "2026-10-19", source: "metacritic", pages: 2, drifted: 1 },
+      { day: "2026-10-19", source: "allocine", pages: 1, drifted: 0 },
+    ]);
+  });
+});
+
+describe("buildDriftReport", () => {
+  it("groups days by source, worst drift rate first", () => {
+    const report = buildDriftReport(
+      [
+        { day: "2026-10-18", source: "allocine", pages: 10, drifted: 0 },
+        { day: "2026-10-19", source: "metacritic", pages: 20, drifted: 15 },
+        { day: "2026-10-18", source: "metacritic", pages: 20, drifted: 0 },
+      ],
+      "2026-10-13",
+    );
+
+    expect(report.since).toBe("2026-10-13");
+    expect(report.sources.map((s) => s.source)).toEqual([
+      "metacritic",
+      "allocine",
+    ]);
+    expect(report.sources[0]).toEqual({
+      source: "metacritic",
+      pages: 40,
+      drifted: 15,
+      driftRate: 0.375,
+      days: [
+        { day: "2026-10-18", pages: 20, drifted: 0, driftRate: 0 },
+        { day: "2026-10-19", pages: 20, drifted: 15, driftRate: 0.75 },
+      ],
+    });
+  });
+});
+
+describe("parseReportDays", () => {
+  it("defaults to 30 days and rejects bad windows", () => {
+    expect(parseReportDays(null)).toEqual({ days: 30 });
+    expect(parseReportDays("7")).toEqual({ days: 7 });
+    expect(parseReportDays("0")).toHaveProperty("error");
+    expect(parseReportDays("1.5")).toHaveProperty("error");
+    expect(parseReportDays("366")).toHaveProperty("error");
+  });
+});
+
+describe("recordPageChecks", () => {
+  it("adds to today's counts", async () => {
+    const onConflictDoUpdate = vi.fn().mockResolvedValue(undefined);
+    const values = vi.fn(() => ({ onConflictDoUpdate }));
+    const db = { insert: vi.fn(() => ({ values })) };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    await recordPageChecks([{ source: "letterboxd", drifted: false }]);
+
+    expect(values).toHaveBeenCalledWith([
+      expect.objectContaining({ source: "letterboxd", pages: 1, drifted: 0 }),
+    ]);
+    expect(onConflictDoUpdate).toHaveBeenCalled();
+  });
+
+  it("never throws", async () => {
+    const values = vi.fn(() => ({
+      onConflictDoUpdate: vi.fn().mockRejectedValue(new Error("db down")),
+    }));
+    const db = { insert: vi.fn(() => ({ values })) };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    await expect(
+      recordPageChecks([{ source: "mubi", drifted: true }]),
+    ).resolves.toBeUndefined();
+  });
+
+  it("skips the DB when no page was checked", async () => {
+    const db = { insert: vi.fn() };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    await recordPageChecks([]);
+
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("getParserDriftReport", () => {
+  it("returns null when the DB is not configured", async () => {
+    vi.mocked(getDb).mockReturnValue(null);
+
+    expect(await getParserDriftReport(30)).toBeNull();
+  });
+});
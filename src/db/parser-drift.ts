@@ -0,0 +1,138 @@
+import { asc, gte, sql } from "drizzle-orm";
+import { getDb } from "./client";
+import { parserChecks } from "./schema";
+import type { NewParserCheck, ParserCheckRow } from "./schema";
+import type { PageCheck } from "@/lib/parser-drift";
+import { log } from "@/lib/logger";
+
+/**
+ * Parser drift report: how often each scraped source served a page with none
+ * of the markup its parsers anchor on, per day. Counts are written after each
+ * fresh fetch from the structure checks the adapters made.
+ */
+
+export const DEFAULT_REPORT_DAYS = 30;
+export const MAX_REPORT_DAYS = 365;
+
+export type DriftDay = {
+  day: string; // YYYY-MM-DD (UTC)
+  pages: number;
+  drifted: number;
+  driftRate: number;
+};
+
+export type SourceDrift = Omit<DriftDay, "day"> & {
+  source: string;
+  days: DriftDay[]; // oldest first; days without checks are omitted
+};
+
+export type ParserDriftReport = {
+  since: string;
+  sources: SourceDrift[];
+};
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** One row per source for `day`, summing a request's checks. */
+export function pageChecksToRows(
+  checks: PageCheck[],
+  day: string,
+): NewParserCheck[] {
+  const bySource = new Map<string, { pages: number; drifted: number }>();
+  for (const { source, drifted } of checks) {
+    const counts = bySource.get(source) ?? { pages: 0, drifted: 0 };
+    counts.pages += 1;
+    if (drifted) counts.drifted += 1;
+    bySource.set(source, counts);
+  }
+  return [...bySource].map(([source, counts]) => ({ day, source, ...counts }));
+}
+
+const rate = (drifted: number, pages: number) =>
+  pages > 0 ? Math.round((drifted / pages) * 1000) / 1000 : 0;
+
+/** Group stored rows by source, worst drift rate first. */
+export function buildDriftReport(
+  rows: ParserCheckRow[],
+  since: string,
+): ParserDriftReport {
+  const bySource = new Map<string, DriftDay[]>();
+  for (const row of rows) {
+    const days = bySource.get(row.source) ?? [];
+    days.push({
+      day: row.day,
+      pages: row.pages,
+      drifted: row.drifted,
+      driftRate: rate(row.drifted, row.pages),
+    });
+    bySource.set(row.source, days);
+  }
+
+  const sources = [...bySource].map(([source, days]): SourceDrift => {
+    days.sort((a, b) => a.day.localeCompare(b.day));
+    const pages = days.reduce((n, d) => n + d.pages, 0);
+    const drifted = days.reduce((n, d) => n + d.drifted, 0);
+    return { source, pages, drifted, driftRate: rate(drifted, pages), days };
+  });
+  sources.sort(
+    (a, b) => b.driftRate - a.driftRate || a.source.localeCompare(b.source),
+  );
+  return { since, sources };
+}
+
+/** Validate the `?days=` window; defaults to DEFAULT_REPORT_DAYS. */
+export function parseReportDays(
+  value: string | null,
+): { days: number } | { error: string } {
+  if (value == null || value === "") return { days: DEFAULT_REPORT_DAYS };
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    return { error: `days must be an integer from 1 to ${MAX_REPORT_DAYS}` };
+  }
+  return { days };
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+/** Add a request's page checks to today's counts. Never throws. */
+export async function recordPageChecks(checks: PageCheck[]): Promise<void> {
+  const db = getDb();
+  if (!db || checks.length === 0) return;
+
+  try {
+    await db
+      .insert(parserChecks)
+      .values(pageChecksToRows(checks, utcDay(new Date())))
+      .onConflictDoUpdate({
+        target: [parserChecks.day, parserChecks.source],
+        set: {
+          pages: sql`${parserChecks.pages} + excluded.pages`,
+          drifted: sql`${parserChecks.drifted} + excluded.drifted`,
+        },
+      });
+  } catch (err) {
+    log.warn("parser_checks_save_failed", {
+      error: (err as Error).message,
+    });
+  }
+}
+
+/** Drift per source over the last `days` days. Null when the DB is not configured. */
+export async function getParserDriftReport(
+  days: number,
+): Promise<ParserDriftReport | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const since = utcDay(new Date(Date.now() - (days - 1) * 86_400_000));
+  const rows = await db
+    .select()
+    .from(parserChecks)
+    .where(gte(parserChecks.day, since))
+    .orderBy(asc(parserChecks.source), asc(parserChecks.day));
+  return buildDriftReport(rows, since);
+}
@@ -4,6 +4,7 @@ import {
   parseYear,
   payloadToMovieRow,
   sourceToScoreRow,
+  sourceToDistributionRow,
   CURRENT_SCORE_VERSION,
   persistScores,
 } from "./persist";
@@ -116,6 +117,21 @@ describe("payloadToMovieRow", () => {
     expect(row.sourcesCount).toBe(9);
   });
 
+  it("does not count optional MUBI toward sourcesCount", () => {
+    const base = makePayload();
+    const row = payloadToMovieRow(
+      makePayload({
+        sources: [
+          ...base.sources,
+          { source: "mubi", label: "MUBI", normalized: 84 },
+        ],
+      }),
+      testDate,
+    );
+    expect(row.sourcesCount).toBe(9);
+    expect(row.isComplete).toBe(true);
+  });
+
   it("sets isComplete to false when some sources are missing", () => {
     const row = payloadToMovieRow(
       makePayload({
@@ -135,6 +151,80 @@ describe("payloadToMovieRow", () => {
     expect(row.overallScore).toBeNull();
     expect(row.coverage).toBeNull();
     expect(row.disagreement).toBeNull();
+    expect(row.scoreLow).toBeNull();
+    expect(row.scoreHigh).toBeNull();
+    expect(row.criticAudienceGap).toBeNull();
+  });
+
+  it("stores the uncertainty band next to overall_score", () => {
+    const row = payloadToMovieRow(
+      makePayload({
+        overall: {
+          score: 83.5,
+          scoreLow: 81.2,
+          scoreHigh: 85.8,
+          coverage: 1.0,
+          disagreement: 5.2,
+        },
+      }),
+      testDate,
+    );
+    expect(row.scoreLow).toBe(81.2);
+    expect(row.scoreHigh).toBe(85.8);
+  });
+
+  it("sums rating counts of scored sources into votes_count", () => {
+    const row = payloadToMovieRow(
+      makePayload({
+        sources: [
+          { source: "imdb", label: "IMDb", normalized: 85, count: 100000 },
+          { source: "letterboxd", label: "LB", normalized: 80, count: 20000 },
+          { source: "douban", label: "Douban", normalized: null, count: 500 },
+          { source: "metacritic", label: "MC", normalized: 78 },
+        ],
+      }),
+      testDate,
+    );
+    expect(row.votesCount).toBe(120000);
+  });
+
+  it("stores IMDb + Letterboxd votes only when both counts are known", () => {
+    const withBoth = payloadToMovieRow(
+      makePayload({
+        sources: [
+          { source: "imdb", label: "IMDb", normalized: 85, count: 30000 },
+          { source: "letterboxd", label: "LB", normalized: 80, count: 9000 },
+        ],
+      }),
+      testDate,
+    );
+    expect(withBoth.imdbLetterboxdVotes).toBe(39000);
+
+    const imdbOnly = payloadToMovieRow(
+      makePayload({
+        sources: [
+          { source: "imdb", label: "IMDb", normalized: 85, count: 30000 },
+          { source: "letterboxd", label: "LB", normalized: 80 },
+        ],
+      }),
+      testDate,
+    );
+    expect(imdbOnly.imdbLetterboxdVotes).toBeNull();
+  });
+
+  it("stores the signed critic-audience gap", () => {
+    const row = payloadToMovieRow(
+      makePayload({
+        overall: {
+          score: 83.5,
+          coverage: 1.0,
+          disagreement: 5.2,
+          criticAudienceGap: -12.4,
+        },
+      }),
+      testDate,
+    );
+    expect(row.criticAudienceGap).toBe(-12.4);
   });
 
   it("populates score_version from CURRENT_SCORE_VERSION", () => {
@@ -194,16 +284,61 @@ describe("sourceToScoreRow", () => {
     expect(row.fromFallback).toBe(false);
   });
 
-  it("stores error string for failed sources", () => {
+  it("stores the error code for failed sources", () => {
     const source: SourceScore = {
       source: "douban",
       label: "Douban",
       normalized: null,
-      error: "Fetch failed: 403",
+      error: "Request failed: 403 Forbidden",
+      errorCode: "blocked",
     };
     const row = sourceToScoreRow("tt1", source, testDate);
     expect(row.normalized).toBeNull();
-    expect(row.error).toBe("Fetch failed: 403");
+    expect(row.error).toBe("blocked");
+  });
+
+  it("derives a code for errors that carry only a message", () => {
+    const source: SourceScore = {
+      source: "allocine_press",
+      label: "AlloCiné Press",
+      normalized: null,
+      error: "No AlloCiné ID",
+    };
+    expect(sourceToScoreRow("tt1", source, testDate).error).toBe("no_id");
+  });
+});
+
+// ─── sourceToDistributionRow ───────────────────────────────────────────────────
+
+describe("sourceToDistributionRow", () => {
+  it("stores the histogram as parallel rating/count arrays", () => {
+    const source: SourceScore = {
+      source: "letterboxd",
+      label: "Letterboxd",
+      normalized: 80,
+      distribution: [
+        { rating: 0.5, count: 3 },
+        { rating: 1, count: 0 },
+        { rating: 1.5, count: 12 },
+      ],
+    };
+    const row = sourceToDistributionRow("tt1", source, testDate);
+    expect(row).toEqual({
+      imdbId: "tt1",
+      source: "letterboxd",
+      ratings: [0.5, 1, 1.5],
+      counts: [3, 0, 12],
+      updatedAt: testDate,
+    });
+  });
+
+  it("returns null for sources without a histogram", () => {
+    const source: SourceScore = {
+      source: "douban",
+      label: "Douban",
+      normalized: 88,
+    };
+    expect(sourceToDistributionRow("tt1", source, testDate)).toBeNull();
   });
 });
 
@@ -350,6 +485,50 @@ describe("persistScores", () => {
     ).toBe(true);
   });
 
+  it("upserts rating distributions after the scores", async () => {
+    const mockOnConflictDoUpdate = vi.fn().mockResolvedValue(undefined);
+    const mockInsertValues = vi.fn().mockReturnValue({
+      onConflictDoUpdate: mockOnConflictDoUpdate,
+    });
+    const mockInsert = vi.fn().mockReturnValue({ values: mockInsertValues });
+    const mockDeleteWhere = vi.fn().mockResolvedValue(undefined);
+    const mockDelete = vi.fn().mockReturnValue({ where: mockDeleteWhere });
+    const mockTx = { insert: mockInsert, delete: mockDelete };
+    const mockTransaction = vi
+      .fn()
+      .mockImplementation(async (fn: (tx: typeof mockTx) => Promise<void>) => {
+        await fn(mockTx);
+      });
+    const mockDb = { transaction: mockTransaction };
+
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue(mockDb as never);
+
+    const payload = makePayload();
+    payload.sources[0] = {
+      ...payload.sources[0],
+      distribution: [
+        { rating: 1, count: 10 },
+        { rating: 2, count: 20 },
+      ],
+    };
+    await persistScores(payload);
+
+    // movie upsert + score insert + distribution upsert
+    expect(mockInsert).toHaveBeenCalledTimes(3);
+    expect(mockInsertValues.mock.calls[2]?.[0]).toEqual([
+      expect.objectContaining({
+        imdbId: "tt1234567",
+        source: "imdb",
+        ratings: [1, 2],
+        counts: [10, 20],
+      }),
+    ]);
+    expect(mockOnConflictDoUpdate).toHaveBeenCalledTimes(2);
+    // Only scores are deleted — distributions keep their last known value
+    expect(mockDelete).toHaveBeenCalledOnce();
+  });
+
   it("does not throw when transaction fails (never-throw semantics)", async () => {
     const mockTransaction = vi
       .fn()
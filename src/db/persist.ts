@@ -1,13 +1,19 @@
-import { eq } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 import { getDb } from "./client";
-import { movies, scores } from "./schema";
-import type { NewMovie, NewScore } from "./schema";
-import type { ScorePayload, SourceScore } from "@/lib/types";
-import { WEIGHTED_SOURCE_KEYS } from "@/lib/scoring";
+import { movies, ratingDistributions, scores } from "./schema";
+import type { NewMovie, NewRatingDistribution, NewScore } from "./schema";
+import type { OverallScore, ScorePayload, SourceScore } from "@/lib/types";
+import { EXPECTED_SOURCE_KEYS } from "@/lib/scoring";
+import { classifyErrorMessage } from "@/lib/source-errors";
 import { log } from "@/lib/logger";
 
 /** Bump when weights or scoring algorithm change — enables re-derivation queries. */
-export const CURRENT_SCORE_VERSION = 2;
+// 3: score band, critic-audience gap and vote-count columns
+// 4: MUBI in the cinephile tier
+// 5: Kinopoisk in the mainstream tier
+// 6: FilmAffinity in the mainstream tier
+// 7: Metacritic user score in the mainstream tier
+export const CURRENT_SCORE_VERSION = 7;
 const BACKFILL_STALE_TIMESTAMP_MS = 0;
 
 // ─── Pure mapping functions ───────────────────────────────────────────────────
@@ -24,16 +30,65 @@ export function parseYear(year: string | undefined): number | null {
   return n;
 }
 
+/**
+ * Movie columns derived from the source scores — shared by the fetch path and
+ * the offline re-scoring job so both write identical score columns.
+ */
+export function scoreColumns(
+  sources: SourceScore[],
+  overall: OverallScore | null,
+): Pick<
+  NewMovie,
+  | "overallScore"
+  | "scoreLow"
+  | "scoreHigh"
+  | "coverage"
+  | "disagreement"
+  | "criticAudienceGap"
+  | "sourcesCount"
+  | "votesCount"
+  | "imdbLetterboxdVotes"
+  | "isComplete"
+  | "scoreVersion"
+> {
+  // Optional sources (MUBI) never count toward sourcesCount / completeness
+  const expectedSources = sources.filter(
+    (s) => EXPECTED_SOURCE_KEYS.has(s.source) && s.normalized != null,
+  );
+  const countOf = (name: SourceScore["source"]) =>
+    sources.find((s) => s.source === name && s.normalized != null)?.count ??
+    null;
+  const imdbCount = countOf("imdb");
+  const letterboxdCount = countOf("letterboxd");
+
+  return {
+    overallScore: overall?.score ?? null,
+    scoreLow: overall?.scoreLow ?? null,
+    scoreHigh: overall?.scoreHigh ?? null,
+    coverage: overall?.coverage ?? null,
+    disagreement: overall?.disagreement ?? null,
+    criticAudienceGap: overall?.criticAudienceGap ?? null,
+    sourcesCount: expectedSources.length,
+    votesCount: sources.reduce(
+      (sum, s) =>
+        s.normalized != null && s.count != null ? sum + s.count : sum,
+      0,
+    ),
+    imdbLetterboxdVotes:
+      imdbCount != null && letterboxdCount != null
+        ? imdbCount + letterboxdCount
+        : null,
+    isComplete: expectedSources.length === EXPECTED_SOURCE_KEYS.size,
+    scoreVersion: CURRENT_SCORE_VERSION,
+  };
+}
+
 export function payloadToMovieRow(
   payload: ScorePayload,
   lastFetchedAt: Date,
 ): NewMovie {
   const { movie, sources, overall } = payload;
 
-  const weightedSources = sources.filter(
-    (s) => WEIGHTED_SOURCE_KEYS.has(s.source) && s.normalized != null,
-  );
-
   return {
     imdbId: movie.imdbId,
     tmdbId: movie.tmdbId ?? null,
@@ -50,12 +105,7 @@ export function payloadToMovieRow(
     cinematographer: movie.cinematographer ?? null,
     composer: movie.composer ?? null,
     castMembers: movie.cast ?? null,
-    overallScore: overall?.score ?? null,
-    coverage: overall?.coverage ?? null,
-    disagreement: overall?.disagreement ?? null,
-    sourcesCount: weightedSources.length,
-    isComplete: weightedSources.length === WEIGHTED_SOURCE_KEYS.size,
-    scoreVersion: CURRENT_SCORE_VERSION,
+    ...scoreColumns(sources, overall),
     lastFetchedAt,
   };
 }
@@ -74,12 +124,32 @@ export function sourceToScoreRow(
     rawScale: source.raw?.scale ?? null,
     count: source.count ?? null,
     url: source.url ?? null,
-    error: source.error ?? null,
+    // The code only: messages are for display, codes are for querying
+    error:
+      source.error != null
+        ? (source.errorCode ?? classifyErrorMessage(source.error))
+        : null,
     fromFallback: source.fromFallback ?? false,
     updatedAt,
   };
 }
 
+/** Null when the source carried no histogram. */
+export function sourceToDistributionRow(
+  imdbId: string,
+  source: SourceScore,
+  updatedAt: Date,
+): NewRatingDistribution | null {
+  if (!source.distribution?.length) return null;
+  return {
+    imdbId,
+    source: source.source,
+    ratings: source.distribution.map((b) => b.rating),
+    counts: source.distribution.map((b) => b.count),
+    updatedAt,
+  };
+}
+
 // ─── Persist (transactional upsert, never throws) ────────────────────────────
 
 export type PersistOptions = {
@@ -103,6 +173,9 @@ export async function persistScores(
   const scoreRows = payload.sources.map((s) =>
     sourceToScoreRow(payload.movie.imdbId, s, persistedAt),
   );
+  const distributionRows = payload.sources
+    .map((s) => sourceToDistributionRow(payload.movie.imdbId, s, persistedAt))
+    .filter((row): row is NewRatingDistribution => row != null);
 
   try {
     await db.transaction(async (tx) => {
@@ -113,6 +186,12 @@ export async function persistScores(
         if (scoreRows.length > 0) {
           await tx.insert(scores).values(scoreRows).onConflictDoNothing();
         }
+        if (distributionRows.length > 0) {
+          await tx
+            .insert(ratingDistributions)
+            .values(distributionRows)
+            .onConflictDoNothing();
+        }
       } else {
         // Fresh fetch: authoritative upsert with real lastFetchedAt
         await tx
@@ -136,9 +215,14 @@ export async function persistScores(
               composer: movieRow.composer,
               castMembers: movieRow.castMembers,
               overallScore: movieRow.overallScore,
+              scoreLow: movieRow.scoreLow,
+              scoreHigh: movieRow.scoreHigh,
               coverage: movieRow.coverage,
               disagreement: movieRow.disagreement,
+              criticAudienceGap: movieRow.criticAudienceGap,
               sourcesCount: movieRow.sourcesCount,
+              votesCount: movieRow.votesCount,
+              imdbLetterboxdVotes: movieRow.imdbLetterboxdVotes,
               isComplete: movieRow.isComplete,
               scoreVersion: movieRow.scoreVersion,
               lastFetchedAt: movieRow.lastFetchedAt,
@@ -152,6 +236,22 @@ export async function persistScores(
         if (scoreRows.length > 0) {
           await tx.insert(scores).values(scoreRows);
         }
+
+        // Histograms are upserted, not replaced: a failed histogram fetch
+        // keeps the last known distribution rather than erasing it
+        if (distributionRows.length > 0) {
+          await tx
+            .insert(ratingDistributions)
+            .values(distributionRows)
+            .onConflictDoUpdate({
+              target: [ratingDistributions.imdbId, ratingDistributions.source],
+              set: {
+                ratings: sql`excluded.ratings`,
+                counts: sql`excluded.counts`,
+                updatedAt: sql`excluded.updated_at`,
+              },
+            });
+        }
       }
     });
 
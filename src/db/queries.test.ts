@@ -8,8 +8,10 @@ vi.mock("./persist", () => ({
   CURRENT_SCORE_VERSION: 2,
 }));
 
+import { PgDialect } from "drizzle-orm/pg-core";
 import { getTopMovies } from "./queries";
 import { getDb } from "./client";
+import { GEMS_MAX_VOTES } from "./schema";
 
 describe("getTopMovies", () => {
   beforeEach(() => {
@@ -100,4 +102,60 @@ describe("getTopMovies", () => {
     expect(mockOrderBy).toHaveBeenCalled();
     expect(mockLimit).toHaveBeenCalledWith(10);
   });
+
+  it.each(["darlings", "crowd"] as const)(
+    "orders by critic-audience gap for the %s sort",
+    async (sort) => {
+      const mockLimit = vi.fn().mockResolvedValue([]);
+      const mockOrderBy = vi.fn().mockReturnValue({ limit: mockLimit });
+      const mockWhere = vi.fn().mockReturnValue({ orderBy: mockOrderBy });
+      const mockFrom = vi.fn().mockReturnValue({ where: mockWhere });
+      const mockSelect = vi.fn().mockReturnValue({ from: mockFrom });
+
+      vi.mocked(getDb).mockReturnValue({ select: mockSelect } as never);
+
+      await getTopMovies({ sort });
+
+      expect(mockSelect.mock.calls[0][0]).toHaveProperty("criticAudienceGap");
+      expect(mockOrderBy).toHaveBeenCalled();
+      expect(mockLimit).toHaveBeenCalledWith(10);
+    },
+  );
+
+  it("orders by weighted rating and keys the cache by minVotes", async () => {
+    const mockLimit = vi.fn().mockResolvedValue([]);
+    const mockOrderBy = vi.fn().mockReturnValue({ limit: mockLimit });
+    const mockWhere = vi.fn().mockReturnValue({ orderBy: mockOrderBy });
+    const mockFrom = vi.fn().mockReturnValue({ where: mockWhere });
+    const mockSelect = vi.fn().mockReturnValue({ from: mockFrom });
+
+    vi.mocked(getDb).mockReturnValue({ select: mockSelect } as never);
+
+    await getTopMovies({ sort: "weighted", minVotes: 5000 });
+    // Same options are served from L1; a different minVotes hits the DB again
+    await getTopMovies({ sort: "weighted", minVotes: 5000 });
+    await getTopMovies({ sort: "weighted", minVotes: 50000 });
+
+    expect(mockSelect.mock.calls[0][0]).toHaveProperty("votesCount");
+    expect(mockSelect).toHaveBeenCalledTimes(2);
+  });
+
+  it("filters gems by the IMDb + Letterboxd vote ceiling", async () => {
+    const mockLimit = vi.fn().mockResolvedValue([]);
+    const mockOrderBy = vi.fn().mockReturnValue({ limit: mockLimit });
+    const mockWhere = vi.fn().mockReturnValue({ orderBy: mockOrderBy });
+    const mockFrom = vi.fn().mockReturnValue({ where: mockWhere });
+    const mockSelect = vi.fn().mockReturnValue({ from: mockFrom });
+
+    vi.mocked(getDb).mockReturnValue({ select: mockSelect } as never);
+
+    await getTopMovies({ sort: "gems", limit: 25 });
+
+    const dialect = new PgDialect();
+    const where = dialect.sqlToQuery(mockWhere.mock.calls[0][0]);
+    expect(where.sql).toContain(
+      `"movies"."imdb_letterboxd_votes" < ${GEMS_MAX_VOTES}`,
+    );
+    expect(mockLimit).toHaveBeenCalledWith(25);
+  });
 });
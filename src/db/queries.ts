@@ -1,6 +1,7 @@
-import { desc, and, gte, isNotNull, eq, sql } from "drizzle-orm";
+import { asc, desc, and, gt, gte, lt, isNotNull, eq, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
 import { getDb } from "./client";
-import { movies } from "./schema";
+import { movies, GEMS_MAX_VOTES } from "./schema";
 import { CURRENT_SCORE_VERSION } from "./persist";
 import { LRUCache } from "@/lib/cache";
 import { log } from "@/lib/logger";
@@ -9,7 +10,15 @@ import { kvTopGet, kvTopSet } from "./queries-kv";
 // L1: In-memory LRU — 5 min TTL, up to 20 filter combos
 const topMoviesCache = new LRUCache<readonly TopMovie[]>(5 * 60 * 1000, 20);
 
-export type TopSort = "top" | "divisive";
+// "darlings": critics well above audiences; "crowd": the reverse
+// "weighted": IMDb-style weighted rating — score shrunk toward the catalogue
+// mean by vote volume, so thinly-rated films can't outrank canonical ones
+// "gems": highest rated among films with few IMDb + Letterboxd ratings
+export type TopSort =
+  "top" | "divisive" | "darlings" | "crowd" | "weighted" | "gems";
+
+/** Default `m` in the weighted rating: votes needed for half credit. */
+export const DEFAULT_MIN_VOTES = 25_000;
 
 export type TopMovie = {
   readonly imdbId: string;
@@ -19,9 +28,13 @@ export type TopMovie = {
   readonly poster: string | null;
   readonly director: string | null;
   readonly overallScore: number;
+  readonly scoreLow: number | null;
+  readonly scoreHigh: number | null;
   readonly disagreement: number | null;
+  readonly criticAudienceGap: number | null;
   readonly coverage: number;
   readonly sourcesCount: number;
+  readonly votesCount: number | null;
 };
 
 export type TopMoviesOptions = {
@@ -29,6 +42,8 @@ export type TopMoviesOptions = {
   readonly minSources?: number;
   readonly sort?: TopSort;
   readonly genre?: string;
+  /** Weighted sort only: votes at which a film's own score gets half weight. */
+  readonly minVotes?: number;
 };
 
 function cacheKey(
@@ -36,18 +51,26 @@ function cacheKey(
   limit: number,
   minSources: number | undefined,
   genre: string | undefined,
+  minVotes: number,
 ): string {
-  return `v${CURRENT_SCORE_VERSION}:${sort}:${limit}:${minSources ?? ""}:${genre ?? ""}`;
+  const base = `v${CURRENT_SCORE_VERSION}:${sort}:${limit}:${minSources ?? ""}:${genre ?? ""}`;
+  return sort === "weighted" ? `${base}:${minVotes}` : base;
 }
 
 export async function getTopMovies(
   options: TopMoviesOptions = {},
 ): Promise<readonly TopMovie[]> {
-  const { limit = 10, minSources, sort = "top", genre } = options;
+  const {
+    limit = 10,
+    minSources,
+    sort = "top",
+    genre,
+    minVotes = DEFAULT_MIN_VOTES,
+  } = options;
   const db = getDb();
   if (!db) return [];
 
-  const key = cacheKey(sort, limit, minSources, genre);
+  const key = cacheKey(sort, limit, minSources, genre, minVotes);
 
   // L1: In-memory
   const l1 = topMoviesCache.get(key);
@@ -84,12 +107,44 @@ export async function getTopMovies(
     conditions.push(gte(movies.overallScore, 50));
   }
 
+  // Gap sorts share the divisive quality floor so a panned film that
+  // audiences merely tolerated doesn't top "Crowd Pleasers"
+  if (sort === "darlings" || sort === "crowd") {
+    conditions.push(
+      sort === "darlings"
+        ? gt(movies.criticAudienceGap, 0)
+        : lt(movies.criticAudienceGap, 0),
+    );
+    conditions.push(gte(movies.overallScore, 50));
+  }
+
+  if (sort === "gems") {
+    // Literal (not a bound param) so the planner can match idx_movies_gems
+    conditions.push(
+      sql`${movies.imdbLetterboxdVotes} < ${sql.raw(String(GEMS_MAX_VOTES))}`,
+    );
+  }
+
   // Quality-weighted disagreement: penalise films below the 70-point prior
   // so mediocre films with noisy scores don't dominate genuinely polarising ones.
   const weightedDisagreement = desc(
     sql`${movies.disagreement} * least(${movies.overallScore} / 70.0, 1.0)`,
   );
 
+  // WR = v/(v+m)·R + m/(v+m)·C, with C the mean score of the filtered set
+  const votes = sql`coalesce(${movies.votesCount}, 0)::float8`;
+  const weightedRating = desc(
+    sql`(${votes} / (${votes} + ${minVotes})) * ${movies.overallScore}
+      + (${minVotes}::float8 / (${votes} + ${minVotes})) * avg(${movies.overallScore}) over ()`,
+  );
+
+  const orderForSort: Partial<Record<TopSort, SQL>> = {
+    divisive: weightedDisagreement,
+    weighted: weightedRating,
+    darlings: desc(movies.criticAudienceGap),
+    crowd: asc(movies.criticAudienceGap),
+  };
+
   const rows = await db
     .select({
       imdbId: movies.imdbId,
@@ -99,15 +154,17 @@ export async function getTopMovies(
       poster: movies.poster,
       director: movies.director,
       overallScore: movies.overallScore,
+      scoreLow: movies.scoreLow,
+      scoreHigh: movies.scoreHigh,
       disagreement: movies.disagreement,
+      criticAudienceGap: movies.criticAudienceGap,
       coverage: movies.coverage,
       sourcesCount: movies.sourcesCount,
+      votesCount: movies.votesCount,
     })
     .from(movies)
     .where(and(...conditions))
-    .orderBy(
-      sort === "divisive" ? weightedDisagreement : desc(movies.overallScore),
-    )
+    .orderBy(orderForSort[sort] ?? desc(movies.overallScore))
     .limit(limit);
 
   // Cast is safe: the WHERE clause guarantees overallScore and coverage are non-null
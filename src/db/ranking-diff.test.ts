@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SourceScore } from "@/lib/types";
+import { SCORING_PROFILES, MIN_SOURCES_FOR_VERDICT } from "@/lib/scoring";
+import {
+  buildRankingDiff,
+  kendallTau,
+  parseMoverLimit,
+  parseRankingConfig,
+  spearman,
+  CURRENT_RANKING_CONFIG,
+} from "./ranking-diff";
+import type { RankingConfig, StoredMovieSources } from "./ranking-diff";
+
+vi.mock("./client", () => ({
+  getDb: vi.fn(),
+}));
+
+// ─── Rank correlation ─────────────────────────────────────────────────────────
+
+describe("kendallTau", () => {
+  it("is 1 for identical orderings and -1 for reversed", () => {
+    expect(kendallTau([1, 2, 3, 4], [10, 20, 30, 40])).toBe(1);
+    expect(kendallTau([1, 2, 3, 4], [40, 30, 20, 10])).toBe(-1);
+  });
+
+  it("counts one swapped pair out of three", () => {
+    // pairs: (1,2) discordant, (1,3) concordant, (2,3) concordant → 1/3
+    expect(kendallTau([1, 2, 3], [2, 1, 3])).toBeCloseTo(1 / 3);
+  });
+
+  it("applies the tau-b tie correction", () => {
+    // C=2, D=0, one tie in x → 2 / sqrt(2 * 3)
+    expect(kendallTau([1, 1, 2], [1, 2, 3])).toBeCloseTo(2 / Math.sqrt(6));
+  });
+
+  it("returns null for fewer than two points", () => {
+    expect(kendallTau([1], [1])).toBeNull();
+  });
+});
+
+describe("spearman", () => {
+  it("is 1 for monotonic but non-linear data", () => {
+    expect(spearman([1, 2, 3, 4], [1, 4, 9, 16])).toBeCloseTo(1);
+  });
+
+  it("matches the textbook formula without ties", () => {
+    // d = [1, -1, 0] → 1 - 6*2 / (3*8) = 0.5
+    expect(spearman([1, 2, 3], [2, 1, 3])).toBeCloseTo(0.5);
+  });
+
+  it("returns null when one side is constant", () => {
+    expect(spearman([1, 2, 3], [5, 5, 5])).toBeNull();
+  });
+});
+
+// ─── parseRankingConfig ───────────────────────────────────────────────────────
+
+describe("parseRankingConfig", () => {
+  it("uses a named profile as the candidate", () => {
+    const parsed = parseRankingConfig({ profile: "crowd" });
+    expect(parsed).toEqual({
+      config: {
+        label: "crowd",
+        profile: SCORING_PROFILES.crowd,
+        minSourcesForVerdict: MIN_SOURCES_FOR_VERDICT,
+      },
+    });
+  });
+
+  it("merges tier weights over the base profile without mutating it", () => {
+    const parsed = parseRankingConfig({ tierWeights: { critic: 0.6 } });
+    if ("error" in parsed) throw new Error(parsed.error);
+    expect(parsed.config.profile.tierWeights).toEqual({
+      critic: 0.6,
+      cinephile: 0.3,
+      mainstream: 0.2,
+    });
+    expect(parsed.config.label).toBe("balanced + tierWeights");
+    expect(SCORING_PROFILES.balanced.tierWeights.critic).toBe(0.5);
+  });
+
+  it("accepts a verdict gate override", () => {
+    const parsed = parseRankingConfig({ minSourcesForVerdict: 4 });
+    if ("error" in parsed) throw new Error(parsed.error);
+    expect(parsed.config.minSourcesForVerdict).toBe(4);
+  });
+
+  it.each([
+    [null, "Candidate config must be an object"],
+    [{ profile: "nope" }, "Unknown scoring profile: nope"],
+    [{ tierWeights: { arthouse: 0.1 } }, "Unknown tier: arthouse"],
+    [{ tierWeights: { critic: -1 } }, "Invalid weight for tier critic"],
+    [
+      { mainstreamWeights: { netflix: 1 } },
+      "Unknown source in mainstreamWeights: netflix",
+    ],
+    [
+      { minSourcesForVerdict: 0 },
+      "minSourcesForVerdict must be an integer between 1 and 9",
+    ],
+  ])("rejects %j", (input, error) => {
+    expect(parseRankingConfig(input)).toEqual({ error });
+  });
+});
+
+describe("parseMoverLimit", () => {
+  it("defaults when the flag is absent or blank", () => {
+    expect(parseMoverLimit(undefined)).toEqual({ movers: 10 });
+    expect(parseMoverLimit("")).toEqual({ movers: 10 });
+  });
+
+  it("accepts a positive integer", () => {
+    expect(parseMoverLimit("25")).toEqual({ movers: 25 });
+  });
+
+  it.each(["0", "-3", "2.5", "ten"])("rejects %j", (value) => {
+    expect(parseMoverLimit(value)).toEqual({
+      error: `movers must be a positive integer, got "${value}"`,
+    });
+  });
+});
+
+// ─── buildRankingDiff ─────────────────────────────────────────────────────────
+
+const src = (
+  source: SourceScore["source"],
+  normalized: number,
+): SourceScore => ({ source, label: source, normalized });
+
+// Five sources split between critic and audience scores
+const makeMovie = (
+  imdbId: string,
+  critic: number,
+  audience: number,
+): StoredMovieSources => ({
+  imdbId,
+  title: `Movie ${imdbId}`,
+  year: 2000,
+  sources: [
+    src("rotten_tomatoes_all", critic),
+    src("metacritic", critic),
+    src("letterboxd", (critic + audience) / 2),
+    src("imdb", audience),
+    src("rotten_tomatoes_audience", audience),
+  ],
+});
+
+const fourSources = (imdbId: string): StoredMovieSources => ({
+  imdbId,
+  title: `Movie ${imdbId}`,
+  year: null,
+  sources: [
+    src("rotten_tomatoes_all", 99),
+    src("metacritic", 99),
+    src("letterboxd", 99),
+    src("imdb", 99),
+  ],
+});
+
+const config = (input: Record<string, unknown>): RankingConfig => {
+  const parsed = parseRankingConfig(input);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.config;
+};
+
+describe("buildRankingDiff", () => {
+  const catalogue = [
+    makeMovie("tt1", 95, 60), // critics' darling
+    makeMovie("tt2", 60, 95), // crowd pleaser
+    makeMovie("tt3", 80, 80),
+  ];
+
+  it("reports a perfect correlation and no movers for identical configs", () => {
+    const report = buildRankingDiff(
+      catalogue,
+      CURRENT_RANKING_CONFIG,
+      CURRENT_RANKING_CONFIG,
+    );
+    expect(report.kendallTau).toBe(1);
+    expect(report.spearman).toBe(1);
+    expect(report.moversUp).toEqual([]);
+    expect(report.moversDown).toEqual([]);
+    expect(report.topN.every((t) => t.entered.length === 0)).toBe(true);
+  });
+
+  it("finds movers and top-N changes when tier weights shift", () => {
+    const report = buildRankingDiff(
+      catalogue,
+      CURRENT_RANKING_CONFIG,
+      config({ profile: "crowd" }),
+    );
+
+    expect(report.rankedInBoth).toBe(3);
+    expect(report.kendallTau).toBeLessThan(1);
+    expect(report.moversUp[0]).toMatchObject({
+      imdbId: "tt2",
+      candidateRank: 1,
+    });
+    expect(report.moversDown.map((m) => m.imdbId)).toContain("tt1");
+
+    const top10 = report.topN.find((t) => t.n === 10)!;
+    expect(top10.entered).toEqual([]); // only three movies — all in both top 10s
+    expect(report.topN.map((t) => t.n)).toEqual([10, 100, 1000]);
+  });
+
+  it("reports movies crossing the verdict gate in both directions", () => {
+    const withThin = [...catalogue, fourSources("tt4")];
+
+    const looser = buildRankingDiff(
+      withThin,
+      CURRENT_RANKING_CONFIG,
+      config({ minSourcesForVerdict: 4 }),
+    );
+    expect(looser.verdictGate.gained).toEqual([
+      expect.objectContaining({ imdbId: "tt4", sourcesCount: 4 }),
+    ]);
+    expect(looser.verdictGate.lost).toEqual([]);
+    // tt4 (all 99s) jumps straight into the top 10
+    expect(looser.topN[0].entered).toEqual([
+      expect.objectContaining({ imdbId: "tt4", rank: 1 }),
+    ]);
+
+    const stricter = buildRankingDiff(
+      withThin,
+      CURRENT_RANKING_CONFIG,
+      config({ minSourcesForVerdict: 6 }),
+    );
+    expect(stricter.verdictGate.lost).toHaveLength(3);
+    expect(stricter.rankedCandidate).toBe(0);
+    expect(stricter.topN[0].exited).toHaveLength(3);
+  });
+});
@@ -0,0 +1,451 @@
+import { asc, inArray } from "drizzle-orm";
+import { getDb } from "./client";
+import { movies, scores } from "./schema";
+import type { Score } from "./schema";
+import { scoreRowToSource } from "./rescore";
+import type { SourceScore } from "@/lib/types";
+import {
+  computeOverallScore,
+  isScoringProfileId,
+  DEFAULT_SCORING_PROFILE,
+  MIN_SOURCES_FOR_VERDICT,
+  SCORING_PROFILES,
+  EXPECTED_SOURCE_KEYS,
+  WEIGHTED_SOURCE_KEYS,
+} from "@/lib/scoring";
+import type { ScoringProfile } from "@/lib/scoring";
+
+/**
+ * What-if ranking diff: re-rank every stored movie under the current
+ * algorithm and under a candidate configuration, then report how the
+ * ranking moved. Reads the persisted `scores` table only — no network,
+ * no writes.
+ */
+
+const TOP_N_CUTOFFS = [10, 100, 1000] as const;
+const DEFAULT_MOVER_LIMIT = 10;
+const SCORE_READ_BATCH_SIZE = 500;
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+export type RankingConfig = {
+  label: string;
+  profile: ScoringProfile;
+  minSourcesForVerdict: number;
+};
+
+export const CURRENT_RANKING_CONFIG: RankingConfig = {
+  label: "current",
+  profile: SCORING_PROFILES[DEFAULT_SCORING_PROFILE],
+  minSourcesForVerdict: MIN_SOURCES_FOR_VERDICT,
+};
+
+const WEIGHT_MAP_KEYS = [
+  "criticBaseWeights",
+  "eliteWeights",
+  "eliteFallbackWeights",
+  "cinephileWeights",
+  "mainstreamWeights",
+] as const;
+
+const isWeight = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+/**
+ * Build a candidate config from JSON (CLI file or request body).
+ *
+ * Shape: `{ profile?, minSourcesForVerdict?, tierWeights?, elitePremiumClamp?,
+ * elitePremiumDampener?, criticBaseWeights?, eliteWeights?,
+ * eliteFallbackWeights?, cinephileWeights?, mainstreamWeights? }`. `profile` picks the base
+ * profile (default "balanced"); `tierWeights` is merged into it, the
+ * within-tier weight maps replace it wholesale.
+ */
+export function parseRankingConfig(
+  input: unknown,
+): { config: RankingConfig } | { error: string } {
+  if (input == null || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Candidate config must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+
+  const baseId = raw.profile ?? DEFAULT_SCORING_PROFILE;
+  if (!isScoringProfileId(baseId)) {
+    return { error: `Unknown scoring profile: ${String(baseId)}` };
+  }
+  const profile: ScoringProfile = { ...SCORING_PROFILES[baseId] };
+  const overridden: string[] = [];
+
+  if (raw.tierWeights !== undefined) {
+    const tiers = raw.tierWeights as Record<string, unknown> | null;
+    if (tiers == null || typeof tiers !== "object") {
+      return { error: "tierWeights must be an object" };
+    }
+    const merged = { ...profile.tierWeights };
+    for (const [tier, w] of Object.entries(tiers)) {
+      if (!Object.hasOwn(merged, tier)) {
+        return { error: `Unknown tier: ${tier}` };
+      }
+      if (!isWeight(w)) return { error: `Invalid weight for tier ${tier}` };
+      merged[tier as keyof typeof merged] = w;
+    }
+    profile.tierWeights = merged;
+    overridden.push("tierWeights");
+  }
+
+  for (const key of WEIGHT_MAP_KEYS) {
+    if (raw[key] === undefined) continue;
+    const weights = raw[key] as Record<string, unknown> | null;
+    if (weights == null || typeof weights !== "object") {
+      return { error: `${key} must be an object` };
+    }
+    for (const [source, w] of Object.entries(weights)) {
+      if (!WEIGHTED_SOURCE_KEYS.has(source)) {
+        return { error: `Unknown source in ${key}: ${source}` };
+      }
+      if (!isWeight(w)) return { error: `Invalid weight for ${source}` };
+    }
+    profile[key] = weights as Record<string, number>;
+    overridden.push(key);
+  }
+
+  for (const key of ["elitePremiumClamp", "elitePremiumDampener"] as const) {
+    if (raw[key] === undefined) continue;
+    if (!isWeight(raw[key])) return { error: `Invalid ${key}` };
+    profile[key] = raw[key];
+    overridden.push(key);
+  }
+
+  let minSourcesForVerdict = MIN_SOURCES_FOR_VERDICT;
+  if (raw.minSourcesForVerdict !== undefined) {
+    const min = raw.minSourcesForVerdict;
+    if (
+      typeof min !== "number" ||
+      !Number.isInteger(min) ||
+      min < 1 ||
+      min > EXPECTED_SOURCE_KEYS.size
+    ) {
+      return {
+        error: `minSourcesForVerdict must be an integer between 1 and ${EXPECTED_SOURCE_KEYS.size}`,
+      };
+    }
+    minSourcesForVerdict = min;
+    overridden.push("minSourcesForVerdict");
+  }
+
+  const label =
+    overridden.length > 0 ? `${baseId} + ${overridden.join(", ")}` : baseId;
+  return { config: { label, profile, minSourcesForVerdict } };
+}
+
+/** Parse the `--movers` limit; blank means the default. */
+export function parseMoverLimit(
+  value: string | undefined,
+): { movers: number } | { error: string } {
+  if (value == null || value === "") return { movers: DEFAULT_MOVER_LIMIT };
+  const movers = Number(value);
+  if (!Number.isInteger(movers) || movers < 1) {
+    return { error: `movers must be a positive integer, got "${value}"` };
+  }
+  return { movers };
+}
+
+// ─── Rank correlation ─────────────────────────────────────────────────────────
+
+/** Kendall's tau-b (tie-corrected). O(n²) — fine for a few thousand movies. */
+export function kendallTau(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+
+  let concordant = 0;
+  let discordant = 0;
+  let tiesX = 0;
+  let tiesY = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = Math.sign(xs[i] - xs[j]);
+      const dy = Math.sign(ys[i] - ys[j]);
+      if (dx === 0 && dy === 0) continue;
+      if (dx === 0) tiesX++;
+      else if (dy === 0) tiesY++;
+      else if (dx === dy) concordant++;
+      else discordant++;
+    }
+  }
+
+  const denom = Math.sqrt(
+    (concordant + discordant + tiesX) * (concordant + discordant + tiesY),
+  );
+  return denom === 0 ? null : (concordant - discordant) / denom;
+}
+
+/** Fractional ranks (ties share the average of their positions). */
+function averageRanks(values: number[]): number[] {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) {
+      j++;
+    }
+    const avg = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]] = avg;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+/** Spearman's rho: Pearson correlation of the fractional ranks. */
+export function spearman(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+
+  const rx = averageRanks(xs);
+  const ry = averageRanks(ys);
+  const mean = (n + 1) / 2;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (rx[i] - mean) * (ry[i] - mean);
+    varX += (rx[i] - mean) ** 2;
+    varY += (ry[i] - mean) ** 2;
+  }
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+}
+
+// ─── Diff report ──────────────────────────────────────────────────────────────
+
+export type StoredMovieSources = {
+  imdbId: string;
+  title: string;
+  year: number | null;
+  sources: SourceScore[];
+};
+
+export type RankedMovie = {
+  imdbId: string;
+  title: string;
+  year: number | null;
+  rank: number;
+  score: number;
+};
+
+export type RankMover = {
+  imdbId: string;
+  title: string;
+  year: number | null;
+  baselineRank: number;
+  candidateRank: number;
+  baselineScore: number;
+  candidateScore: number;
+  delta: number; // positive = moved up under the candidate
+};
+
+export type VerdictGateCrossing = {
+  imdbId: string;
+  title: string;
+  year: number | null;
+  sourcesCount: number;
+  score: number; // under whichever config gives a verdict
+};
+
+export type TopNChange = {
+  n: number;
+  entered: RankedMovie[]; // candidate rank
+  exited: RankedMovie[]; // baseline rank
+};
+
+export type RankingDiffReport = {
+  baseline: string;
+  candidate: string;
+  moviesRead: number;
+  rankedBaseline: number;
+  rankedCandidate: number;
+  rankedInBoth: number;
+  kendallTau: number | null;
+  spearman: number | null;
+  moversUp: RankMover[];
+  moversDown: RankMover[];
+  verdictGate: {
+    baselineMinSources: number;
+    candidateMinSources: number;
+    gained: VerdictGateCrossing[]; // verdict under candidate only
+    lost: VerdictGateCrossing[]; // verdict under baseline only
+  };
+  topN: TopNChange[];
+};
+
+/** Rank movies by score (desc, imdbId as tie-break). Unscored movies are dropped. */
+function rankAll(
+  list: StoredMovieSources[],
+  config: RankingConfig,
+): Map<string, RankedMovie> {
+  const scored: Omit<RankedMovie, "rank">[] = [];
+  for (const m of list) {
+    const overall = computeOverallScore(
+      m.sources,
+      config.profile,
+      config.minSourcesForVerdict,
+    );
+    if (overall) {
+      scored.push({
+        imdbId: m.imdbId,
+        title: m.title,
+        year: m.year,
+        score: overall.score,
+      });
+    }
+  }
+  scored.sort((a, b) => b.score - a.score || a.imdbId.localeCompare(b.imdbId));
+  return new Map(scored.map((m, i) => [m.imdbId, { ...m, rank: i + 1 }]));
+}
+
+function topSet(ranked: Map<string, RankedMovie>, n: number): Set<string> {
+  const ids = new Set<string>();
+  for (const m of ranked.values()) if (m.rank <= n) ids.add(m.imdbId);
+  return ids;
+}
+
+const byRank = (a: RankedMovie, b: RankedMovie) => a.rank - b.rank;
+
+export function buildRankingDiff(
+  list: StoredMovieSources[],
+  baseline: RankingConfig,
+  candidate: RankingConfig,
+  moverLimit: number = DEFAULT_MOVER_LIMIT,
+): RankingDiffReport {
+  const base = rankAll(list, baseline);
+  const cand = rankAll(list, candidate);
+
+  const movers: RankMover[] = [];
+  const baseScores: number[] = [];
+  const candScores: number[] = [];
+  for (const b of base.values()) {
+    const c = cand.get(b.imdbId);
+    if (!c) continue;
+    baseScores.push(b.score);
+    candScores.push(c.score);
+    movers.push({
+      imdbId: b.imdbId,
+      title: b.title,
+      year: b.year,
+      baselineRank: b.rank,
+      candidateRank: c.rank,
+      baselineScore: b.score,
+      candidateScore: c.score,
+      delta: b.rank - c.rank,
+    });
+  }
+
+  const moversUp = movers
+    .filter((m) => m.delta > 0)
+    .sort((a, b) => b.delta - a.delta || a.candidateRank - b.candidateRank)
+    .slice(0, moverLimit);
+  const moversDown = movers
+    .filter((m) => m.delta < 0)
+    .sort((a, b) => a.delta - b.delta || a.baselineRank - b.baselineRank)
+    .slice(0, moverLimit);
+
+  const gained: VerdictGateCrossing[] = [];
+  const lost: VerdictGateCrossing[] = [];
+  for (const m of list) {
+    const b = base.get(m.imdbId);
+    const c = cand.get(m.imdbId);
+    if (Boolean(b) === Boolean(c)) continue;
+    const sourcesCount = m.sources.filter(
+      (s) => EXPECTED_SOURCE_KEYS.has(s.source) && s.normalized != null,
+    ).length;
+    const crossing = {
+      imdbId: m.imdbId,
+      title: m.title,
+      year: m.year,
+      sourcesCount,
+      score: (c ?? b)!.score,
+    };
+    (c ? gained : lost).push(crossing);
+  }
+
+  const topN: TopNChange[] = TOP_N_CUTOFFS.map((n) => {
+    const baseTop = topSet(base, n);
+    const candTop = topSet(cand, n);
+    return {
+      n,
+      entered: [...candTop]
+        .filter((id) => !baseTop.has(id))
+        .map((id) => cand.get(id)!)
+        .sort(byRank),
+      exited: [...baseTop]
+        .filter((id) => !candTop.has(id))
+        .map((id) => base.get(id)!)
+        .sort(byRank),
+    };
+  });
+
+  return {
+    baseline: baseline.label,
+    candidate: candidate.label,
+    moviesRead: list.length,
+    rankedBaseline: base.size,
+    rankedCandidate: cand.size,
+    rankedInBoth: movers.length,
+    kendallTau: kendallTau(baseScores, candScores),
+    spearman: spearman(baseScores, candScores),
+    moversUp,
+    moversDown,
+    verdictGate: {
+      baselineMinSources: baseline.minSourcesForVerdict,
+      candidateMinSources: candidate.minSourcesForVerdict,
+      gained,
+      lost,
+    },
+    topN,
+  };
+}
+
+// ─── Loader (reads Postgres only) ─────────────────────────────────────────────
+
+/** Load every stored movie with its source scores. Null when DB is disabled. */
+export async function loadStoredMovieSources(): Promise<
+  StoredMovieSources[] | null
+> {
+  const db = getDb();
+  if (!db) return null;
+
+  const movieRows = await db
+    .select({ imdbId: movies.imdbId, title: movies.title, year: movies.year })
+    .from(movies)
+    .orderBy(asc(movies.imdbId));
+
+  // Read scores in chunks to keep the IN list bounded
+  const rowsByMovie = new Map<string, Score[]>();
+  for (let i = 0; i < movieRows.length; i += SCORE_READ_BATCH_SIZE) {
+    const ids = movieRows
+      .slice(i, i + SCORE_READ_BATCH_SIZE)
+      .map((m) => m.imdbId);
+    const rows = await db
+      .select()
+      .from(scores)
+      .where(inArray(scores.imdbId, ids));
+    for (const row of rows) {
+      const list = rowsByMovie.get(row.imdbId);
+      if (list) list.push(row);
+      else rowsByMovie.set(row.imdbId, [row]);
+    }
+  }
+
+  return movieRows.map((m) => ({
+    ...m,
+    sources: (rowsByMovie.get(m.imdbId) ?? []).map(scoreRowToSource),
+  }));
+}
+
+/** Diff the stored catalogue's ranking under the current vs. a candidate config. */
+export async function generateRankingDiff(
+  candidate: RankingConfig,
+  moverLimit?: number,
+): Promise<RankingDiffReport | null> {
+  const list = await loadStoredMovieSources();
+  if (!list) return null;
+  return buildRankingDiff(list, CURRENT_RANKING_CONFIG, candidate, moverLimit);
+}
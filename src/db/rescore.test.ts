@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Score } from "./schema";
+import { CURRENT_SCORE_VERSION } from "./persist";
+import { scoreRowToSource, rescoreMovie, rescoreMovies } from "./rescore";
+
+vi.mock("./client", () => ({
+  getDb: vi.fn(),
+}));
+
+const updatedAt = new Date("2025-01-01T00:00:00Z");
+
+const makeRow = (overrides: Partial<Score>): Score => ({
+  imdbId: "tt1",
+  source: "imdb",
+  label: "IMDb",
+  normalized: null,
+  rawValue: null,
+  rawScale: null,
+  count: null,
+  url: null,
+  error: null,
+  fromFallback: false,
+  updatedAt,
+  ...overrides,
+});
+
+// Five weighted sources — enough to clear the verdict gate
+const verdictRows = (imdbId: string): Score[] => [
+  makeRow({
+    imdbId,
+    source: "imdb",
+    rawValue: 8.0,
+    rawScale: "0-10",
+    normalized: 83,
+    count: 500000,
+  }),
+  makeRow({
+    imdbId,
+    source: "rotten_tomatoes_all",
+    label: "RT All",
+    rawValue: 90,
+    rawScale: "0-100",
+    normalized: 90,
+  }),
+  makeRow({
+    imdbId,
+    source: "metacritic",
+    label: "Metacritic",
+    rawValue: 80,
+    rawScale: "0-100",
+    normalized: 80,
+  }),
+  makeRow({
+    imdbId,
+    source: "letterboxd",
+    label: "Letterboxd",
+    rawValue: 4.0,
+    rawScale: "0-5",
+    normalized: 80,
+  }),
+  makeRow({
+    imdbId,
+    source: "douban",
+    label: "Douban",
+    rawValue: 8.5,
+    rawScale: "0-10",
+    normalized: 85,
+  }),
+];
+
+// ─── scoreRowToSource ─────────────────────────────────────────────────────────
+
+describe("scoreRowToSource", () => {
+  it("re-normalizes from the stored raw value", () => {
+    const source = scoreRowToSource(
+      makeRow({
+        source: "letterboxd",
+        label: "Letterboxd",
+        rawValue: 4.5,
+        rawScale: "0-5",
+        normalized: 12,
+      }),
+    );
+    expect(source.normalized).toBe(90);
+    expect(source.raw).toEqual({ value: 4.5, scale: "0-5" });
+  });
+
+  it("keeps the stored normalized value when no raw value was persisted", () => {
+    const source = scoreRowToSource(makeRow({ normalized: 77 }));
+    expect(source.normalized).toBe(77);
+    expect(source.raw).toBeUndefined();
+  });
+
+  it("maps null columns to absent optional fields", () => {
+    const source = scoreRowToSource(
+      makeRow({
+        source: "douban",
+        label: "Douban",
+        error: "blocked",
+      }),
+    );
+    expect(source).toEqual({
+      source: "douban",
+      label: "Douban",
+      normalized: null,
+      count: null,
+      error: "blocked",
+      errorCode: "blocked",
+    });
+  });
+
+  it("reads a code from rows stored before codes existed", () => {
+    const source = scoreRowToSource(
+      makeRow({ error: "Request failed: 429 Too Many Requests" }),
+    );
+    expect(source.errorCode).toBe("rate_limited");
+  });
+
+  it("preserves url and fallback flag", () => {
+    const source = scoreRowToSource(
+      makeRow({ url: "https://imdb.com/title/tt1", fromFallback: true }),
+    );
+    expect(source.url).toBe("https://imdb.com/title/tt1");
+    expect(source.fromFallback).toBe(true);
+  });
+});
+
+// ─── rescoreMovie ─────────────────────────────────────────────────────────────
+
+describe("rescoreMovie", () => {
+  it("computes score columns at the current version", () => {
+    const { columns } = rescoreMovie(null, verdictRows("tt1"));
+    expect(columns.overallScore).not.toBeNull();
+    expect(columns.scoreLow).toBeLessThanOrEqual(columns.overallScore!);
+    expect(columns.scoreHigh).toBeGreaterThanOrEqual(columns.overallScore!);
+    expect(columns.sourcesCount).toBe(5);
+    expect(columns.scoreVersion).toBe(CURRENT_SCORE_VERSION);
+  });
+
+  it("reports a gained verdict", () => {
+    expect(rescoreMovie(null, verdictRows("tt1")).verdict).toBe("gained");
+  });
+
+  it("reports a lost verdict when too few sources remain", () => {
+    const result = rescoreMovie(75, verdictRows("tt1").slice(0, 2));
+    expect(result.columns.overallScore).toBeNull();
+    expect(result.verdict).toBe("lost");
+  });
+
+  it("reports unchanged when the verdict state is the same", () => {
+    expect(rescoreMovie(60, verdictRows("tt1")).verdict).toBe("unchanged");
+    expect(rescoreMovie(null, []).verdict).toBe("unchanged");
+  });
+});
+
+// ─── rescoreMovies (batch job) ────────────────────────────────────────────────
+
+describe("rescoreMovies", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  function mockDb(
+    movieBatches: { imdbId: string; overallScore: number | null }[][],
+    scoreRows: Score[],
+  ) {
+    const mockLimit = vi.fn();
+    for (const batch of movieBatches) mockLimit.mockResolvedValueOnce(batch);
+    mockLimit.mockResolvedValue([]);
+    const movieQuery = {
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockReturnValue({ limit: mockLimit }),
+        }),
+      }),
+    };
+    const scoreQuery = {
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockImplementation(() => Promise.resolve(scoreRows)),
+      }),
+    };
+    const mockSelect = vi
+      .fn()
+      .mockImplementation((fields?: unknown) =>
+        fields ? movieQuery : scoreQuery,
+      );
+
+    const mockUpdateWhere = vi.fn().mockResolvedValue(undefined);
+    const mockSet = vi.fn().mockReturnValue({ where: mockUpdateWhere });
+    const mockTx = { update: vi.fn().mockReturnValue({ set: mockSet }) };
+    const mockTransaction = vi
+      .fn()
+      .mockImplementation(async (fn: (tx: typeof mockTx) => Promise<void>) => {
+        await fn(mockTx);
+      });
+
+    const total = movieBatches.reduce((n, b) => n + b.length, 0);
+    const db = {
+      $count: vi.fn().mockResolvedValue(total),
+      select: mockSelect,
+      transaction: mockTransaction,
+    };
+    return { db, mockSet, mockTransaction, mockLimit };
+  }
+
+  it("returns null when database is not available", async () => {
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue(null);
+
+    expect(await rescoreMovies()).toBeNull();
+  });
+
+  it("updates each batch in one transaction and counts verdict changes", async () => {
+    const { db, mockSet, mockTransaction, mockLimit } = mockDb(
+      [
+        [
+          { imdbId: "tt1", overallScore: null },
+          { imdbId: "tt2", overallScore: 70 },
+        ],
+        [{ imdbId: "tt3", overallScore: 80 }],
+      ],
+      [...verdictRows("tt1"), ...verdictRows("tt3")],
+    );
+    const { getDb } = await import("./client");
+    vi.mocked(getDb).mockReturnValue(db as never);
+
+    const summary = await rescoreMovies({ batchSize: 2 });
+
+    expect(summary).toEqual({
+      processed: 3,
+      total: 3,
+      gainedVerdict: 1, // tt1: no verdict → verdict
+      lostVerdict: 1, // tt2: no stored sources left
+    });
+    expect(mockLimit).toHaveBeenCalledWith(2);
+    expect(mockTransaction).toHaveBeenCalledTimes(2);
+    expect(mockSet).toHaveBeenCalledTimes(3);
+    expect(mockSet.mock.calls[0][0]).toMatchObject({
+      scoreVersion: CURRENT_SCORE_VERSION,
+    });
+    // Offline job never touches fetch metadata
+    expect(mockSet.mock.calls[0][0]).not.toHaveProperty("lastFetchedAt");
+  });
+});
@@ -0,0 +1,156 @@
+import { and, asc, eq, gt, inArray, lt } from "drizzle-orm";
+import { getDb } from "./client";
+import { movies, scores } from "./schema";
+import type { NewMovie, Score } from "./schema";
+import { CURRENT_SCORE_VERSION, scoreColumns } from "./persist";
+import type { SourceName, SourceScore } from "@/lib/types";
+import { normalizeScore } from "@/lib/normalize";
+import { storedErrorCode } from "@/lib/source-errors";
+import { computeOverallScore } from "@/lib/scoring";
+import { log } from "@/lib/logger";
+
+const DEFAULT_BATCH_SIZE = 200;
+
+// ─── Pure mapping functions ───────────────────────────────────────────────────
+
+/**
+ * Inverse of `sourceToScoreRow`. Re-normalizes from the stored raw value so
+ * normalization changes are picked up too; rows without a raw value keep
+ * their stored normalized score.
+ */
+export function scoreRowToSource(row: Score): SourceScore {
+  const source: SourceScore = {
+    source: row.source as SourceName,
+    label: row.label,
+    normalized: row.normalized,
+    count: row.count,
+    ...(row.rawValue != null && row.rawScale != null
+      ? { raw: { value: row.rawValue, scale: row.rawScale } }
+      : {}),
+    ...(row.url != null ? { url: row.url } : {}),
+    ...(row.error != null
+      ? { error: row.error, errorCode: storedErrorCode(row.error) }
+      : {}),
+    ...(row.fromFallback ? { fromFallback: true } : {}),
+  };
+
+  return source.raw ? normalizeScore(source) : source;
+}
+
+export type VerdictChange = "gained" | "lost" | "unchanged";
+
+export type RescoredMovie = {
+  columns: ReturnType<typeof scoreColumns>;
+  verdict: VerdictChange;
+};
+
+/** Recompute a movie's score columns from its stored source rows. */
+export function rescoreMovie(
+  previousScore: number | null,
+  rows: Score[],
+): RescoredMovie {
+  const sources = rows.map(scoreRowToSource);
+  const columns = scoreColumns(sources, computeOverallScore(sources));
+
+  const hadVerdict = previousScore != null;
+  const hasVerdict = columns.overallScore != null;
+  const verdict: VerdictChange =
+    hadVerdict === hasVerdict ? "unchanged" : hasVerdict ? "gained" : "lost";
+
+  return { columns, verdict };
+}
+
+// ─── Batch job (offline — reads and writes Postgres only) ────────────────────
+
+export type RescoreProgress = {
+  processed: number;
+  total: number;
+  gainedVerdict: number;
+  lostVerdict: number;
+};
+
+export type RescoreOptions = {
+  /** Movies per read/write round-trip. */
+  batchSize?: number;
+  /** Re-score every movie, not just those below CURRENT_SCORE_VERSION. */
+  all?: boolean;
+};
+
+/**
+ * Re-derive composite scores for stored movies without refetching sources.
+ * Walks movies in imdbId order (keyset pagination) and updates each batch in
+ * one transaction. Returns null when the database is not configured.
+ */
+export async function rescoreMovies(
+  options: RescoreOptions = {},
+): Promise<RescoreProgress | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const staleOnly = options.all
+    ? undefined
+    : lt(movies.scoreVersion, CURRENT_SCORE_VERSION);
+
+  const progress: RescoreProgress = {
+    processed: 0,
+    total: await db.$count(movies, staleOnly),
+    gainedVerdict: 0,
+    lostVerdict: 0,
+  };
+  log.info("rescore_started", {
+    total: progress.total,
+    scoreVersion: CURRENT_SCORE_VERSION,
+    all: options.all ?? false,
+  });
+
+  let cursor: string | null = null;
+  for (;;) {
+    const batch: { imdbId: string; overallScore: number | null }[] = await db
+      .select({ imdbId: movies.imdbId, overallScore: movies.overallScore })
+      .from(movies)
+      .where(
+        and(staleOnly, cursor != null ? gt(movies.imdbId, cursor) : undefined),
+      )
+      .orderBy(asc(movies.imdbId))
+      .limit(batchSize);
+    if (batch.length === 0) break;
+
+    const ids = batch.map((m) => m.imdbId);
+    const rows = await db
+      .select()
+      .from(scores)
+      .where(inArray(scores.imdbId, ids));
+
+    const rowsByMovie = new Map<string, Score[]>();
+    for (const row of rows) {
+      const list = rowsByMovie.get(row.imdbId);
+      if (list) list.push(row);
+      else rowsByMovie.set(row.imdbId, [row]);
+    }
+
+    const updates: { imdbId: string; columns: Partial<NewMovie> }[] = [];
+    for (const movie of batch) {
+      const { columns, verdict } = rescoreMovie(
+        movie.overallScore,
+        rowsByMovie.get(movie.imdbId) ?? [],
+      );
+      if (verdict === "gained") progress.gainedVerdict++;
+      if (verdict === "lost") progress.lostVerdict++;
+      updates.push({ imdbId: movie.imdbId, columns });
+    }
+
+    await db.transaction(async (tx) => {
+      for (const { imdbId, columns } of updates) {
+        await tx.update(movies).set(columns).where(eq(movies.imdbId, imdbId));
+      }
+    });
+
+    progress.processed += batch.length;
+    cursor = ids[ids.length - 1];
+    log.info("rescore_progress", { ...progress });
+  }
+
+  log.info("rescore_finished", { ...progress });
+  return progress;
+}
@@ -5,6 +5,7 @@ import {
   smallint,
   real,
   boolean,
+  date,
   timestamp,
   index,
   uniqueIndex,
@@ -12,9 +13,16 @@ import {
   check,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import { PAGE_SOURCES } from "../lib/parsers";
+import { SOURCE_ERROR_CODES } from "../lib/source-errors";
+import { SOURCE_NAMES, WIKIDATA_KEYS } from "../lib/sources/catalog";
 
 // ─── Movies table ─────────────────────────────────────────────────────────────
 
+// "Hidden gems" ceiling on IMDb + Letterboxd rating counts. Baked into the
+// partial index predicate — queries must use this exact literal to hit it.
+export const GEMS_MAX_VOTES = 50_000;
+
 export const movies = pgTable(
   "movies",
   {
@@ -34,11 +42,20 @@ export const movies = pgTable(
     composer: text("composer"),
     castMembers: text("cast_members").array(),
     overallScore: real("overall_score"),
+    scoreLow: real("score_low"),
+    scoreHigh: real("score_high"),
     coverage: real("coverage"),
     disagreement: real("disagreement"),
+    criticAudienceGap: real("critic_audience_gap"),
     sourcesCount: smallint("sources_count").notNull().default(0),
+    votesCount: integer("votes_count"), // sum of scores.count across scored sources
+    imdbLetterboxdVotes: integer("imdb_letterboxd_votes"), // null unless both counts are known
     isComplete: boolean("is_complete").notNull().default(false),
     scoreVersion: smallint("score_version").notNull().default(1),
+    // Set by `npm run db:critic-reviews`, also when RT listed no top critics
+    criticReviewsFetchedAt: timestamp("critic_reviews_fetched_at", {
+      withTimezone: true,
+    }),
     lastFetchedAt: timestamp("last_fetched_at", {
       withTimezone: true,
     }).notNull(),
@@ -67,6 +84,16 @@ export const movies = pgTable(
       .where(
         sql`${table.overallScore} is not null and ${table.coverage} >= 0.70`,
       ),
+    index("idx_movies_gems")
+      .on(table.overallScore)
+      .where(
+        sql`${table.overallScore} is not null and ${table.coverage} >= 0.70 and ${table.imdbLetterboxdVotes} < ${sql.raw(String(GEMS_MAX_VOTES))}`,
+      ),
+    index("idx_movies_critic_audience_gap")
+      .on(table.criticAudienceGap)
+      .where(
+        sql`${table.overallScore} is not null and ${table.coverage} >= 0.70`,
+      ),
   ],
 );
 
@@ -94,9 +121,135 @@ export const scores = pgTable(
   (table) => [
     primaryKey({ columns: [table.imdbId, table.source] }),
     index("idx_scores_imdb_id").on(table.imdbId),
+    // Derived from the source catalog — adding a source changes this
+    // constraint, so run `npm run db:generate` for the migration
     check(
       "source_check",
-      sql`${table.source} in ('allocine_press','allocine_user','douban','imdb','letterboxd','metacritic','rotten_tomatoes','rotten_tomatoes_all','rotten_tomatoes_audience','rotten_tomatoes_top')`,
+      sql`${table.source} in (${sql.raw(SOURCE_NAMES.map((n) => `'${n}'`).join(","))})`,
+    ),
+    // An error code from src/lib/source-errors.ts, never a free-form message
+    check(
+      "error_check",
+      sql`${table.error} is null or ${table.error} in (${sql.raw(SOURCE_ERROR_CODES.map((c) => `'${c}'`).join(","))})`,
+    ),
+  ],
+);
+
+// ─── Rating distributions table ───────────────────────────────────────────────
+
+// Per-source vote histograms (IMDb 1-10, Letterboxd half-stars). Parallel
+// arrays, lowest rating first.
+export const ratingDistributions = pgTable(
+  "rating_distributions",
+  {
+    imdbId: text("imdb_id")
+      .notNull()
+      .references(() => movies.imdbId, { onDelete: "cascade" }),
+    source: text("source").notNull(),
+    ratings: real("ratings").array().notNull(),
+    counts: integer("counts").array().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.imdbId, table.source] })],
+);
+
+// ─── Source IDs table ─────────────────────────────────────────────────────────
+
+// Platform IDs resolved without Wikidata, plus admin overrides. `source` is a
+// WikidataIds key ("rottenTomatoes", "douban", ...). No FK to movies: an
+// override may be set before the film is first fetched.
+export const sourceIds = pgTable(
+  "source_ids",
+  {
+    imdbId: text("imdb_id").notNull(),
+    source: text("source").notNull(),
+    externalId: text("external_id").notNull(),
+    method: text("method").notNull(), // "manual" overrides beat Wikidata
+    confidence: text("confidence").notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.imdbId, table.source] }),
+    check(
+      "source_ids_source_check",
+      sql`${table.source} in (${sql.raw(WIKIDATA_KEYS.map((k) => `'${k}'`).join(","))})`,
+    ),
+    check(
+      "confidence_check",
+      sql`${table.confidence} in ('high','medium','low')`,
+    ),
+  ],
+);
+
+// ─── Critic reviews table ─────────────────────────────────────────────────────
+
+// Individual Rotten Tomatoes reviews, filled by `npm run db:critic-reviews`
+export const criticReviews = pgTable(
+  "critic_reviews",
+  {
+    imdbId: text("imdb_id")
+      .notNull()
+      .references(() => movies.imdbId, { onDelete: "cascade" }),
+    reviewId: text("review_id").notNull(),
+    criticName: text("critic_name").notNull(),
+    criticSlug: text("critic_slug"),
+    publication: text("publication"),
+    topCritic: boolean("top_critic").notNull().default(false),
+    sentiment: text("sentiment").notNull(),
+    originalScore: text("original_score"), // as published: "3.5/4", "B+"
+    normalizedScore: real("normalized_score"), // original score on 0-100
+    reviewUrl: text("review_url"),
+    publishedAt: date("published_at"),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.imdbId, table.reviewId] }),
+    index("idx_critic_reviews_critic").on(table.criticSlug),
+    check("sentiment_check", sql`${table.sentiment} in ('fresh','rotten')`),
+  ],
+);
+
+// ─── Normalization calibrations table ─────────────────────────────────────────
+
+// One row per (version, source). Each recompute inserts a new version; older
+// versions are kept so percentile scores stay reproducible.
+export const normalizationCalibrations = pgTable(
+  "normalization_calibrations",
+  {
+    version: smallint("version").notNull(),
+    source: text("source").notNull(),
+    quantiles: real("quantiles").array().notNull(),
+    sampleSize: integer("sample_size").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.version, table.source] })],
+);
+
+// ─── Parser checks table ──────────────────────────────────────────────────────
+
+// Daily counts of scraped pages per source and how many had drifted (none of
+// the markup the parsers anchor on). Feeds the admin drift report.
+export const parserChecks = pgTable(
+  "parser_checks",
+  {
+    day: date("day").notNull(),
+    source: text("source").notNull(), // a PageSource (adapter ID)
+    pages: integer("pages").notNull().default(0),
+    drifted: integer("drifted").notNull().default(0),
+  },
+  (table) => [
+    primaryKey({ columns: [table.day, table.source] }),
+    check(
+      "parser_checks_source_check",
+      sql`${table.source} in (${sql.raw(PAGE_SOURCES.map((s) => `'${s}'`).join(","))})`,
     ),
   ],
 );
@@ -107,3 +260,15 @@ export type Movie = typeof movies.$inferSelect;
 export type NewMovie = typeof movies.$inferInsert;
 export type Score = typeof scores.$inferSelect;
 export type NewScore = typeof scores.$inferInsert;
+export type RatingDistributionRow = typeof ratingDistributions.$inferSelect;
+export type NewRatingDistribution = typeof ratingDistributions.$inferInsert;
+export type SourceIdRow = typeof sourceIds.$inferSelect;
+export type NewSourceId = typeof sourceIds.$inferInsert;
+export type CriticReviewRow = typeof criticReviews.$inferSelect;
+export type NewCriticReview = typeof criticReviews.$inferInsert;
+export type NormalizationCalibration =
+  typeof normalizationCalibrations.$inferSelect;
+export type NewNormalizationCalibration =
+  typeof normalizationCalibrations.$inferInsert;
+export type ParserCheckRow = typeof parserChecks.$inferSelect;
+export type NewParserCheck = typeof parserChecks.$inferInsert;
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getSourceIds,
+  mergeSourceIds,
+  parseSourceIdOverride,
+  resolutionToRow,
+  saveResolvedSourceIds,
+} from "./source-ids";
+import { getDb } from "./client";
+
+vi.mock("./client", () => ({
+  getDb: vi.fn(),
+}));
+
+// ─── Precedence ───────────────────────────────────────────────────────────────
+
+describe("mergeSourceIds", () => {
+  it("lets manual overrides beat Wikidata and Wikidata beat remembered guesses", () => {
+    const merged = mergeSourceIds(
+      { rottenTomatoes: "m/wikidata_slug", letterboxd: "wikidata-slug" },
+      {
+        overrides: { letterboxd: "manual-slug" },
+        resolved: { rottenTomatoes: "m/guessed_slug", douban: "1292052" },
+      },
+    );
+
+    expect(merged).toEqual({
+      rottenTomatoes: "m/wikidata_slug",
+      letterboxd: "manual-slug",
+      douban: "1292052",
+    });
+  });
+
+  it("ignores Wikidata keys that came back undefined", () => {
+    const merged = mergeSourceIds(
+      { letterboxd: undefined },
+      { overrides: {}, resolved: { letterboxd: "guessed-slug" } },
+    );
+
+    expect(merged.letterboxd).toBe("guessed-slug");
+  });
+});
+
+describe("resolutionToRow", () => {
+  it("maps a resolution onto the source_ids columns", () => {
+    const at = new Date("2026-01-01T00:00:00Z");
+    const row = resolutionToRow(
+      "tt0111161",
+      { key: "douban", id: "1292052", method: "google", confidence: "low" },
+      at,
+    );
+
+    expect(row).toEqual({
+      imdbId: "tt0111161",
+      source: "douban",
+      externalId: "1292052",
+      method: "google",
+      confidence: "low",
+      updatedAt: at,
+    });
+  });
+});
+
+// ─── Admin body validation ────────────────────────────────────────────────────
+
+describe("parseSourceIdOverride", () => {
+  const valid = { imdbId: "tt0111161", key: "letterboxd", id: " some-slug " };
+
+  it("accepts a valid body and trims the id", () => {
+    expect(parseSourceIdOverride(valid, { requireId: true })).toEqual({
+      override: { imdbId: "tt0111161", key: "letterboxd", id: "some-slug" },
+    });
+  });
+
+  it("rejects a malformed IMDb ID", () => {
+    const parsed = parseSourceIdOverride(
+      { ...valid, imdbId: "0111161" },
+      { requireId: true },
+    );
+    expect(parsed).toEqual({ error: "imdbId must look like tt1234567" });
+  });
+
+  it("rejects keys no adapter reads", () => {
+    const parsed = parseSourceIdOverride(
+      { ...valid, key: "netflix" },
+      { requireId: true },
+    );
+    expect("error" in parsed && parsed.error).toMatch(/^key must be one of:/);
+  });
+
+  it("requires an id only when setting a mapping", () => {
+    const body = { imdbId: "tt0111161", key: "douban" };
+    expect(parseSourceIdOverride(body, { requireId: true })).toEqual({
+      error: "id must be a non-empty string",
+    });
+    expect(parseSourceIdOverride(body, { requireId: false })).toHaveProperty(
+      "override",
+    );
+  });
+
+  it("rejects a non-object body", () => {
+    expect(parseSourceIdOverride(null, { requireId: true })).toEqual({
+      error: "Body must be a JSON object",
+    });
+  });
+});
+
+// ─── Queries (graceful degradation) ───────────────────────────────────────────
+
+describe("getSourceIds", () => {
+  it("returns nothing stored when the DB is not configured", async () => {
+    vi.mocked(getDb).mockReturnValue(null);
+
+    expect(await getSourceIds("tt0111161")).toEqual({
+      overrides: {},
+      resolved: {},
+    });
+  });
+
+  it("splits manual rows from remembered ones", async () => {
+    const rows = [
+      { source: "letterboxd", externalId: "manual-slug", method: "manual" },
+      { source: "douban", externalId: "1292052", method: "suggest_api" },
+    ];
+    const db = {
+      select: () => ({ from: () => ({ where: async () => rows }) }),
+    };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    expect(await getSourceIds("tt0111161")).toEqual({
+      overrides: { letterboxd: "manual-slug" },
+      resolved: { douban: "1292052" },
+    });
+  });
+
+  it("never throws when the query fails", async () => {
+    const db = {
+      select: () => ({
+        from: () => ({
+          where: async () => {
+            throw new Error("relation does not exist");
+          },
+        }),
+      }),
+    };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    expect(await getSourceIds("tt0111161")).toEqual({
+      overrides: {},
+      resolved: {},
+    });
+  });
+});
+
+describe("saveResolvedSourceIds", () => {
+  it("inserts without overwriting existing mappings", async () => {
+    const onConflictDoNothing = vi.fn().mockResolvedValue(undefined);
+    const values = vi.fn(() => ({ onConflictDoNothing }));
+    const db = { insert: vi.fn(() => ({ values })) };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    await saveResolvedSourceIds("tt0111161", [
+      {
+        key: "letterboxd",
+        id: "some-slug",
+        method: "slug_guess",
+        confidence: "low",
+      },
+    ]);
+
+    expect(values).toHaveBeenCalledWith([
+      expect.objectContaining({
+        imdbId: "tt0111161",
+        source: "letterboxd",
+        externalId: "some-slug",
+        method: "slug_guess",
+      }),
+    ]);
+    expect(onConflictDoNothing).toHaveBeenCalled();
+  });
+
+  it("skips the DB when nothing was resolved", async () => {
+    const db = { insert: vi.fn() };
+    vi.mocked(getDb).mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    await saveResolvedSourceIds("tt0111161", []);
+
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { and, eq } from "drizzle-orm";
+import { getDb } from "./client";
+import { sourceIds } from "./schema";
+import type { NewSourceId, SourceIdRow } from "./schema";
+import type { SourceIdResolution, WikidataIds, WikidataKey } from "@/lib/types";
+import { WIKIDATA_KEYS } from "@/lib/sources/catalog";
+import { log } from "@/lib/logger";
+
+export const MANUAL_METHOD = "manual";
+
+/** Stored mappings for one movie, split by precedence. */
+export type StoredSourceIds = {
+  overrides: WikidataIds; // admin-set — win over Wikidata
+  resolved: WikidataIds; // remembered guesses/searches — fill Wikidata gaps only
+};
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * The IDs fetchers use: manual overrides, then Wikidata, then remembered
+ * resolutions. A guess never shadows Wikidata, so a bad one is only ever a
+ * fallback — and an admin override fixes it.
+ */
+export function mergeSourceIds(
+  wikidata: WikidataIds,
+  stored: StoredSourceIds,
+): WikidataIds {
+  const merged: WikidataIds = {};
+  for (const layer of [stored.resolved, wikidata, stored.overrides]) {
+    for (const [key, id] of Object.entries(layer)) {
+      if (id) merged[key as WikidataKey] = id;
+    }
+  }
+  return merged;
+}
+
+export function resolutionToRow(
+  imdbId: string,
+  resolution: SourceIdResolution,
+  updatedAt: Date,
+): NewSourceId {
+  return {
+    imdbId,
+    source: resolution.key,
+    externalId: resolution.id,
+    method: resolution.method,
+    confidence: resolution.confidence,
+    updatedAt,
+  };
+}
+
+export type SourceIdOverride = {
+  imdbId: string;
+  key: WikidataKey;
+  id: string;
+};
+
+/**
+ * Validate an admin request body. `id` is required to set a mapping and
+ * ignored when clearing one.
+ */
+export function parseSourceIdOverride(
+  body: unknown,
+  { requireId }: { requireId: boolean },
+): { override: SourceIdOverride } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Body must be a JSON object" };
+  }
+  const { imdbId, key, id } = body as Record<string, unknown>;
+  if (typeof imdbId !== "string" || !/^tt\d+$/.test(imdbId)) {
+    return { error: "imdbId must look like tt1234567" };
+  }
+  if (
+    typeof key !== "string" ||
+    !(WIKIDATA_KEYS as readonly string[]).includes(key)
+  ) {
+    return { error: `key must be one of: ${WIKIDATA_KEYS.join(", ")}` };
+  }
+  if (!requireId) {
+    return { override: { imdbId, key: key as WikidataKey, id: "" } };
+  }
+  if (typeof id !== "string" || id.trim() === "" || id.length > 200) {
+    return { error: "id must be a non-empty string" };
+  }
+  return { override: { imdbId, key: key as WikidataKey, id: id.trim() } };
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+/** Never throws — an unreadable table just means no stored mappings. */
+export async function getSourceIds(imdbId: string): Promise<StoredSourceIds> {
+  const stored: StoredSourceIds = { overrides: {}, resolved: {} };
+  const db = getDb();
+  if (!db) return stored;
+
+  try {
+    const rows = await db
+      .select()
+      .from(sourceIds)
+      .where(eq(sourceIds.imdbId, imdbId));
+    for (const row of rows) {
+      const layer =
+        row.method === MANUAL_METHOD ? stored.overrides : stored.resolved;
+      layer[row.source as WikidataKey] = row.externalId;
+    }
+  } catch (err) {
+    log.warn("source_ids_load_failed", {
+      imdbId,
+      error: (err as Error).message,
+    });
+  }
+  return stored;
+}
+
+/**
+ * Remember IDs fetchers resolved without Wikidata. Existing rows win: an
+ * earlier resolution or a manual override is never replaced. Never throws.
+ */
+export async function saveResolvedSourceIds(
+  imdbId: string,
+  resolutions: SourceIdResolution[],
+): Promise<void> {
+  const db = getDb();
+  if (!db || resolutions.length === 0) return;
+
+  const now = new Date();
+  try {
+    await db
+      .insert(sourceIds)
+      .values(resolutions.map((r) => resolutionToRow(imdbId, r, now)))
+      .onConflictDoNothing();
+    log.info("source_ids_saved", {
+      imdbId,
+      keys: resolutions.map((r) => `${r.key}:${r.method}`),
+    });
+  } catch (err) {
+    log.warn("source_ids_save_failed", {
+      imdbId,
+      error: (err as Error).message,
+    });
+  }
+}
+
+/** Set (or correct) a mapping by hand. Null when the DB is not configured. */
+export async function setSourceIdOverride(
+  override: SourceIdOverride,
+): Promise<SourceIdRow | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const row = resolutionToRow(
+    override.imdbId,
+    {
+      key: override.key,
+      id: override.id,
+      method: MANUAL_METHOD,
+      confidence: "high",
+    },
+    new Date(),
+  );
+  const [saved] = await db
+    .insert(sourceIds)
+    .values(row)
+    .onConflictDoUpdate({
+      target: [sourceIds.imdbId, sourceIds.source],
+      set: {
+        externalId: row.externalId,
+        method: row.method,
+        confidence: row.confidence,
+        updatedAt: row.updatedAt,
+      },
+    })
+    .returning();
+  return saved;
+}
+
+/**
+ * Forget a mapping (manual or remembered) so the fetcher resolves it afresh.
+ * Returns whether a row existed; null when the DB is not configured.
+ */
+export async function deleteSourceId(
+  override: Pick<SourceIdOverride, "imdbId" | "key">,
+): Promise<boolean | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const deleted = await db
+    .delete(sourceIds)
+    .where(
+      and(
+        eq(sourceIds.imdbId, override.imdbId),
+        eq(sourceIds.source, override.key),
+      ),
+    )
+    .returning({ imdbId: sourceIds.imdbId });
+  return deleted.length > 0;
+}
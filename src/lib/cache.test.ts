@@ -58,6 +58,15 @@ describe("LRUCache", () => {
     expect(cache.get("b")).toBeNull();
   });
 
+  it("deletes a single entry", () => {
+    const cache = new LRUCache<string>(1000, 10);
+    cache.set("a", "1");
+    cache.set("b", "2");
+    cache.delete("a");
+    expect(cache.get("a")).toBeNull();
+    expect(cache.get("b")).toBe("2");
+  });
+
   it("handles empty string keys without hanging", () => {
     const cache = new LRUCache<string>(10000, 2);
     cache.set("", "empty-key-value");
@@ -39,6 +39,10 @@ export class LRUCache<T> {
 
     this.store.set(key, { value, expiresAt: Date.now() + this.ttlMs });
   }
+
+  delete(key: string): void {
+    this.store.delete(key);
+  }
 }
 
 // Backwards compat alias
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCalibration,
+  computeQuantiles,
+  isNormalizationMode,
+  percentileOf,
+  MIN_CALIBRATION_SAMPLES,
+  QUANTILE_KNOTS,
+} from "./calibration";
+import type { SourceName } from "./types";
+
+describe("computeQuantiles", () => {
+  it("returns one knot per percentile spanning min to max", () => {
+    const q = computeQuantiles([5, 1, 3, 2, 4]);
+    expect(q).toHaveLength(QUANTILE_KNOTS);
+    expect(q[0]).toBe(1);
+    expect(q[50]).toBe(3);
+    expect(q[100]).toBe(5);
+  });
+
+  it("interpolates between order statistics", () => {
+    const q = computeQuantiles([0, 10]);
+    expect(q[25]).toBeCloseTo(2.5);
+  });
+});
+
+describe("percentileOf", () => {
+  const even = computeQuantiles(Array.from({ length: 101 }, (_, i) => i));
+
+  it("maps a uniform distribution onto itself", () => {
+    expect(percentileOf(even, 37)).toBeCloseTo(37);
+    expect(percentileOf(even, 37.5)).toBeCloseTo(37.5);
+  });
+
+  it("clamps values outside the observed range", () => {
+    expect(percentileOf(even, -5)).toBe(0);
+    expect(percentileOf(even, 500)).toBe(100);
+  });
+
+  it("places a value shared by many movies in the middle of its run", () => {
+    // Half the catalogue sits exactly at 8.0 (a coarse Douban-style scale)
+    const values = [
+      ...Array.from({ length: 25 }, () => 7.0),
+      ...Array.from({ length: 50 }, () => 8.0),
+      ...Array.from({ length: 25 }, () => 9.0),
+    ];
+    const q = computeQuantiles(values);
+    expect(percentileOf(q, 8.0)).toBeCloseTo(50, 0);
+  });
+});
+
+describe("buildCalibration", () => {
+  it("skips sources with too few raw values", () => {
+    const enough = Array.from({ length: MIN_CALIBRATION_SAMPLES }, (_, i) => i);
+    const calibration = buildCalibration(
+      new Map<SourceName, number[]>([
+        ["letterboxd", enough],
+        ["douban", [7, 8]],
+      ]),
+      3,
+    );
+    expect(calibration.version).toBe(3);
+    expect(calibration.sources.letterboxd?.sampleSize).toBe(
+      MIN_CALIBRATION_SAMPLES,
+    );
+    expect(calibration.sources.douban).toBeUndefined();
+  });
+});
+
+describe("isNormalizationMode", () => {
+  it("accepts known modes only", () => {
+    expect(isNormalizationMode("percentile")).toBe(true);
+    expect(isNormalizationMode("static")).toBe(true);
+    expect(isNormalizationMode("zscore")).toBe(false);
+    expect(isNormalizationMode(undefined)).toBe(false);
+  });
+});
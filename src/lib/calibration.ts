@@ -0,0 +1,92 @@
+import type { NormalizationMode, SourceName } from "./types";
+
+/**
+ * Empirical calibration for percentile normalization.
+ *
+ * For each source we keep the raw value at every percentile 0..100 of the
+ * stored catalogue (101 knots). A raw score is then mapped to its position
+ * in that distribution, so "4.0 on Letterboxd" and "8.0 on Douban" are
+ * compared by how rare they are rather than by their nominal scale.
+ */
+
+export const QUANTILE_KNOTS = 101; // p0, p1, …, p100
+
+// Below this many raw values the distribution is too noisy — the source
+// keeps its static mapping.
+export const MIN_CALIBRATION_SAMPLES = 50;
+
+export const NORMALIZATION_MODES: readonly NormalizationMode[] = [
+  "static",
+  "percentile",
+];
+
+export function isNormalizationMode(
+  value: unknown,
+): value is NormalizationMode {
+  return (
+    typeof value === "string" &&
+    NORMALIZATION_MODES.includes(value as NormalizationMode)
+  );
+}
+
+export type SourceCalibration = {
+  quantiles: number[]; // QUANTILE_KNOTS ascending raw values
+  sampleSize: number;
+};
+
+export type Calibration = {
+  version: number;
+  sources: Partial<Record<SourceName, SourceCalibration>>;
+};
+
+/** Raw value at each percentile (linear interpolation between order statistics). */
+export function computeQuantiles(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const last = sorted.length - 1;
+  return Array.from({ length: QUANTILE_KNOTS }, (_, i) => {
+    const pos = (i / (QUANTILE_KNOTS - 1)) * last;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+  });
+}
+
+/** Build a calibration from raw values grouped by source. */
+export function buildCalibration(
+  rawBySource: ReadonlyMap<SourceName, number[]>,
+  version: number,
+): Calibration {
+  const sources: Calibration["sources"] = {};
+  for (const [source, values] of rawBySource) {
+    if (values.length < MIN_CALIBRATION_SAMPLES) continue;
+    sources[source] = {
+      quantiles: computeQuantiles(values),
+      sampleSize: values.length,
+    };
+  }
+  return { version, sources };
+}
+
+/**
+ * Percentile (0-100) of a raw value within a source's calibration.
+ * Values inside a flat run of knots (common for coarse scales like Douban's
+ * 0.1 steps) land in the middle of the run; values outside the observed
+ * range clamp to 0 / 100.
+ */
+export function percentileOf(quantiles: number[], value: number): number {
+  const last = quantiles.length - 1;
+  if (value < quantiles[0]) return 0;
+  if (value > quantiles[last]) return 100;
+
+  const i = quantiles.findIndex((q) => q >= value);
+  if (quantiles[i] === value) {
+    let end = i;
+    while (end < last && quantiles[end + 1] === value) end++;
+    return ((i + end) / 2 / last) * 100;
+  }
+
+  // Strictly between knots i-1 and i
+  const lo = quantiles[i - 1];
+  const hi = quantiles[i];
+  return ((i - 1 + (value - lo) / (hi - lo)) / last) * 100;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  circuitOptionsFromEnv,
+  isCircuitOpenError,
+} from "./circuit-breaker";
+
+function makeBreaker(failureThreshold = 3, cooldownMs = 1000) {
+  let now = 0;
+  const breaker = new CircuitBreaker({
+    failureThreshold,
+    cooldownMs,
+    now: () => now,
+  });
+  return { breaker, advance: (ms: number) => (now += ms) };
+}
+
+function tripped(fn: () => void): CircuitOpenError | null {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    return isCircuitOpenError(err) ? err : null;
+  }
+}
+
+describe("CircuitBreaker", () => {
+  it("stays closed below the failure threshold", () => {
+    const { breaker } = makeBreaker(3);
+    breaker.recordFailure("rt.com", "403 Forbidden");
+    breaker.recordFailure("rt.com", "403 Forbidden");
+
+    expect(() => breaker.check("rt.com")).not.toThrow();
+    expect(breaker.snapshot()[0]).toMatchObject({
+      host: "rt.com",
+      state: "closed",
+      failures: 2,
+    });
+  });
+
+  it("counts consecutive failures only", () => {
+    const { breaker } = makeBreaker(2);
+    breaker.recordFailure("rt.com", "403 Forbidden");
+    breaker.recordSuccess("rt.com");
+    breaker.recordFailure("rt.com", "403 Forbidden");
+
+    expect(() => breaker.check("rt.com")).not.toThrow();
+  });
+
+  it("opens at the threshold and fails fast per host", () => {
+    const { breaker } = makeBreaker(2);
+    breaker.recordFailure("rt.com", "403 Forbidden");
+    breaker.recordFailure("rt.com", "Temporarily unavailable");
+
+    const err = tripped(() => breaker.check("rt.com"));
+    expect(err?.message).toBe("Circuit open for rt.com");
+    expect(err?.host).toBe("rt.com");
+    expect(err?.retryAt).toBe(1000);
+    expect(() => breaker.check("letterboxd.com")).not.toThrow();
+    expect(breaker.snapshot()[0]).toMatchObject({
+      state: "open",
+      lastFailure: "Temporarily unavailable",
+      retryAt: new Date(1000).toISOString(),
+    });
+  });
+
+  it("lets one probe through after the cooldown and closes on success", () => {
+    const { breaker, advance } = makeBreaker(1);
+    breaker.recordFailure("rt.com", "403 Forbidden");
+    advance(1000);
+
+    expect(() => breaker.check("rt.com")).not.toThrow(); // the probe
+    expect(tripped(() => breaker.check("rt.com"))).not.toBeNull(); // others wait
+    expect(breaker.snapshot()[0].state).toBe("half_open");
+
+    breaker.recordSuccess("rt.com");
+    expect(() => breaker.check("rt.com")).not.toThrow();
+    expect(breaker.snapshot()).toEqual([]);
+  });
+
+  it("re-opens for another cooldown when the probe fails", () => {
+    const { breaker, advance } = makeBreaker(1);
+    breaker.recordFailure("rt.com", "403 Forbidden");
+    advance(1000);
+    breaker.check("rt.com");
+    breaker.recordFailure("rt.com", "403 Forbidden");
+
+    expect(tripped(() => breaker.check("rt.com"))?.retryAt).toBe(2000);
+    advance(999);
+    expect(tripped(() => breaker.check("rt.com"))).not.toBeNull();
+  });
+
+  it("frees the probe slot when the probe is released (caller abort)", () => {
+    const { breaker, advance } = makeBreaker(1);
+    breaker.recordFailure("rt.com", "403 Forbidden");
+    advance(1000);
+    breaker.check("rt.com");
+    breaker.release("rt.com");
+
+    expect(() => breaker.check("rt.com")).not.toThrow();
+  });
+});
+
+describe("circuitOptionsFromEnv", () => {
+  it("reads threshold and cooldown, ignoring invalid values", () => {
+    expect(
+      circuitOptionsFromEnv({
+        HTTP_CIRCUIT_THRESHOLD: "3",
+        HTTP_CIRCUIT_COOLDOWN_MS: "30000",
+      }),
+    ).toEqual({ failureThreshold: 3, cooldownMs: 30000 });
+    expect(circuitOptionsFromEnv({ HTTP_CIRCUIT_THRESHOLD: "zero" })).toEqual({
+      failureThreshold: 5,
+      cooldownMs: 60000,
+    });
+  });
+});
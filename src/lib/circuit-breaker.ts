@@ -0,0 +1,164 @@
+import { log } from "./logger";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number; // consecutive failures that open the circuit
+  cooldownMs: number; // how long it stays open before a probe is let through
+  now?: () => number;
+};
+
+/** One host's breaker, as reported by the admin endpoint. */
+export type CircuitSnapshot = {
+  host: string;
+  state: CircuitState;
+  failures: number;
+  lastFailure: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+};
+
+export const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 60_000,
+};
+
+export function circuitOpenMessage(hosts: string[]): string {
+  return `Circuit open for ${hosts.join(", ")}`;
+}
+
+/** Thrown instead of sending a request while a host's circuit is open. */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly host: string,
+    readonly retryAt: number,
+  ) {
+    super(circuitOpenMessage([host]));
+    this.name = "CircuitOpenError";
+  }
+}
+
+export function isCircuitOpenError(err: unknown): err is CircuitOpenError {
+  return err instanceof Error && err.name === "CircuitOpenError";
+}
+
+type HostCircuit = {
+  state: CircuitState;
+  failures: number;
+  lastFailure: string | null;
+  openedAt: number | null;
+  probing: boolean; // a half-open trial request is in flight
+};
+
+/**
+ * Per-host breaker: `failureThreshold` consecutive failures open the circuit
+ * and requests fail fast for `cooldownMs`; then one probe is let through
+ * (half-open) — success closes it, failure re-opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, HostCircuit>();
+  private now: () => number;
+
+  constructor(
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_OPTIONS,
+  ) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Throws CircuitOpenError when `host` must not be called right now. */
+  check(host: string): void {
+    const circuit = this.circuits.get(host);
+    if (!circuit || circuit.state === "closed") return;
+
+    const retryAt = (circuit.openedAt ?? 0) + this.options.cooldownMs;
+    if (circuit.state === "open") {
+      if (this.now() < retryAt) throw new CircuitOpenError(host, retryAt);
+      circuit.state = "half_open";
+      log.info("circuit_half_open", { host });
+    }
+    // Half-open: exactly one probe at a time
+    if (circuit.probing) throw new CircuitOpenError(host, retryAt);
+    circuit.probing = true;
+  }
+
+  recordSuccess(host: string): void {
+    const circuit = this.circuits.get(host);
+    if (!circuit) return;
+    if (circuit.state !== "closed") log.info("circuit_closed", { host });
+    this.circuits.delete(host);
+  }
+
+  recordFailure(host: string, reason: string): void {
+    const circuit = this.circuits.get(host) ?? {
+      state: "closed",
+      failures: 0,
+      lastFailure: null,
+      openedAt: null,
+      probing: false,
+    };
+    circuit.failures += 1;
+    circuit.lastFailure = reason;
+    circuit.probing = false;
+
+    const trips =
+      circuit.state === "half_open" ||
+      (circuit.state === "closed" &&
+        circuit.failures >= this.options.failureThreshold);
+    if (trips) {
+      circuit.state = "open";
+      circuit.openedAt = this.now();
+      log.warn("circuit_opened", {
+        host,
+        failures: circuit.failures,
+        reason,
+        cooldownMs: this.options.cooldownMs,
+      });
+    }
+    this.circuits.set(host, circuit);
+  }
+
+  /** A request that ended without a verdict (caller abort) frees the probe. */
+  release(host: string): void {
+    const circuit = this.circuits.get(host);
+    if (circuit) circuit.probing = false;
+  }
+
+  /** Hosts with recent failures (closed, healthy hosts aren't tracked). */
+  snapshot(): CircuitSnapshot[] {
+    return [...this.circuits.entries()]
+      .map(([host, c]) => ({
+        host,
+        state: c.state,
+        failures: c.failures,
+        lastFailure: c.lastFailure,
+        openedAt:
+          c.openedAt != null ? new Date(c.openedAt).toISOString() : null,
+        retryAt:
+          c.state !== "closed" && c.openedAt != null
+            ? new Date(c.openedAt + this.options.cooldownMs).toISOString()
+            : null,
+      }))
+      .sort((a, b) => a.host.localeCompare(b.host));
+  }
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Options from HTTP_CIRCUIT_THRESHOLD / HTTP_CIRCUIT_COOLDOWN_MS. */
+export function circuitOptionsFromEnv(
+  env: Record<string, string | undefined>,
+): CircuitBreakerOptions {
+  return {
+    failureThreshold: positiveInt(
+      env.HTTP_CIRCUIT_THRESHOLD,
+      DEFAULT_CIRCUIT_OPTIONS.failureThreshold,
+    ),
+    cooldownMs: positiveInt(
+      env.HTTP_CIRCUIT_COOLDOWN_MS,
+      DEFAULT_CIRCUIT_OPTIONS.cooldownMs,
+    ),
+  };
+}
@@ -5,7 +5,17 @@ vi.mock("@/db/persist", () => ({
   persistScores: vi.fn().mockResolvedValue(undefined),
 }));
 
-vi.mock("./http", () => {
+vi.mock("@/db/parser-drift", () => ({
+  recordPageChecks: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("@/db/source-ids", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/db/source-ids")>()),
+  getSourceIds: vi.fn().mockResolvedValue({ overrides: {}, resolved: {} }),
+  saveResolvedSourceIds: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./http", async (importOriginal) => {
   const fetchJson = vi.fn(async (url: string) => {
     if (url.includes("omdbapi"))
       return {
@@ -37,10 +47,15 @@ vi.mock("./http", () => {
     if (url.includes("douban.com") || url.includes("google.com")) return "";
     return "";
   });
-  return { fetchJson, fetchText };
+  // Real breaker helpers (trackCircuitTrips); only the requests are faked
+  return {
+    ...(await importOriginal<typeof import("./http")>()),
+    fetchJson,
+    fetchText,
+  };
 });
 
-import { runFetchers } from "./fetchers";
+import { invalidateScore, runFetchers } from "./fetchers";
 
 const baseCtx = {
   movie: { imdbId: "tt1", title: "Test Movie" },
@@ -110,6 +125,95 @@ describe("runFetchers", () => {
     expect(mc?.fromFallback).toBe(true);
   });
 
+  it("scores the Metacritic user score from the same page", async () => {
+    const { fetchText } = await import("./http");
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url === "https://www.metacritic.com/movie/test-movie/")
+        return (
+          'c-productScoreInfo_scoreNumber"><div title="Metascore 85 out of 100">' +
+          " Based on 42 Critic Reviews" +
+          '<div title="User score 7.9 out of 10"> Based on 1,204 User Ratings'
+        );
+      return origImpl(url, opts as never);
+    });
+
+    const { payload: res } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-mc-user" },
+    });
+    mockedFetchText.mockImplementation(origImpl);
+
+    const mc = res.sources.find((s) => s.source === "metacritic");
+    expect(mc?.normalized).toBe(85);
+    const mcUser = res.sources.find((s) => s.source === "metacritic_user");
+    expect(mcUser?.normalized).toBeCloseTo(79); // 7.9/10 * 100
+    expect(mcUser?.count).toBe(1204);
+    expect(mcUser?.url).toBe("https://www.metacritic.com/movie/test-movie");
+  });
+
+  it("keeps the Metacritic user score when the Metascore falls back to OMDb", async () => {
+    const { fetchText } = await import("./http");
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url.includes("metacritic.com"))
+        return (
+          'c-productScoreInfo_scoreNumber"><div title="Metascore TBD">' +
+          '<div title="User score 6.1 out of 10"> Based on 88 User Ratings'
+        );
+      if (url.includes("criticreviews")) return "";
+      return origImpl(url, opts as never);
+    });
+
+    const { payload: res } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-mc-tbd" },
+    });
+    mockedFetchText.mockImplementation(origImpl);
+
+    const mc = res.sources.find((s) => s.source === "metacritic");
+    expect(mc?.normalized).toBe(73);
+    expect(mc?.fromFallback).toBe(true);
+    const mcUser = res.sources.find((s) => s.source === "metacritic_user");
+    expect(mcUser?.normalized).toBeCloseTo(61);
+    expect(mcUser?.count).toBe(88);
+  });
+
+  it("scores MUBI from its Wikidata film ID", async () => {
+    const { fetchText } = await import("./http");
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url === "https://mubi.com/films/1008")
+        return '"average_rating_out_of_ten":8.4,"number_of_ratings":93871';
+      return origImpl(url, opts as never);
+    });
+
+    const { payload: res } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-mubi" },
+      wikidata: { ...baseCtx.wikidata, mubi: "1008" },
+    });
+    mockedFetchText.mockImplementation(origImpl);
+
+    const mubi = res.sources.find((s) => s.source === "mubi");
+    expect(mubi?.normalized).toBeCloseTo(84); // 8.4/10 * 100
+    expect(mubi?.count).toBe(93871);
+    expect(mubi?.url).toBe("https://mubi.com/films/1008");
+  });
+
+  it("reports MUBI without an error when Wikidata has no MUBI ID", async () => {
+    const { payload: res } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-no-mubi" },
+    });
+    const mubi = res.sources.find((s) => s.source === "mubi");
+    expect(mubi?.normalized).toBeNull();
+    expect(mubi?.error).toBeUndefined();
+  });
+
   it("uses OMDb RT fallback when RT returns 200 but no score data", async () => {
     // This tests the bug where RT returns HTTP 200 with missing meterScore
     // and no scores can be scraped - the OMDB fallback should trigger
@@ -139,8 +243,9 @@ describe("runFetchers", () => {
     const { fetchText } = await import("./http");
     const mockedFetchText = vi.mocked(fetchText);
     mockedFetchText.mockImplementation(async (url: string) => {
-      // RT HTML scrape also returns no data
-      if (url.includes("rottentomatoes")) return "<html>no data</html>";
+      // RT HTML scrape also returns no data: a film page with no scoreboard
+      if (url.includes("rottentomatoes"))
+        return '<script type="application/ld+json">{"@type":"Movie"}</script>';
       if (url.includes("letterboxd"))
         return '"ratingValue":4.1,"ratingCount":50000';
       if (url.includes("metacritic"))
@@ -212,6 +317,143 @@ describe("runFetchers", () => {
     expect(persistScores).toHaveBeenCalledWith(kvPayload, { backfill: true });
   });
 
+  it("prefers a stored manual override over the Wikidata slug", async () => {
+    const { getSourceIds } = await import("@/db/source-ids");
+    const { fetchText } = await import("./http");
+    vi.mocked(getSourceIds).mockResolvedValueOnce({
+      overrides: { letterboxd: "fixed-slug" },
+      resolved: {},
+    });
+
+    const { payload } = await runFetchers({
+      ...baseCtx,
+      movie: { imdbId: "tt-override", title: "Override Movie" },
+    });
+
+    const lb = payload.sources.find((s) => s.source === "letterboxd");
+    expect(lb?.url).toBe("https://letterboxd.com/film/fixed-slug/");
+    expect(vi.mocked(fetchText)).toHaveBeenCalledWith(
+      "https://letterboxd.com/film/fixed-slug/",
+      expect.anything(),
+    );
+  });
+
+  it("remembers slugs guessed without Wikidata once they score", async () => {
+    const { saveResolvedSourceIds } = await import("@/db/source-ids");
+
+    const { deferred } = await runFetchers({
+      ...baseCtx,
+      movie: { imdbId: "tt-guess", title: "Guess Movie", year: "2001" },
+      wikidata: { ...baseCtx.wikidata, letterboxd: undefined },
+    });
+    await deferred();
+
+    expect(saveResolvedSourceIds).toHaveBeenCalledWith("tt-guess", [
+      {
+        key: "letterboxd",
+        id: "guess-movie-2001",
+        method: "slug_guess",
+        confidence: "low",
+      },
+    ]);
+  });
+
+  it("rejects a guessed slug whose page is a different film", async () => {
+    const { fetchText } = await import("./http");
+    const { saveResolvedSourceIds } = await import("@/db/source-ids");
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url === "https://letterboxd.com/film/remade-movie-2024/")
+        return '<meta property="og:title" content="Remade Movie (1962)" />"ratingValue":3.2,"ratingCount":900';
+      return origImpl(url, opts as never);
+    });
+
+    const { payload, deferred } = await runFetchers({
+      ...baseCtx,
+      movie: { imdbId: "tt-remake", title: "Remade Movie", year: "2024" },
+      wikidata: { ...baseCtx.wikidata, letterboxd: undefined },
+    });
+    await deferred();
+
+    const lb = payload.sources.find((s) => s.source === "letterboxd");
+    expect(lb?.normalized).toBeNull();
+    expect(lb?.error).toMatch(
+      /^Slug mismatch: page is "Remade Movie" \(1962\)/,
+    );
+    expect(lb?.errorCode).toBe("slug_mismatch");
+    // The rejected candidate is kept for debugging
+    expect(lb?.url).toBe("https://letterboxd.com/film/remade-movie-2024/");
+    expect(saveResolvedSourceIds).toHaveBeenCalledWith("tt-remake", []);
+
+    mockedFetchText.mockImplementation(origImpl);
+  });
+
+  it("names a host whose circuit is open in the score error", async () => {
+    const http = await vi.importActual<typeof import("./http")>("./http");
+    const { fetchJson, fetchText } = await import("./http");
+    http._resetCircuitBreaker();
+    // Lift Douban's throttle so the five requests below aren't paced
+    process.env.HTTP_HOST_LIMITS =
+      '{"douban.com":{"burst":10,"maxInFlight":5}}';
+    http._resetHostLimiter();
+
+    // Trip movie.douban.com's circuit with real requests answered by 403s
+    const originalFetch = global.fetch;
+    global.fetch = vi.fn(
+      async () => new Response("", { status: 403, statusText: "Forbidden" }),
+    );
+    for (let i = 0; i < 5; i++) {
+      await http.fetchText("https://movie.douban.com/").catch(() => {});
+    }
+    global.fetch = originalFetch;
+
+    // Douban's own requests now go through the real (tripped) breaker
+    const origJson = vi.mocked(fetchJson).getMockImplementation()!;
+    const origText = vi.mocked(fetchText).getMockImplementation()!;
+    vi.mocked(fetchJson).mockImplementation(async (url, init, timeout) =>
+      url.includes("movie.douban.com")
+        ? http.fetchJson(url, init, timeout)
+        : origJson(url, init, timeout),
+    );
+    vi.mocked(fetchText).mockImplementation(async (url, init, timeout) =>
+      url.includes("movie.douban.com")
+        ? http.fetchText(url, init, timeout)
+        : origText(url, init, timeout),
+    );
+
+    const { payload } = await runFetchers({
+      ...baseCtx,
+      movie: { imdbId: "tt-tripped", title: "Tripped Movie" },
+    });
+
+    const douban = payload.sources.find((s) => s.source === "douban");
+    expect(douban?.normalized).toBeNull();
+    expect(douban?.error).toBe("Circuit open for movie.douban.com");
+    expect(douban?.errorCode).toBe("unavailable");
+    // Other sources are untouched
+    const lb = payload.sources.find((s) => s.source === "letterboxd");
+    expect(lb?.error).toBeUndefined();
+
+    // Without a Wikidata ID the waterfall swallows each failure and reports
+    // a stable no_id — not rewritten into a circuit failure
+    const { payload: noId } = await runFetchers({
+      ...baseCtx,
+      movie: { imdbId: "tt-tripped-no-id", title: "Tripped Movie" },
+      wikidata: { ...baseCtx.wikidata, douban: undefined },
+    });
+    expect(noId.sources.find((s) => s.source === "douban")).toMatchObject({
+      error: "Could not find Douban ID",
+      errorCode: "no_id",
+    });
+
+    vi.mocked(fetchJson).mockImplementation(origJson);
+    vi.mocked(fetchText).mockImplementation(origText);
+    http._resetCircuitBreaker();
+    delete process.env.HTTP_HOST_LIMITS;
+    http._resetHostLimiter();
+  });
+
   it("persists in-memory cached data to Postgres as backfill (insert-if-absent)", async () => {
     const { persistScores } = await import("@/db/persist");
     const movie = {
@@ -240,13 +482,85 @@ describe("runFetchers", () => {
     expect(persistScores).toHaveBeenCalledWith(payload, { backfill: true });
   });
 
+  it("re-fetches after the film's score is invalidated", async () => {
+    const { fetchText } = await import("./http");
+    const movie = { imdbId: "tt-invalidate", title: "Invalidate Movie" };
+
+    await runFetchers({ ...baseCtx, movie });
+    const fetchesPerRun = vi.mocked(fetchText).mock.calls.length;
+    await runFetchers({ ...baseCtx, movie });
+    expect(vi.mocked(fetchText).mock.calls.length).toBe(fetchesPerRun);
+
+    await invalidateScore(movie.imdbId);
+    await runFetchers({ ...baseCtx, movie });
+    expect(vi.mocked(fetchText).mock.calls.length).toBe(fetchesPerRun * 2);
+  });
+
   it("skips KV write when a transient failure occurred", async () => {
+    const { fetchText, HttpError } = await import("./http");
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url.includes("letterboxd.com/film/")) {
+        throw new HttpError(403, "Forbidden");
+      }
+      return origImpl(url, opts as never);
+    });
+    const mockKvGet = vi.fn().mockResolvedValue(null);
+    const mockKvSet = vi.fn().mockResolvedValue(undefined);
+
+    const { payload: res, deferred } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-degraded" },
+      kvGet: mockKvGet,
+      kvSet: mockKvSet,
+    });
+
+    await deferred();
+
+    const lb = res.sources.find((s) => s.source === "letterboxd");
+    expect(lb?.error).toBe("Request failed: 403 Forbidden");
+    expect(lb?.errorCode).toBe("blocked");
+    expect(mockKvGet).toHaveBeenCalledWith("tt-degraded");
+    expect(mockKvSet).not.toHaveBeenCalled();
+
+    mockedFetchText.mockImplementation(origImpl);
+  });
+
+  it("writes to KV when only an optional source failed transiently", async () => {
+    const { fetchText, HttpError } = await import("./http");
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url.includes("mubi.com"))
+        throw new HttpError(429, "Too Many Requests");
+      return origImpl(url, opts as never);
+    });
+    const mockKvSet = vi.fn().mockResolvedValue(undefined);
+
+    const { payload: res, deferred } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-mubi-limited" },
+      wikidata: { ...baseCtx.wikidata, mubi: "1008" },
+      kvGet: vi.fn().mockResolvedValue(null),
+      kvSet: mockKvSet,
+    });
+    mockedFetchText.mockImplementation(origImpl);
+
+    await deferred();
+
+    const mubi = res.sources.find((s) => s.source === "mubi");
+    expect(mubi?.errorCode).toBe("rate_limited");
+    expect(mockKvSet).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes to KV when every failure is a stable answer (no IDs, no data)", async () => {
     const mockKvGet = vi.fn().mockResolvedValue(null);
     const mockKvSet = vi.fn().mockResolvedValue(undefined);
 
-    // No wikidata slugs + no OMDB key = most sources fail with non-absent errors
+    // No Wikidata IDs and no OMDB key: the failures would repeat on a retry
     const { payload: res, deferred } = await runFetchers({
-      movie: { imdbId: "tt-degraded", title: "Degraded Movie", year: "1994" },
+      movie: { imdbId: "tt-no-ids", title: "No IDs Movie", year: "1994" },
       wikidata: {},
       env: {},
       kvGet: mockKvGet,
@@ -255,9 +569,55 @@ describe("runFetchers", () => {
 
     await deferred();
 
-    expect(res.missingSources!.length).toBeGreaterThan(0);
-    expect(mockKvGet).toHaveBeenCalledWith("tt-degraded");
+    const codes = new Set(
+      res.sources.filter((s) => s.error != null).map((s) => s.errorCode),
+    );
+    expect(codes).toEqual(new Set(["no_id", "no_data"]));
+    expect(mockKvSet).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a page with none of its parser anchors as parse_failed", async () => {
+    const { fetchText } = await import("./http");
+    const { recordPageChecks } = await import("@/db/parser-drift");
+    const { log } = await import("./logger");
+    const warn = vi.spyOn(log, "warn").mockImplementation(() => {});
+    const mockedFetchText = vi.mocked(fetchText);
+    const origImpl = mockedFetchText.getMockImplementation()!;
+    mockedFetchText.mockImplementation(async (url: string, opts?: unknown) => {
+      if (url.includes("allocine.fr"))
+        return '<main class="film-ratings"><b>4,0</b></main>';
+      return origImpl(url, opts as never);
+    });
+    const mockKvSet = vi.fn().mockResolvedValue(undefined);
+
+    const { payload: res, deferred } = await runFetchers({
+      ...baseCtx,
+      movie: { ...baseCtx.movie, imdbId: "tt-drifted" },
+      kvGet: vi.fn().mockResolvedValue(null),
+      kvSet: mockKvSet,
+    });
+    await deferred();
+
+    const allocine = res.sources.filter((s) => s.source.startsWith("allocine"));
+    expect(allocine.map((s) => s.errorCode)).toEqual([
+      "parse_failed",
+      "parse_failed",
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      "parser_drift",
+      expect.objectContaining({ source: "allocine" }),
+    );
+    // Unlike a page with no rating, a drifted page isn't cached
     expect(mockKvSet).not.toHaveBeenCalled();
+    expect(recordPageChecks).toHaveBeenCalledWith(
+      expect.arrayContaining([
+        { source: "allocine", drifted: true },
+        { source: "letterboxd", drifted: false },
+      ]),
+    );
+
+    mockedFetchText.mockImplementation(origImpl);
+    warn.mockRestore();
   });
 
   it("writes to KV when missing sources have no error (scraper ran clean, no data)", async () => {
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  DEFAULT_HOST_LIMIT,
+  HOST_LIMITS,
+  HostLimiter,
+  hostLimitsFromEnv,
+  type HostLimit,
+} from "./host-limiter";
+import { log } from "./logger";
+
+function makeLimiter(limit: HostLimit, queueWarnMs = 10_000) {
+  return new HostLimiter({
+    defaultLimit: DEFAULT_HOST_LIMIT,
+    limits: { "letterboxd.com": limit },
+    queueWarnMs,
+  });
+}
+
+// Settle promise callbacks without moving the clock
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe("HostLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("lets a burst through, then spaces requests at the rate", async () => {
+    const limiter = makeLimiter({ ratePerSec: 2, burst: 2, maxInFlight: 10 });
+    const granted: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      void limiter.acquire("letterboxd.com").then((release) => {
+        granted.push(i);
+        release();
+      });
+    }
+
+    await flush();
+    expect(granted).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2, 3]);
+  });
+
+  it("caps requests in flight and serves waiters in order", async () => {
+    const limiter = makeLimiter({
+      ratePerSec: 100,
+      burst: 100,
+      maxInFlight: 1,
+    });
+    const releases: Array<() => void> = [];
+    const granted: string[] = [];
+    for (const name of ["a", "b", "c"]) {
+      void limiter.acquire("letterboxd.com").then((release) => {
+        granted.push(name);
+        releases.push(release);
+      });
+    }
+
+    await flush();
+    expect(granted).toEqual(["a"]);
+    releases[0]();
+    releases[0](); // releasing twice frees one slot only
+    await flush();
+    expect(granted).toEqual(["a", "b"]);
+    releases[1]();
+    await flush();
+    expect(granted).toEqual(["a", "b", "c"]);
+  });
+
+  it("shares one limit across a domain's subdomains", async () => {
+    const limiter = makeLimiter({ ratePerSec: 1, burst: 1, maxInFlight: 10 });
+    const granted: string[] = [];
+    for (const host of ["letterboxd.com", "www.letterboxd.com"]) {
+      void limiter.acquire(host).then(() => granted.push(host));
+    }
+    // Unconfigured hosts get the default limit of their own
+    void limiter.acquire("api.themoviedb.org").then(() => granted.push("tmdb"));
+
+    await flush();
+    expect(granted).toEqual(["letterboxd.com", "tmdb"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toContain("www.letterboxd.com");
+  });
+
+  it("drops an aborted waiter from the queue", async () => {
+    const limiter = makeLimiter({
+      ratePerSec: 100,
+      burst: 100,
+      maxInFlight: 1,
+    });
+    const first = await limiter.acquire("letterboxd.com");
+    const controller = new AbortController();
+    const aborted = limiter.acquire("letterboxd.com", controller.signal);
+    const next = vi.fn();
+    void limiter.acquire("letterboxd.com").then(next);
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    first();
+    await flush();
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects immediately when the signal is already aborted", async () => {
+    const limiter = makeLimiter({ ratePerSec: 1, burst: 1, maxInFlight: 1 });
+
+    await expect(
+      limiter.acquire("letterboxd.com", AbortSignal.abort()),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("logs requests that waited longer than the threshold", async () => {
+    const warn = vi.spyOn(log, "warn").mockImplementation(() => {});
+    const limiter = makeLimiter(
+      { ratePerSec: 1, burst: 1, maxInFlight: 10 },
+      1500,
+    );
+    for (let i = 0; i < 3; i++) void limiter.acquire("www.letterboxd.com");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(warn).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(warn).toHaveBeenCalledWith("http_queue_wait", {
+      host: "letterboxd.com",
+      waitedMs: 2000,
+      queued: 0,
+      inFlight: 3,
+    });
+  });
+});
+
+describe("hostLimitsFromEnv", () => {
+  it("defaults to the built-in limits", () => {
+    expect(hostLimitsFromEnv({})).toEqual({
+      defaultLimit: DEFAULT_HOST_LIMIT,
+      limits: HOST_LIMITS,
+      queueWarnMs: 2000,
+    });
+  });
+
+  it("merges per-domain overrides and a '*' default", () => {
+    const options = hostLimitsFromEnv({
+      HTTP_HOST_LIMITS: JSON.stringify({
+        "letterboxd.com": { ratePerSec: 1, maxInFlight: 1 },
+        "*": { ratePerSec: 5, burst: 5, maxInFlight: 4 },
+        "bad.example": { ratePerSec: 0 },
+        "tiny.example": { burst: 0.5 },
+      }),
+      HTTP_QUEUE_WARN_MS: "500",
+    });
+
+    expect(options.limits["letterboxd.com"]).toEqual({
+      ratePerSec: 1,
+      burst: HOST_LIMITS["letterboxd.com"].burst,
+      maxInFlight: 1,
+    });
+    expect(options.limits["douban.com"]).toEqual(HOST_LIMITS["douban.com"]);
+    expect(options.limits["bad.example"]).toBeUndefined();
+    expect(options.limits["tiny.example"]).toBeUndefined();
+    expect(options.defaultLimit).toEqual({
+      ratePerSec: 5,
+      burst: 5,
+      maxInFlight: 4,
+    });
+    expect(options.queueWarnMs).toBe(500);
+  });
+
+  it("ignores malformed JSON", () => {
+    expect(hostLimitsFromEnv({ HTTP_HOST_LIMITS: "{not json" }).limits).toEqual(
+      HOST_LIMITS,
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import { log } from "./logger";
+
+/** Throttle for one domain: a token bucket plus a cap on concurrent requests. */
+export type HostLimit = {
+  ratePerSec: number; // sustained requests per second
+  burst: number; // bucket size: requests allowed back to back
+  maxInFlight: number;
+};
+
+export type HostLimiterOptions = {
+  defaultLimit: HostLimit;
+  // Keyed by domain; a key matches the domain itself and its subdomains
+  limits: Record<string, HostLimit>;
+  queueWarnMs: number; // log requests that waited longer than this
+};
+
+export const DEFAULT_HOST_LIMIT: HostLimit = {
+  ratePerSec: 10,
+  burst: 10,
+  maxInFlight: 8,
+};
+
+// Scraped sites that block aggressive clients; APIs keep the default
+export const HOST_LIMITS: Record<string, HostLimit> = {
+  "letterboxd.com": { ratePerSec: 2, burst: 4, maxInFlight: 2 },
+  "allocine.fr": { ratePerSec: 1, burst: 3, maxInFlight: 2 },
+  "douban.com": { ratePerSec: 1, burst: 3, maxInFlight: 1 },
+};
+
+export const DEFAULT_QUEUE_WARN_MS = 2000;
+
+type Waiter = {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  reject: (err: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+type HostBucket = {
+  limit: HostLimit;
+  tokens: number;
+  refilledAt: number;
+  inFlight: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null; // wakes the queue for a token
+};
+
+function createAbortError(): Error {
+  const err = new Error("The operation was aborted");
+  err.name = "AbortError";
+  return err;
+}
+
+/**
+ * Per-domain throttle for outbound requests. `acquire` resolves once the
+ * domain has both a token and a free in-flight slot; waiters are served
+ * strictly first come, first served, and leave the queue when aborted.
+ */
+export class HostLimiter {
+  private buckets = new Map<string, HostBucket>();
+
+  constructor(
+    private options: HostLimiterOptions = {
+      defaultLimit: DEFAULT_HOST_LIMIT,
+      limits: HOST_LIMITS,
+      queueWarnMs: DEFAULT_QUEUE_WARN_MS,
+    },
+  ) {}
+
+  /** The configured domain covering `host`, or the host itself. */
+  private keyFor(host: string): { key: string; limit: HostLimit } {
+    for (const [domain, limit] of Object.entries(this.options.limits)) {
+      if (host === domain || host.endsWith(`.${domain}`)) {
+        return { key: domain, limit };
+      }
+    }
+    return { key: host, limit: this.options.defaultLimit };
+  }
+
+  /** Wait for a slot; call the returned function when the request is done. */
+  acquire(host: string, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const { key, limit } = this.keyFor(host);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        limit,
+        tokens: limit.burst,
+        refilledAt: Date.now(),
+        inFlight: 0,
+        queue: [],
+        timer: null,
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        signal,
+      };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = bucket.queue.indexOf(waiter);
+          if (index !== -1) bucket.queue.splice(index, 1);
+          reject(createAbortError());
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      bucket.queue.push(waiter);
+      this.drain(key, bucket);
+    });
+  }
+
+  private refill(bucket: HostBucket): void {
+    const now = Date.now();
+    const earned = ((now - bucket.refilledAt) / 1000) * bucket.limit.ratePerSec;
+    bucket.tokens = Math.min(bucket.limit.burst, bucket.tokens + earned);
+    bucket.refilledAt = now;
+  }
+
+  private drain(key: string, bucket: HostBucket): void {
+    this.refill(bucket);
+    while (
+      bucket.queue.length > 0 &&
+      bucket.inFlight < bucket.limit.maxInFlight
+    ) {
+      if (bucket.tokens < 1) {
+        // Wake up when the next token is due (unless already scheduled)
+        if (!bucket.timer) {
+          const waitMs = ((1 - bucket.tokens) / bucket.limit.ratePerSec) * 1000;
+          bucket.timer = setTimeout(() => {
+            bucket.timer = null;
+            this.drain(key, bucket);
+          }, Math.ceil(waitMs));
+        }
+        return;
+      }
+
+      const waiter = bucket.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      }
+      bucket.tokens -= 1;
+      bucket.inFlight += 1;
+
+      const waitedMs = Date.now() - waiter.enqueuedAt;
+      if (waitedMs > this.options.queueWarnMs) {
+        log.warn("http_queue_wait", {
+          host: key,
+          waitedMs,
+          queued: bucket.queue.length,
+          inFlight: bucket.inFlight,
+        });
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        bucket.inFlight -= 1;
+        this.drain(key, bucket);
+      });
+    }
+  }
+}
+
+// Fields left out keep the domain's current limit
+function parseHostLimit(value: unknown, base: HostLimit): HostLimit | null {
+  if (typeof value !== "object" || value === null) return null;
+  const limit = { ...base, ...(value as Partial<HostLimit>) };
+  const valid = [limit.ratePerSec, limit.burst, limit.maxInFlight].every(
+    (n) => typeof n === "number" && Number.isFinite(n) && n > 0,
+  );
+  // A request takes a whole token, so a bucket smaller than one never fills
+  return valid && limit.burst >= 1 ? limit : null;
+}
+
+/**
+ * Options from HTTP_HOST_LIMITS — JSON such as
+ * `{"letterboxd.com":{"ratePerSec":1,"maxInFlight":1}}`, merged over
+ * `HOST_LIMITS` (a `"*"` key replaces the default) — and HTTP_QUEUE_WARN_MS.
+ */
+export function hostLimitsFromEnv(
+  env: Record<string, string | undefined>,
+): HostLimiterOptions {
+  const limits = { ...HOST_LIMITS };
+  let defaultLimit = DEFAULT_HOST_LIMIT;
+
+  if (env.HTTP_HOST_LIMITS) {
+    try {
+      const parsed = JSON.parse(env.HTTP_HOST_LIMITS) as Record<
+        string,
+        unknown
+      >;
+      for (const [domain, value] of Object.entries(parsed)) {
+        const base = domain === "*" ? defaultLimit : limits[domain];
+        const limit = parseHostLimit(value, base ?? defaultLimit);
+        if (!limit) {
+          log.warn("http_host_limit_invalid", { domain });
+        } else if (domain === "*") {
+          defaultLimit = limit;
+        } else {
+          limits[domain] = limit;
+        }
+      }
+    } catch (err) {
+      log.warn("http_host_limit_invalid", { error: (err as Error).message });
+    }
+  }
+
+  const warnMs = Number.parseInt(env.HTTP_QUEUE_WARN_MS ?? "", 10);
+  return {
+    defaultLimit,
+    limits,
+    queueWarnMs:
+      Number.isFinite(warnMs) && warnMs >= 0 ? warnMs : DEFAULT_QUEUE_WARN_MS,
+  };
+}
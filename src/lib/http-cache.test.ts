@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockGet = vi.fn();
+const mockSet = vi.fn();
+
+vi.mock("@upstash/redis", () => ({
+  Redis: vi.fn().mockImplementation(() => ({ get: mockGet, set: mockSet })),
+}));
+
+import { Redis } from "@upstash/redis";
+import {
+  conditionalHeaders,
+  fromCachedResponse,
+  httpCacheFromEnv,
+  httpCacheKey,
+  isCacheableRequest,
+  memoryHttpCacheStore,
+  redisHttpCacheStore,
+  toCachedResponse,
+  type CachedResponse,
+} from "./http-cache";
+import { _resetKvClient } from "./kv";
+
+const entry: CachedResponse = {
+  url: "https://letterboxd.com/film/inception/",
+  etag: 'W/"abc"',
+  lastModified: "Tue, 01 Sep 2026 10:00:00 GMT",
+  contentType: "text/html; charset=utf-8",
+  body: "<html>",
+  storedAt: "2026-09-01T10:00:00.000Z",
+};
+
+describe("httpCacheKey", () => {
+  it("ignores the API key but not the request headers", () => {
+    const url = "https://api.themoviedb.org/3/movie/27205";
+    expect(httpCacheKey(`${url}?api_key=one`)).toBe(
+      httpCacheKey(`${url}?api_key=two`),
+    );
+    expect(
+      httpCacheKey(url, { headers: { "accept-language": "fr-FR" } }),
+    ).not.toBe(httpCacheKey(url, { headers: { "accept-language": "en-US" } }));
+  });
+});
+
+describe("isCacheableRequest", () => {
+  it("only caches plain GETs", () => {
+    expect(isCacheableRequest()).toBe(true);
+    expect(isCacheableRequest({ method: "get" })).toBe(true);
+    expect(isCacheableRequest({ method: "POST", body: "{}" })).toBe(false);
+  });
+});
+
+describe("toCachedResponse / fromCachedResponse", () => {
+  it("keeps responses that carry a validator", () => {
+    const res = new Response("<html>", {
+      headers: { etag: 'W/"abc"', "content-type": "text/html" },
+    });
+    expect(
+      toCachedResponse(
+        "https://letterboxd.com/film/x/?key=s3cret",
+        res,
+        "<html>",
+      ),
+    ).toMatchObject({
+      url: "https://letterboxd.com/film/x/?key=REDACTED",
+      etag: 'W/"abc"',
+      lastModified: null,
+      contentType: "text/html",
+      body: "<html>",
+    });
+  });
+
+  it("skips responses that could never be revalidated", () => {
+    expect(
+      toCachedResponse("https://x.test/", new Response("body"), "body"),
+    ).toBeNull();
+  });
+
+  it("skips bodies over the 64k-character cap", () => {
+    const res = new Response(null, { headers: { etag: 'W/"abc"' } });
+    expect(
+      toCachedResponse("https://x.test/", res, "x".repeat(64_000)),
+    ).not.toBeNull();
+    expect(
+      toCachedResponse("https://x.test/", res, "x".repeat(64_001)),
+    ).toBeNull();
+  });
+
+  it("sends both validators and answers with the stored body", async () => {
+    expect(conditionalHeaders(entry)).toEqual({
+      "if-none-match": 'W/"abc"',
+      "if-modified-since": "Tue, 01 Sep 2026 10:00:00 GMT",
+    });
+    const res = fromCachedResponse(entry);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/html; charset=utf-8");
+    expect(await res.text()).toBe("<html>");
+  });
+});
+
+describe("memoryHttpCacheStore", () => {
+  it("evicts the least recently used entry", async () => {
+    const store = memoryHttpCacheStore(2);
+    await store.set("a", entry);
+    await store.set("b", entry);
+    await store.get("a");
+    await store.set("c", entry);
+
+    expect(await store.get("a")).toEqual(entry);
+    expect(await store.get("b")).toBeNull();
+  });
+
+  it("holds 50 entries by default", async () => {
+    const store = memoryHttpCacheStore();
+    for (let i = 0; i <= 50; i++) await store.set(`k${i}`, entry);
+
+    expect(await store.get("k0")).toBeNull();
+    expect(await store.get("k1")).toEqual(entry);
+    expect(await store.get("k50")).toEqual(entry);
+  });
+});
+
+describe("redisHttpCacheStore", () => {
+  beforeEach(() => {
+    mockGet.mockReset();
+    mockSet.mockReset();
+  });
+
+  it("namespaces keys and sets a TTL", async () => {
+    const store = redisHttpCacheStore(new Redis({ url: "u", token: "t" }));
+    mockGet.mockResolvedValue(entry);
+
+    await store.set("k", entry);
+    expect(await store.get("k")).toEqual(entry);
+    expect(mockSet).toHaveBeenCalledWith("http:k", entry, {
+      ex: 30 * 24 * 60 * 60,
+    });
+    expect(mockGet).toHaveBeenCalledWith("http:k");
+  });
+
+  it("degrades to a miss when Redis fails", async () => {
+    const store = redisHttpCacheStore(new Redis({ url: "u", token: "t" }));
+    mockGet.mockRejectedValue(new Error("ECONNREFUSED"));
+    mockSet.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    expect(await store.get("k")).toBeNull();
+    await expect(store.set("k", entry)).resolves.toBeUndefined();
+  });
+});
+
+describe("httpCacheFromEnv", () => {
+  beforeEach(() => {
+    _resetKvClient();
+    vi.mocked(Redis).mockClear();
+  });
+
+  afterEach(() => {
+    delete process.env.KV_REST_API_URL;
+    delete process.env.KV_REST_API_TOKEN;
+    _resetKvClient();
+  });
+
+  it("defaults to memory even when Redis is configured", () => {
+    process.env.KV_REST_API_URL = "https://fake.upstash.io";
+    process.env.KV_REST_API_TOKEN = "fake-token";
+
+    expect(httpCacheFromEnv({})).not.toBeNull();
+    expect(httpCacheFromEnv({ HTTP_CACHE: "memory" })).not.toBeNull();
+    expect(Redis).not.toHaveBeenCalled();
+  });
+
+  it("uses Redis only when asked for, memory when it isn't configured", () => {
+    expect(httpCacheFromEnv({ HTTP_CACHE: "redis" })).not.toBeNull();
+    expect(Redis).not.toHaveBeenCalled();
+
+    _resetKvClient();
+    process.env.KV_REST_API_URL = "https://fake.upstash.io";
+    process.env.KV_REST_API_TOKEN = "fake-token";
+    expect(httpCacheFromEnv({ HTTP_CACHE: "redis" })).not.toBeNull();
+    expect(Redis).toHaveBeenCalledTimes(1);
+  });
+
+  it("can be turned off", () => {
+    expect(httpCacheFromEnv({ HTTP_CACHE: "off" })).toBeNull();
+  });
+
+  it("is bypassed while recording fixtures", () => {
+    expect(httpCacheFromEnv({ HTTP_TRANSPORT: "record" })).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { createHash } from "node:crypto";
+import type { Redis } from "@upstash/redis";
+import { LRUCache } from "./cache";
+import { getRedisClient } from "./kv";
+import { redactUrl } from "./redact-url";
+import { log } from "./logger";
+
+/** A response body kept with the validators needed to revalidate it. */
+export type CachedResponse = {
+  url: string; // redacted
+  etag: string | null;
+  lastModified: string | null;
+  contentType: string | null;
+  body: string;
+  storedAt: string;
+};
+
+/** Where cached responses live; implementations never throw. */
+export type HttpCacheStore = {
+  get: (key: string) => Promise<CachedResponse | null>;
+  set: (key: string, entry: CachedResponse) => Promise<void>;
+};
+
+export type HttpCacheMode = "off" | "memory" | "redis";
+
+// Validators stay useful for a long time: a 304 costs no body either way
+const HTTP_CACHE_TTL_SEC = 30 * 24 * 60 * 60;
+// The memory store is on by default, so it stays small: at most 50 bodies of
+// 64k characters, about 3.2M characters (under 7 MB) per process
+const MEMORY_MAX_ENTRIES = 50;
+// Larger pages are fetched in full every time. Also far under Upstash's 1 MB
+// request limit, leaving room for JSON escaping and multi-byte characters
+const MAX_CACHED_BODY_CHARS = 64_000;
+
+export function memoryHttpCacheStore(
+  maxEntries: number = MEMORY_MAX_ENTRIES,
+): HttpCacheStore {
+  const cache = new LRUCache<CachedResponse>(
+    HTTP_CACHE_TTL_SEC * 1000,
+    maxEntries,
+  );
+  return {
+    get: async (key) => cache.get(key),
+    set: async (key, entry) => cache.set(key, entry),
+  };
+}
+
+export function redisHttpCacheStore(client: Redis): HttpCacheStore {
+  const redisKey = (key: string) => `http:${key}`;
+  return {
+    async get(key) {
+      try {
+        return (await client.get<CachedResponse>(redisKey(key))) ?? null;
+      } catch (err) {
+        log.warn("http_cache_get_failed", { error: (err as Error).message });
+        return null;
+      }
+    },
+    async set(key, entry) {
+      try {
+        await client.set(redisKey(key), entry, { ex: HTTP_CACHE_TTL_SEC });
+      } catch (err) {
+        log.warn("http_cache_set_failed", { error: (err as Error).message });
+      }
+    },
+  };
+}
+
+// ─── Request / response helpers ──────────────────────────────────────────────
+
+/** Only plain GETs are cached; anything with a body (GraphQL POSTs) is not. */
+export function isCacheableRequest(init: RequestInit = {}): boolean {
+  const method = (init.method ?? "GET").toUpperCase();
+  return method === "GET" && init.body == null;
+}
+
+/** Keyed by redacted URL and request headers (Accept-Language changes pages). */
+export function httpCacheKey(url: string, init: RequestInit = {}): string {
+  const headers = [...new Headers(init.headers).entries()].sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+  return createHash("sha256")
+    .update(`${redactUrl(url)}\n${JSON.stringify(headers)}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+export function conditionalHeaders(
+  entry: CachedResponse,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers["if-none-match"] = entry.etag;
+  if (entry.lastModified) headers["if-modified-since"] = entry.lastModified;
+  return headers;
+}
+
+/** The entry to store for a 200, or null when it can't be revalidated later. */
+export function toCachedResponse(
+  url: string,
+  res: Response,
+  body: string,
+): CachedResponse | null {
+  const etag = res.headers?.get("etag") ?? null;
+  const lastModified = res.headers?.get("last-modified") ?? null;
+  if ((!etag && !lastModified) || body.length > MAX_CACHED_BODY_CHARS) {
+    return null;
+  }
+  return {
+    url: redactUrl(url),
+    etag,
+    lastModified,
+    contentType: res.headers?.get("content-type") ?? null,
+    body,
+    storedAt: new Date().toISOString(),
+  };
+}
+
+export function hasValidators(res: Response): boolean {
+  return Boolean(res.headers?.get("etag") || res.headers?.get("last-modified"));
+}
+
+/** What a 304 is answered with: the stored body as a fresh 200. */
+export function fromCachedResponse(entry: CachedResponse): Response {
+  const headers: Record<string, string> = {};
+  if (entry.contentType) headers["content-type"] = entry.contentType;
+  if (entry.etag) headers["etag"] = entry.etag;
+  if (entry.lastModified) headers["last-modified"] = entry.lastModified;
+  return new Response(entry.body, { status: 200, headers });
+}
+
+export function isHttpCacheMode(value: unknown): value is HttpCacheMode {
+  return value === "off" || value === "memory" || value === "redis";
+}
+
+/**
+ * The store selected by `HTTP_CACHE` ("off" / "memory" / "redis"). Unset means
+ * memory: Redis shares its quota with the score cache, so it's opt-in.
+ * Recording fixtures always bypasses the cache so captures hold full bodies,
+ * never a bare 304.
+ */
+export function httpCacheFromEnv(
+  env: Record<string, string | undefined>,
+): HttpCacheStore | null {
+  if (env.HTTP_TRANSPORT === "record") return null;
+  const mode = isHttpCacheMode(env.HTTP_CACHE) ? env.HTTP_CACHE : "memory";
+  if (mode === "off") return null;
+  if (mode === "memory") return memoryHttpCacheStore();
+
+  const client = getRedisClient();
+  if (client) return redisHttpCacheStore(client);
+  log.warn("http_cache_redis_unavailable", { fallback: "memory" });
+  return memoryHttpCacheStore();
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  fixturePath,
+  recordingTransport,
+  replayTransport,
+  transportFromEnv,
+  type RecordedExchange,
+} from "./http-transport";
+import { fetchJson, fetchText, networkTransport, setTransport } from "./http";
+import { redactUrl } from "./redact-url";
+
+describe("redactUrl", () => {
+  it("redacts API keys but keeps the rest of the query", () => {
+    expect(
+      redactUrl("https://www.omdbapi.com/?apikey=s3cret&i=tt1375666"),
+    ).toBe("https://www.omdbapi.com/?apikey=REDACTED&i=tt1375666");
+  });
+
+  it("leaves key-free URLs alone", () => {
+    const url = "https://letterboxd.com/film/inception/";
+    expect(redactUrl(url)).toBe(url);
+  });
+});
+
+describe("fixturePath", () => {
+  it("is readable and independent of the API key used", () => {
+    const a = fixturePath(
+      "/fx",
+      "https://api.themoviedb.org/3/movie/27205?api_key=one",
+    );
+    const b = fixturePath(
+      "/fx",
+      "https://api.themoviedb.org/3/movie/27205?api_key=two",
+    );
+    expect(a).toBe(b);
+    expect(a).toMatch(
+      /^\/fx\/api\.themoviedb\.org\/3-movie-27205-[0-9a-f]{12}\.json$/,
+    );
+  });
+
+  it("tells POST bodies apart", () => {
+    const url = "https://caching.graphql.imdb.com/";
+    expect(fixturePath("/fx", url, { method: "POST", body: "{a}" })).not.toBe(
+      fixturePath("/fx", url, { method: "POST", body: "{b}" }),
+    );
+  });
+});
+
+describe("record / replay", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "http-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records an exchange without secrets and replays it offline", async () => {
+    const inner = vi.fn(
+      async () =>
+        new Response('{"imdbRating":"8.8"}', {
+          status: 200,
+          headers: { "content-type": "application/json", "set-cookie": "x" },
+        }),
+    );
+    const url = "https://www.omdbapi.com/?apikey=s3cret&i=tt1375666";
+
+    const recorded = await recordingTransport(dir, inner)(url, {});
+    expect(await recorded.json()).toEqual({ imdbRating: "8.8" });
+
+    const raw = await readFile(fixturePath(dir, url), "utf8");
+    expect(raw).not.toContain("s3cret");
+    const exchange = JSON.parse(raw) as RecordedExchange;
+    expect(exchange.response.headers).toEqual({
+      "content-type": "application/json",
+    });
+
+    // Any key replays the same capture
+    const replayed = await replayTransport(dir)(
+      "https://www.omdbapi.com/?apikey=other&i=tt1375666",
+      {},
+    );
+    expect(replayed.status).toBe(200);
+    expect(await replayed.json()).toEqual({ imdbRating: "8.8" });
+    expect(inner).toHaveBeenCalledTimes(1);
+  });
+
+  it("records error responses so replay reproduces them", async () => {
+    const inner = async () =>
+      new Response("Forbidden", { status: 403, statusText: "Forbidden" });
+    const url = "https://www.rottentomatoes.com/napi/movie/inception";
+
+    await recordingTransport(dir, inner)(url, {});
+    const replayed = await replayTransport(dir)(url, {});
+
+    expect(replayed.status).toBe(403);
+    expect(replayed.statusText).toBe("Forbidden");
+  });
+
+  it("fails a replay miss with a clear error instead of going online", async () => {
+    const fetchSpy = vi.spyOn(global, "fetch");
+
+    await expect(
+      replayTransport(dir)("https://mubi.com/films/1", {}),
+    ).rejects.toThrow("No recorded response for https://mubi.com/films/1");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("plugs into fetchText / fetchJson via setTransport", async () => {
+    const url = "https://letterboxd.com/film/inception/";
+    await recordingTransport(dir, async () => new Response("<html>"))(url, {});
+
+    setTransport(replayTransport(dir));
+    try {
+      await expect(fetchText(url)).resolves.toBe("<html>");
+      await expect(fetchJson("https://letterboxd.com/missing")).rejects.toThrow(
+        "No recorded response",
+      );
+    } finally {
+      setTransport(null);
+    }
+  });
+});
+
+describe("transportFromEnv", () => {
+  it("defaults to the network", () => {
+    expect(transportFromEnv({})).toBe(networkTransport);
+    expect(transportFromEnv({ HTTP_TRANSPORT: "bogus" })).toBe(
+      networkTransport,
+    );
+  });
+
+  it("builds record and replay transports", () => {
+    expect(transportFromEnv({ HTTP_TRANSPORT: "record" })).not.toBe(
+      networkTransport,
+    );
+    expect(transportFromEnv({ HTTP_TRANSPORT: "replay" })).not.toBe(
+      networkTransport,
+    );
+  });
+});
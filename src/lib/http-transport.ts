@@ -0,0 +1,143 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { networkTransport, type Transport } from "./http";
+import { log } from "./logger";
+import { redactUrl } from "./redact-url";
+
+export type TransportMode = "network" | "record" | "replay";
+
+/** One captured request/response pair, as stored on disk. */
+export type RecordedExchange = {
+  request: { method: string; url: string; body?: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+};
+
+// Checked-in captures shared by `next dev` and the integration tests
+export const DEFAULT_FIXTURES_DIR = "src/lib/__fixtures__/http";
+
+// Response headers worth keeping; the rest (cookies, tracing) is noise
+const KEPT_HEADERS = ["content-type", "etag", "last-modified", "location"];
+
+function requestBody(init: RequestInit): string | undefined {
+  return typeof init.body === "string" ? init.body : undefined;
+}
+
+/**
+ * Where an exchange lives: `<host>/<readable path>-<hash>.json`. The hash
+ * covers method, redacted URL and body, so query strings and POST bodies
+ * (IMDb GraphQL) get distinct files; the readable part is for humans only.
+ */
+export function fixturePath(
+  dir: string,
+  url: string,
+  init: RequestInit = {},
+): string {
+  const method = (init.method ?? "GET").toUpperCase();
+  const redacted = redactUrl(url);
+  const hash = createHash("sha256")
+    .update(`${method} ${redacted}\n${requestBody(init) ?? ""}`)
+    .digest("hex")
+    .slice(0, 12);
+  const { hostname, pathname } = new URL(redacted);
+  const readable =
+    pathname
+      .replace(/[^a-zA-Z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "root";
+  return path.join(dir, hostname, `${readable}-${hash}.json`);
+}
+
+function toResponse(exchange: RecordedExchange): Response {
+  const { status, statusText, headers, body } = exchange.response;
+  // Null-body statuses can't be constructed with a body
+  const nullBody = status === 204 || status === 304;
+  return new Response(nullBody ? null : body, { status, statusText, headers });
+}
+
+/**
+ * Pass requests through to `inner` and save every exchange (errors included,
+ * so replay reproduces 404s and 403s) under `dir`.
+ */
+export function recordingTransport(
+  dir: string,
+  inner: Transport = networkTransport,
+): Transport {
+  return async (url, init) => {
+    const res = await inner(url, init);
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = res.headers.get(name);
+      if (value != null) headers[name] = value;
+    }
+    const exchange: RecordedExchange = {
+      request: {
+        method: (init.method ?? "GET").toUpperCase(),
+        url: redactUrl(url),
+        body: requestBody(init),
+      },
+      response: {
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+        body: await res.text(),
+      },
+    };
+
+    const file = fixturePath(dir, url, init);
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(exchange, null, 2) + "\n");
+      log.info("http_recorded", { url: exchange.request.url, file });
+    } catch (err) {
+      // A failed write must not fail the request being recorded
+      log.warn("http_record_failed", { file, error: (err as Error).message });
+    }
+    return toResponse(exchange);
+  };
+}
+
+/** Serve exchanges captured by `recordingTransport`; never touches the network. */
+export function replayTransport(dir: string): Transport {
+  return async (url, init) => {
+    if (init.signal?.aborted) {
+      const err = new Error("The operation was aborted");
+      err.name = "AbortError";
+      throw err;
+    }
+    const file = fixturePath(dir, url, init);
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf8");
+    } catch {
+      log.warn("http_replay_miss", { url: redactUrl(url), file });
+      throw new Error(`No recorded response for ${redactUrl(url)}`);
+    }
+    return toResponse(JSON.parse(raw) as RecordedExchange);
+  };
+}
+
+export function isTransportMode(value: unknown): value is TransportMode {
+  return value === "network" || value === "record" || value === "replay";
+}
+
+/**
+ * The transport selected by `HTTP_TRANSPORT` ("record" / "replay"; anything
+ * else is the network) and `HTTP_FIXTURES_DIR`.
+ */
+export function transportFromEnv(
+  env: Record<string, string | undefined>,
+): Transport {
+  const mode = isTransportMode(env.HTTP_TRANSPORT)
+    ? env.HTTP_TRANSPORT
+    : "network";
+  const dir = path.resolve(env.HTTP_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+  if (mode === "record") return recordingTransport(dir);
+  if (mode === "replay") return replayTransport(dir);
+  return networkTransport;
+}
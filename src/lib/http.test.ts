@@ -1,5 +1,15 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { fetchJson, fetchText, fetchWithTimeout } from "./http";
+import {
+  _resetCircuitBreaker,
+  _resetHostLimiter,
+  fetchJson,
+  fetchText,
+  fetchWithTimeout,
+  getCircuitStates,
+  setHttpCache,
+  trackCircuitTrips,
+} from "./http";
+import { memoryHttpCacheStore, type HttpCacheStore } from "./http-cache";
 
 function abortError(message = "aborted"): Error {
   const err = new Error(message);
@@ -12,6 +22,7 @@ describe("http helpers", () => {
 
   beforeEach(() => {
     vi.restoreAllMocks();
+    _resetCircuitBreaker();
   });
 
   afterEach(() => {
@@ -112,3 +123,226 @@ describe("http helpers", () => {
     expect(global.fetch).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("per-host circuit breaker", () => {
+  const originalFetch = global.fetch;
+  const forbidden = () =>
+    vi.fn().mockResolvedValue({
+      ok: false,
+      status: 403,
+      statusText: "Forbidden",
+      headers: new Headers(),
+    });
+
+  beforeEach(() => {
+    process.env.HTTP_CIRCUIT_THRESHOLD = "2";
+    _resetCircuitBreaker();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete process.env.HTTP_CIRCUIT_THRESHOLD;
+    _resetCircuitBreaker();
+  });
+
+  it("fails fast once a host keeps failing, without a request", async () => {
+    global.fetch = forbidden();
+    const url = "https://www.rottentomatoes.com/m/inception";
+
+    await expect(fetchText(url)).rejects.toThrow("Request failed: 403");
+    await expect(fetchText(url)).rejects.toThrow("Request failed: 403");
+    await expect(fetchText(url)).rejects.toMatchObject({
+      name: "CircuitOpenError",
+      message: "Circuit open for www.rottentomatoes.com",
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    // Other hosts are unaffected
+    global.fetch = vi
+      .fn()
+      .mockResolvedValue({ ok: true, text: async () => "<html>" });
+    await expect(fetchText("https://letterboxd.com/film/x/")).resolves.toBe(
+      "<html>",
+    );
+    expect(getCircuitStates()).toEqual([
+      expect.objectContaining({
+        host: "www.rottentomatoes.com",
+        state: "open",
+        failures: 2,
+        lastFailure: "403 Forbidden",
+      }),
+    ]);
+  });
+
+  it("does not count a 404 against the host", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      headers: new Headers(),
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(fetchText("https://www.metacritic.com/x")).rejects.toThrow(
+        "Request failed: 404",
+      );
+    }
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("reports hosts that rejected requests inside trackCircuitTrips", async () => {
+    global.fetch = forbidden();
+    const url = "https://movie.douban.com/j/subject_abstract";
+    await fetchJson(url).catch(() => {});
+    await fetchJson(url).catch(() => {});
+
+    const { value, trippedHosts } = await trackCircuitTrips(async () => {
+      // Swallowed, as the Douban waterfall does
+      await fetchJson(url).catch(() => null);
+      return "done";
+    });
+
+    expect(value).toBe("done");
+    expect(trippedHosts).toEqual(["movie.douban.com"]);
+  });
+});
+
+describe("per-host throttling", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    process.env.HTTP_HOST_LIMITS = JSON.stringify({
+      "letterboxd.com": { maxInFlight: 1 },
+    });
+    _resetHostLimiter();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete process.env.HTTP_HOST_LIMITS;
+    _resetHostLimiter();
+  });
+
+  it("holds a request until the host has a free slot", async () => {
+    let finishFirst!: () => void;
+    global.fetch = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishFirst = () => resolve({ ok: true, text: async () => "a" });
+          }),
+      )
+      .mockResolvedValue({ ok: true, text: async () => "b" });
+
+    const first = fetchText("https://letterboxd.com/film/a/");
+    const second = fetchText("https://letterboxd.com/film/b/");
+    await new Promise((r) => setTimeout(r, 10));
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    finishFirst();
+    await expect(first).resolves.toBe("a");
+    await expect(second).resolves.toBe("b");
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up waiting when the caller aborts", async () => {
+    global.fetch = vi.fn(() => new Promise<Response>(() => {}));
+    void fetchText("https://letterboxd.com/film/a/").catch(() => {});
+    const controller = new AbortController();
+    const queued = fetchText("https://letterboxd.com/film/b/", {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: "AbortError" });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("conditional cache", () => {
+  const originalFetch = global.fetch;
+  const url = "https://www.allmovies.test/film/inception/";
+  let store: HttpCacheStore;
+
+  beforeEach(() => {
+    store = memoryHttpCacheStore();
+    setHttpCache(store);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    setHttpCache(null);
+  });
+
+  it("revalidates with the stored ETag and serves a 304 from the store", async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response("<html>v1</html>", {
+          headers: { etag: '"v1"', "content-type": "text/html" },
+        }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await expect(fetchText(url)).resolves.toBe("<html>v1</html>");
+    await expect(fetchText(url)).resolves.toBe("<html>v1</html>");
+
+    const [, init] = vi.mocked(global.fetch).mock.calls[1];
+    expect(new Headers(init?.headers).get("if-none-match")).toBe('"v1"');
+  });
+
+  it("keeps caller headers given as a Headers instance", async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("v1", { headers: { etag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const init = { headers: new Headers({ "accept-language": "fr" }) };
+
+    await fetchText(url, init);
+    await fetchText(url, init);
+
+    const sent = new Headers(vi.mocked(global.fetch).mock.calls[1][1]?.headers);
+    expect(sent.get("accept-language")).toBe("fr");
+    expect(sent.get("if-none-match")).toBe('"v1"');
+    expect(sent.get("user-agent")).toMatch(/^movies-ranking\//);
+  });
+
+  it("replaces the stored body when the page changed", async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response('{"v":1}', {
+          headers: { "last-modified": "Mon, 01 Jun 2026 00:00:00 GMT" },
+        }),
+      )
+      .mockResolvedValueOnce(
+        new Response('{"v":2}', {
+          headers: { "last-modified": "Tue, 02 Jun 2026 00:00:00 GMT" },
+        }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await expect(fetchJson(url)).resolves.toEqual({ v: 1 });
+    await expect(fetchJson(url)).resolves.toEqual({ v: 2 });
+    await expect(fetchJson(url)).resolves.toEqual({ v: 2 });
+
+    const [, init] = vi.mocked(global.fetch).mock.calls[2];
+    expect(new Headers(init?.headers).get("if-modified-since")).toBe(
+      "Tue, 02 Jun 2026 00:00:00 GMT",
+    );
+  });
+
+  it("leaves POSTs alone", async () => {
+    global.fetch = vi.fn(
+      async () => new Response('{"ok":true}', { headers: { etag: '"x"' } }),
+    );
+    const init = { method: "POST", body: "{}" };
+
+    await fetchJson(url, init);
+    await fetchJson(url, init);
+
+    const [, second] = vi.mocked(global.fetch).mock.calls[1];
+    expect(new Headers(second?.headers).has("if-none-match")).toBe(false);
+  });
+});
@@ -1,8 +1,31 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  CircuitBreaker,
+  circuitOptionsFromEnv,
+  type CircuitSnapshot,
+} from "./circuit-breaker";
+import { HostLimiter, hostLimitsFromEnv } from "./host-limiter";
+import {
+  conditionalHeaders,
+  fromCachedResponse,
+  hasValidators,
+  httpCacheFromEnv,
+  httpCacheKey,
+  isCacheableRequest,
+  toCachedResponse,
+  type HttpCacheStore,
+} from "./http-cache";
+import { log } from "./logger";
+import { redactUrl } from "./redact-url";
+
 const DEFAULT_TIMEOUT_MS = 10000;
 const MAX_RETRY_ATTEMPTS = 2;
 const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
 const RETRY_BASE_DELAY_MS = 200;
 const RETRY_MAX_DELAY_MS = 1200;
+// Responses that count against a host's circuit; a 404 is a real answer
+const HOST_FAILURE_STATUS = (status: number) =>
+  status === 403 || status === 429 || status >= 500;
 
 function createAbortError(): Error {
   const err = new Error("The operation was aborted");
@@ -14,6 +37,32 @@ export function isAbortError(err: unknown): err is Error {
   return err instanceof Error && err.name === "AbortError";
 }
 
+// A request that hit `timeoutMs`; the message predates the type
+function createTimeoutError(): Error {
+  const err = new Error("Temporarily unavailable");
+  err.name = "TimeoutError";
+  return err;
+}
+
+export function isTimeoutError(err: unknown): err is Error {
+  return err instanceof Error && err.name === "TimeoutError";
+}
+
+/** Thrown by `fetchJson` / `fetchText` for a non-2xx response. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    statusText: string,
+  ) {
+    super(`Request failed: ${status} ${statusText}`);
+    this.name = "HttpError";
+  }
+}
+
+export function isHttpError(err: unknown): err is HttpError {
+  return err instanceof Error && err.name === "HttpError";
+}
+
 function isRetryableNetworkError(err: unknown): boolean {
   if (!(err instanceof Error)) return false;
   const message = err.message.toLowerCase();
@@ -75,6 +124,34 @@ async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   });
 }
 
+/** What `fetchWithTimeout` sends requests through; `fetch` by default. */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+// Read lazily so tests swapping `global.fetch` are honoured
+export const networkTransport: Transport = (url, init) => fetch(url, init);
+
+// undefined = not chosen yet; picked from HTTP_TRANSPORT on first request.
+// Recording and replaying need node:fs, so http-transport.ts is only loaded
+// when asked for and never reaches a bundle that doesn't use it
+let transport: Transport | Promise<Transport> | undefined;
+
+function getTransport(): Transport | Promise<Transport> {
+  const mode = process.env.HTTP_TRANSPORT;
+  transport ??=
+    mode === "record" || mode === "replay"
+      ? import("./http-transport").then((m) => m.transportFromEnv(process.env))
+      : networkTransport;
+  return transport;
+}
+
+/**
+ * Route every request through `next` (a recording/replaying transport, or a
+ * test double); `null` goes back to the HTTP_TRANSPORT default.
+ */
+export function setTransport(next: Transport | null): void {
+  transport = next ?? undefined;
+}
+
 export async function fetchWithTimeout(
   url: string,
   init: RequestInit = {},
@@ -86,21 +163,22 @@ export async function fetchWithTimeout(
     ? AbortSignal.any([init.signal, controller.signal])
     : controller.signal;
   try {
-    return await fetch(url, {
-      ...init,
-      signal,
-      headers: {
-        "user-agent":
-          "movies-ranking/1.0 (+https://movies-ranking-rho.vercel.app)",
-        ...(init.headers || {}),
-      },
-    });
+    // Headers instances and tuples too, not just plain objects
+    const headers = new Headers(init.headers);
+    if (!headers.has("user-agent")) {
+      headers.set(
+        "user-agent",
+        "movies-ranking/1.0 (+https://movies-ranking-rho.vercel.app)",
+      );
+    }
+    const send = await getTransport();
+    return await send(url, { ...init, signal, headers });
   } catch (err) {
     if (isAbortError(err)) {
       if (init.signal?.aborted) {
         throw err;
       }
-      throw new Error("Temporarily unavailable");
+      throw createTimeoutError();
     }
     throw err;
   } finally {
@@ -108,6 +186,39 @@ export async function fetchWithTimeout(
   }
 }
 
+// ─── Per-host throttling ─────────────────────────────────────────────────────
+
+// Per server instance, like the circuit breaker below
+let hostLimiter: HostLimiter | undefined;
+
+function getHostLimiter(): HostLimiter {
+  hostLimiter ??= new HostLimiter(hostLimitsFromEnv(process.env));
+  return hostLimiter;
+}
+
+/** Reset throttling state for testing (re-reads the env options). */
+export function _resetHostLimiter(): void {
+  hostLimiter = undefined;
+}
+
+// One attempt, sent once the host's rate limit and concurrency cap allow it;
+// the timeout only starts after the wait in the queue
+async function throttledFetch(
+  url: string,
+  init: RequestInit,
+  timeoutMs?: number,
+): Promise<Response> {
+  const release = await getHostLimiter().acquire(
+    new URL(url).hostname,
+    init.signal ?? undefined,
+  );
+  try {
+    return await fetchWithTimeout(url, init, timeoutMs);
+  } finally {
+    release();
+  }
+}
+
 async function requestWithRetries(
   url: string,
   init: RequestInit = {},
@@ -117,7 +228,7 @@ async function requestWithRetries(
 
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
     try {
-      const res = await fetchWithTimeout(url, init, timeoutMs);
+      const res = await throttledFetch(url, init, timeoutMs);
       if (res.ok) return res;
 
       const shouldRetryStatus =
@@ -150,14 +261,136 @@ async function requestWithRetries(
   throw new Error("Temporarily unavailable");
 }
 
+// ─── Circuit breaker ─────────────────────────────────────────────────────────
+
+// Per server instance: each serverless instance learns about a host on its own
+let circuitBreaker: CircuitBreaker | undefined;
+
+function getCircuitBreaker(): CircuitBreaker {
+  circuitBreaker ??= new CircuitBreaker(circuitOptionsFromEnv(process.env));
+  return circuitBreaker;
+}
+
+export function getCircuitStates(): CircuitSnapshot[] {
+  return getCircuitBreaker().snapshot();
+}
+
+/** Reset breaker state for testing (re-reads the env options). */
+export function _resetCircuitBreaker(): void {
+  circuitBreaker = undefined;
+}
+
+// Hosts whose open circuit rejected a request inside `trackCircuitTrips`
+const circuitTrips = new AsyncLocalStorage<Set<string>>();
+
+/**
+ * Run `fn` and report which hosts' circuits rejected its requests — even when
+ * `fn` swallowed the CircuitOpenError and surfaced a vaguer error of its own.
+ */
+export async function trackCircuitTrips<T>(
+  fn: () => Promise<T>,
+): Promise<{ value: T; trippedHosts: string[] }> {
+  const tripped = new Set<string>();
+  const value = await circuitTrips.run(tripped, fn);
+  return { value, trippedHosts: [...tripped] };
+}
+
+async function requestThroughBreaker(
+  url: string,
+  init: RequestInit = {},
+  timeoutMs?: number,
+): Promise<Response> {
+  const host = new URL(url).hostname;
+  const breaker = getCircuitBreaker();
+  try {
+    breaker.check(host);
+  } catch (err) {
+    circuitTrips.getStore()?.add(host);
+    throw err;
+  }
+
+  try {
+    const res = await requestWithRetries(url, init, timeoutMs);
+    if (HOST_FAILURE_STATUS(res.status)) {
+      breaker.recordFailure(host, `${res.status} ${res.statusText}`.trim());
+    } else {
+      breaker.recordSuccess(host);
+    }
+    return res;
+  } catch (err) {
+    if (isAbortError(err)) breaker.release(host);
+    else breaker.recordFailure(host, (err as Error).message);
+    throw err;
+  }
+}
+
+// ─── Conditional cache ───────────────────────────────────────────────────────
+
+// undefined = not chosen yet; picked from HTTP_CACHE on first request
+let httpCache: HttpCacheStore | null | undefined;
+
+function getHttpCache(): HttpCacheStore | null {
+  if (httpCache === undefined) httpCache = httpCacheFromEnv(process.env);
+  return httpCache;
+}
+
+/**
+ * Keep validators and bodies in `next` (e.g. a fresh memory store in tests);
+ * `null` goes back to the HTTP_CACHE default.
+ */
+export function setHttpCache(next: HttpCacheStore | null): void {
+  httpCache = next ?? undefined;
+}
+
+// GETs carry the stored ETag / Last-Modified; a 304 is answered from the
+// store, so an unchanged page costs a round trip but no download
+async function requestWithCache(
+  url: string,
+  init: RequestInit = {},
+  timeoutMs?: number,
+): Promise<Response> {
+  const store = isCacheableRequest(init) ? getHttpCache() : null;
+  if (!store) return requestThroughBreaker(url, init, timeoutMs);
+
+  const key = httpCacheKey(url, init);
+  const cached = await store.get(key);
+  let request = init;
+  if (cached) {
+    // The caller's own validators win over the stored ones
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(conditionalHeaders(cached))) {
+      if (!headers.has(name)) headers.set(name, value);
+    }
+    request = { ...init, headers };
+  }
+  const res = await requestThroughBreaker(url, request, timeoutMs);
+
+  if (res.status === 304 && cached) {
+    log.info("http_cache_revalidated", { url: redactUrl(url) });
+    // Re-store to restart the TTL: the page is known current
+    await store.set(key, { ...cached, storedAt: new Date().toISOString() });
+    return fromCachedResponse(cached);
+  }
+  if (!res.ok || !hasValidators(res)) return res;
+
+  const body = await res.text();
+  const entry = toCachedResponse(url, res, body);
+  if (entry) await store.set(key, entry);
+  return new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+}
+
 export async function fetchJson<T>(
   url: string,
   init?: RequestInit,
   timeoutMs?: number,
 ): Promise<T> {
-  const res = await requestWithRetries(url, init, timeoutMs);
+  const res = await requestWithCache(url, init, timeoutMs);
   if (!res.ok) {
-    throw new Error(`Request failed: ${res.status} ${res.statusText}`);
+    throw new HttpError(res.status, res.statusText);
   }
   return (await res.json()) as T;
 }
@@ -167,9 +400,9 @@ export async function fetchText(
   init?: RequestInit,
   timeoutMs?: number,
 ): Promise<string> {
-  const res = await requestWithRetries(url, init, timeoutMs);
+  const res = await requestWithCache(url, init, timeoutMs);
   if (!res.ok) {
-    throw new Error(`Request failed: ${res.status} ${res.statusText}`);
+    throw new HttpError(res.status, res.statusText);
   }
   return await res.text();
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { computeKvTtl, kvGet, kvSet, _resetKvClient } from "./kv";
+import { computeKvTtl, kvDelete, kvGet, kvSet, _resetKvClient } from "./kv";
 import type { ScorePayload } from "./types";
 
 const ONE_DAY = 24 * 60 * 60;
@@ -60,9 +60,12 @@ describe("computeKvTtl", () => {
 
 const mockGet = vi.fn();
 const mockSet = vi.fn();
+const mockDel = vi.fn();
 
 vi.mock("@upstash/redis", () => ({
-  Redis: vi.fn().mockImplementation(() => ({ get: mockGet, set: mockSet })),
+  Redis: vi
+    .fn()
+    .mockImplementation(() => ({ get: mockGet, set: mockSet, del: mockDel })),
 }));
 
 const samplePayload: ScorePayload = {
@@ -96,7 +99,7 @@ describe("kvGet", () => {
   });
 
   it("returns cached payload on KV hit (without _v field)", async () => {
-    mockGet.mockResolvedValue({ ...samplePayload, _v: 2 });
+    mockGet.mockResolvedValue({ ...samplePayload, _v: 3 });
     const result = await kvGet("tt0111161");
     expect(result).toEqual(samplePayload);
     expect(result).not.toHaveProperty("_v");
@@ -130,7 +133,7 @@ describe("kvGet", () => {
     _resetKvClient();
     process.env.UPSTASH_REDIS_REST_URL = "https://native.upstash.io";
     process.env.UPSTASH_REDIS_REST_TOKEN = "native-token";
-    mockGet.mockResolvedValue({ ...samplePayload, _v: 2 });
+    mockGet.mockResolvedValue({ ...samplePayload, _v: 3 });
     const result = await kvGet("tt0111161");
     expect(result).toEqual(samplePayload);
     expect(result).not.toHaveProperty("_v");
@@ -155,7 +158,7 @@ describe("kvSet", () => {
     await kvSet("tt0111161", samplePayload, "1994-09-23", "1994");
     expect(mockSet).toHaveBeenCalledWith(
       "score:tt0111161",
-      { ...samplePayload, _v: 2 },
+      { ...samplePayload, _v: 3 },
       { ex: SIXTY_DAYS },
     );
   });
@@ -165,7 +168,7 @@ describe("kvSet", () => {
     await kvSet("tt1234567", samplePayload, "2025-09-01", "2025");
     expect(mockSet).toHaveBeenCalledWith(
       "score:tt1234567",
-      { ...samplePayload, _v: 2 },
+      { ...samplePayload, _v: 3 },
       { ex: ONE_DAY },
     );
   });
@@ -180,7 +183,7 @@ describe("kvSet", () => {
     await kvSet("tt0000001", samplePayload, undefined, "2025");
     expect(mockSet).toHaveBeenCalledWith(
       "score:tt0000001",
-      { ...samplePayload, _v: 2 },
+      { ...samplePayload, _v: 3 },
       { ex: ONE_DAY },
     );
   });
@@ -197,3 +200,28 @@ describe("kvSet", () => {
     ).resolves.toBeUndefined();
   });
 });
+
+describe("kvDelete", () => {
+  beforeEach(() => {
+    _resetKvClient();
+    mockDel.mockReset();
+    clearRedisEnv();
+    process.env.KV_REST_API_URL = "https://fake.upstash.io";
+    process.env.KV_REST_API_TOKEN = "fake-token";
+  });
+  afterEach(() => {
+    clearRedisEnv();
+    _resetKvClient();
+  });
+
+  it("deletes the cached payload", async () => {
+    mockDel.mockResolvedValue(1);
+    await kvDelete("tt0111161");
+    expect(mockDel).toHaveBeenCalledWith("score:tt0111161");
+  });
+
+  it("does not throw on Redis error (graceful degradation)", async () => {
+    mockDel.mockRejectedValue(new Error("connection refused"));
+    await expect(kvDelete("tt0111161")).resolves.toBeUndefined();
+  });
+});
@@ -40,7 +40,8 @@ export function computeKvTtl(
 
 let redisClient: Redis | null | undefined; // undefined = not initialized
 
-function getRedisClient(): Redis | null {
+/** The shared Upstash client, or null when Redis isn't configured. */
+export function getRedisClient(): Redis | null {
   if (redisClient !== undefined) return redisClient;
 
   // Support both Vercel-provisioned (KV_REST_API_*) and native Upstash (UPSTASH_REDIS_REST_*) names
@@ -68,7 +69,7 @@ function getRedisClient(): Redis | null {
 // ─── Public API (gracefully degrading) ───────────────────────────────────────
 
 // Bump when ScorePayload shape changes to auto-invalidate stale cache entries
-const KV_SCHEMA_VERSION = 2;
+const KV_SCHEMA_VERSION = 3;
 
 type CachedPayload = ScorePayload & { _v: number };
 
@@ -112,6 +113,18 @@ export async function kvSet(
   }
 }
 
+/** Drop a cached payload so the next lookup re-fetches (e.g. after an ID fix). */
+export async function kvDelete(imdbId: string): Promise<void> {
+  try {
+    const client = getRedisClient();
+    if (!client) return;
+    await client.del(kvKey(imdbId));
+    log.info("kv_deleted", { imdbId });
+  } catch (err) {
+    log.warn("kv_delete_failed", { imdbId, error: (err as Error).message });
+  }
+}
+
 // ─── Search cache (shared across instances via KV) ──────────────────────────
 
 const SEARCH_TTL_SEC = 24 * 60 * 60; // 24 hours — TMDB results don't change fast
@@ -1,4 +1,6 @@
-import { normalizeScore } from "./normalize";
+import { applyCurve, normalizeScore, NORMALIZATION_CURVES } from "./normalize";
+import { computeQuantiles } from "./calibration";
+import type { Calibration } from "./calibration";
 
 describe("normalizeScore", () => {
   it("normalizes imdb with boost for high scores", () => {
@@ -52,4 +54,129 @@ describe("normalizeScore", () => {
     });
     expect(res.normalized).toBe(70);
   });
+
+  it("normalizes filmaffinity from its 1-10 scale", () => {
+    const res = normalizeScore({
+      source: "filmaffinity",
+      label: "FilmAffinity",
+      normalized: null,
+      raw: { value: 1, scale: "1-10" },
+    });
+    expect(res.normalized).toBe(0);
+  });
+});
+
+describe("normalizeScore scale validation", () => {
+  it("flags a raw scale that does not match the curve", () => {
+    const res = normalizeScore({
+      source: "letterboxd",
+      label: "Letterboxd",
+      normalized: null,
+      raw: { value: 8.2, scale: "0-10" },
+    });
+    expect(res.normalized).toBeNull();
+    expect(res.error).toBe(
+      'Unexpected scale for letterboxd: "0-10" (expected "0-5")',
+    );
+    expect(res.errorCode).toBe("parse_failed");
+  });
+
+  it("clamps imdb above the top knot", () => {
+    const res = normalizeScore({
+      source: "imdb",
+      label: "IMDb",
+      normalized: null,
+      raw: { value: 9.6, scale: "0-10" },
+    });
+    expect(res.normalized).toBe(100);
+  });
+});
+
+describe("NORMALIZATION_CURVES", () => {
+  it.each(Object.entries(NORMALIZATION_CURVES))(
+    "%s has at least two knots ascending in raw",
+    (_name, curve) => {
+      expect(curve.knots.length).toBeGreaterThanOrEqual(2);
+      for (let i = 1; i < curve.knots.length; i++) {
+        expect(curve.knots[i][0]).toBeGreaterThan(curve.knots[i - 1][0]);
+      }
+    },
+  );
+});
+
+describe("applyCurve", () => {
+  const curve = {
+    scale: "0-10",
+    knots: [
+      [2, 0],
+      [6, 40],
+      [10, 100],
+    ] as const,
+    clamp: [10, 90] as const,
+  };
+
+  it("interpolates within a segment", () => {
+    expect(applyCurve(curve, 4)).toBe(20);
+    expect(applyCurve(curve, 8)).toBe(70);
+  });
+
+  it("applies custom clamp bounds", () => {
+    expect(applyCurve(curve, 2)).toBe(10);
+    expect(applyCurve(curve, 10)).toBe(90);
+  });
+});
+
+describe("normalizeScore with a calibration", () => {
+  // Letterboxd raw values spread evenly over 2.0-4.0
+  const calibration: Calibration = {
+    version: 1,
+    sources: {
+      letterboxd: {
+        quantiles: computeQuantiles(
+          Array.from({ length: 201 }, (_, i) => 2 + i / 100),
+        ),
+        sampleSize: 201,
+      },
+    },
+  };
+
+  it("maps a calibrated source to its empirical percentile", () => {
+    const res = normalizeScore(
+      {
+        source: "letterboxd",
+        label: "Letterboxd",
+        normalized: null,
+        raw: { value: 3.5, scale: "0-5" },
+      },
+      calibration,
+    );
+    // Static mapping would give 70; 3.5 sits at the 75th percentile
+    expect(res.normalized).toBeCloseTo(75, 5);
+  });
+
+  it("falls back to the static mapping for uncalibrated sources", () => {
+    const res = normalizeScore(
+      {
+        source: "douban",
+        label: "Douban",
+        normalized: null,
+        raw: { value: 8.0, scale: "0-10" },
+      },
+      calibration,
+    );
+    expect(res.normalized).toBe(80);
+  });
+
+  it("still leaves missing raw as null", () => {
+    const res = normalizeScore(
+      {
+        source: "letterboxd",
+        label: "Letterboxd",
+        normalized: null,
+        raw: { value: null, scale: "0-5" },
+      },
+      calibration,
+    );
+    expect(res.normalized).toBeNull();
+  });
 });
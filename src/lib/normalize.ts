@@ -1,60 +1,55 @@
 import type { SourceScore } from "./types";
+import { percentileOf } from "./calibration";
+import type { Calibration } from "./calibration";
+import type { NormalizationCurve } from "./sources/curves";
+import { NORMALIZATION_CURVES } from "./sources/catalog";
 
-const clamp = (value: number) => Math.min(100, Math.max(0, value));
+// Curves are declared per source in sources/catalog.ts
+export type { NormalizationCurve };
+export { NORMALIZATION_CURVES };
 
-// IMDb scores are compressed (6-9.3 practical range)
-// Boost high scores so 8.5 IMDb ≈ 90, 9.0 ≈ 96
-function boostImdb(raw: number): number {
-  if (raw <= 7.0) {
-    return raw * 10; // linear below 7
-  }
-  // Map 7.0-9.3 → 70-100 (stretches the top end)
-  return 70 + ((raw - 7.0) / 2.3) * 30;
+/** Evaluate a curve at `raw` (piecewise-linear, end segments extrapolated). */
+export function applyCurve(curve: NormalizationCurve, raw: number): number {
+  const { knots } = curve;
+  const [min, max] = curve.clamp ?? [0, 100];
+
+  let i = 1;
+  while (i < knots.length - 1 && raw > knots[i][0]) i++;
+  const [x0, y0] = knots[i - 1];
+  const [x1, y1] = knots[i];
+  const value = y0 + ((raw - x0) / (x1 - x0)) * (y1 - y0);
+
+  return Math.min(max, Math.max(min, value));
 }
 
 // Convert each source's native scale to 0-100.
-export function normalizeScore(source: SourceScore): SourceScore {
+// With a calibration, sources it covers map to their empirical percentile
+// instead; uncovered sources fall through to the static curve.
+export function normalizeScore(
+  source: SourceScore,
+  calibration?: Calibration | null,
+): SourceScore {
   const { source: name, raw } = source;
   if (!raw || raw.value == null) return { ...source, normalized: null };
 
-  const v = raw.value;
-  let normalized: number | null = null;
-
-  switch (name) {
-    case "douban":
-      // Douban ratings are 0-10
-      normalized = clamp((v / 10) * 100);
-      break;
-    case "imdb":
-      // IMDb ratings are compressed - boost high scores
-      normalized = clamp(boostImdb(v));
-      break;
-    case "letterboxd":
-      // Letterboxd ratings are 0-5
-      normalized = clamp((v / 5) * 100);
-      break;
-    case "metacritic":
-      // Metascore already 0-100
-      normalized = clamp(v);
-      break;
-    case "allocine_press":
-    case "allocine_user":
-      // AlloCiné ratings are 0-5 stars
-      normalized = clamp((v / 5) * 100);
-      break;
-    case "rotten_tomatoes":
-    case "rotten_tomatoes_all":
-    case "rotten_tomatoes_top":
-      // RT percent already 0-100
-      normalized = clamp(v);
-      break;
-    case "rotten_tomatoes_audience":
-      // RT Audience average rating is 0-5
-      normalized = clamp((v / 5) * 100);
-      break;
-    default:
-      normalized = null;
+  const curve = NORMALIZATION_CURVES[name];
+  if (!curve) return { ...source, normalized: null };
+  if (raw.scale !== curve.scale) {
+    return {
+      ...source,
+      normalized: null,
+      error: `Unexpected scale for ${name}: "${raw.scale}" (expected "${curve.scale}")`,
+      errorCode: "parse_failed",
+    };
+  }
+
+  const calibrated = calibration?.sources[name];
+  if (calibrated) {
+    return {
+      ...source,
+      normalized: percentileOf(calibrated.quantiles, raw.value),
+    };
   }
 
-  return { ...source, normalized };
+  return { ...source, normalized: applyCurve(curve, raw.value) };
 }
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { log } from "./logger";
+import {
+  checkPageStructure,
+  collectPageChecks,
+  contentHash,
+  isParserDriftError,
+  ParserDriftError,
+  type PageCheck,
+} from "./parser-drift";
+import type { PageSource } from "./parsers";
+
+// Recorded pages (see http-transport.ts) as the adapters receive them
+const recorded = (path: string) =>
+  JSON.parse(
+    readFileSync(join(__dirname, "__fixtures__", "http", path), "utf8"),
+  ).response.body as string;
+
+const DRIFTED = "<html><body><main>Redesigned</main></body></html>";
+
+describe("checkPageStructure", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each<[PageSource, string]>([
+    ["rotten_tomatoes", "www.rottentomatoes.com/m-inception-b024c37c3dd8.json"],
+    ["metacritic", "www.metacritic.com/movie-inception-4d28690f206a.json"],
+    [
+      "allocine",
+      "www.allocine.fr/film-fichefilm-gen-cfilm-143692-html-881f8e186fb9.json",
+    ],
+    ["letterboxd", "letterboxd.com/film-inception-684487aa9ecd.json"],
+    ["mubi", "mubi.com/films-22556-9db8bc27bc06.json"],
+    [
+      "filmaffinity",
+      "www.filmaffinity.com/en-film971380-html-ea8557b443c3.json",
+    ],
+  ])("accepts a recorded %s page", (source, path) => {
+    expect(() =>
+      checkPageStructure(source, recorded(path), "https://x.test/"),
+    ).not.toThrow();
+  });
+
+  it("throws and logs when a page has none of the anchors", () => {
+    const warn = vi.spyOn(log, "warn").mockImplementation(() => {});
+    const url = "https://www.allocine.fr/film/fichefilm_gen_cfilm=1.html";
+
+    let thrown: unknown;
+    try {
+      checkPageStructure("allocine", DRIFTED, url);
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).toBeInstanceOf(ParserDriftError);
+    expect(isParserDriftError(thrown)).toBe(true);
+    expect(warn).toHaveBeenCalledWith("parser_drift", {
+      source: "allocine",
+      url,
+      contentHash: contentHash(DRIFTED),
+      bytes: DRIFTED.length,
+      missing: ["starevalNote", "starevalReview", "ratingTitle"],
+    });
+  });
+});
+
+describe("contentHash", () => {
+  it("is short and stable", () => {
+    expect(contentHash(DRIFTED)).toMatch(/^[0-9a-f]{16}$/);
+    expect(contentHash(DRIFTED)).toBe(contentHash(DRIFTED));
+    expect(contentHash(DRIFTED)).not.toBe(contentHash(`${DRIFTED} `));
+  });
+});
+
+describe("collectPageChecks", () => {
+  it("records every check made inside it, drifted or not", async () => {
+    vi.spyOn(log, "warn").mockImplementation(() => {});
+    const checks: PageCheck[] = [];
+
+    await collectPageChecks(checks, async () => {
+      checkPageStructure("letterboxd", '"ratingValue":4.1', "https://x.test/");
+      await Promise.resolve();
+      expect(() =>
+        checkPageStructure("mubi", DRIFTED, "https://x.test/"),
+      ).toThrow(ParserDriftError);
+    });
+    // Outside the collector nothing is recorded
+    checkPageStructure("letterboxd", '"ratingValue":4.1', "https://x.test/");
+
+    expect(checks).toEqual([
+      { source: "letterboxd", drifted: false },
+      { source: "mubi", drifted: true },
+    ]);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { log } from "./logger";
+import { pageSignals, type PageSource } from "./parsers";
+
+/** One scraped page's structure check, as counted by the drift report. */
+export type PageCheck = { source: PageSource; drifted: boolean };
+
+/** A page loaded but carries none of the markup its parsers anchor on. */
+export class ParserDriftError extends Error {
+  constructor(readonly source: PageSource) {
+    super(`Page structure changed: no ${source} parser anchors found`);
+    this.name = "ParserDriftError";
+  }
+}
+
+export function isParserDriftError(err: unknown): err is ParserDriftError {
+  return err instanceof Error && err.name === "ParserDriftError";
+}
+
+/** Short fingerprint of a page body, to tell one drifted page from another. */
+export function contentHash(html: string): string {
+  return createHash("sha256").update(html).digest("hex").slice(0, 16);
+}
+
+// Checks made inside `collectPageChecks`
+const pageChecks = new AsyncLocalStorage<PageCheck[]>();
+
+/** Run `fn`, appending the structure check of every page it reads to `into`. */
+export function collectPageChecks<T>(
+  into: PageCheck[],
+  fn: () => Promise<T>,
+): Promise<T> {
+  return pageChecks.run(into, fn);
+}
+
+/**
+ * Throw a ParserDriftError when `html` has none of `source`'s structural
+ * anchors, so the source reads as parse_failed rather than as a page with no
+ * rating (which would be cached). Call it only on pages that loaded.
+ */
+export function checkPageStructure(
+  source: PageSource,
+  html: string,
+  url: string,
+): void {
+  const signals = pageSignals(source, html);
+  const drifted = !Object.values(signals).some(Boolean);
+  pageChecks.getStore()?.push({ source, drifted });
+  if (!drifted) return;
+
+  log.warn("parser_drift", {
+    source,
+    url,
+    contentHash: contentHash(html),
+    bytes: html.length,
+    missing: Object.keys(signals),
+  });
+  throw new ParserDriftError(source);
+}
@@ -1,7 +1,15 @@
 // src/lib/parsers.test.ts
 import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
 import {
   parseLetterboxdHtml,
+  parseMubiHtml,
+  parseKinopoiskRatingXml,
+  parseFilmAffinityHtml,
+  parseImdbRatingsHistogram,
+  parseLetterboxdHistogram,
+  parseLetterboxdFilmPage,
   parseImdbHtml,
   parseMetacriticHtml,
   parseDoubanSubjectSearchHtml,
@@ -10,13 +18,21 @@ import {
   parseRTApiResponse,
   parseRTCriticsHtml,
   parseRTAudienceHtml,
+  parseRTEmsId,
+  parseRTFilmPage,
+  parseRTReviewsPage,
+  parseOriginalScore,
   parseAllocineHtml,
   parseImdbThemes,
   parseImdbThemeSummaryResponse,
   parseRTConsensus,
   parseImdbCriticReviewsHtml,
+  pageSignals,
 } from "./parsers";
 
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, "__fixtures__", name), "utf8");
+
 describe("parsers", () => {
   describe("parseLetterboxdHtml", () => {
     it("extracts rating and count from JSON-LD", () => {
@@ -33,6 +49,140 @@ describe("parsers", () => {
     });
   });
 
+  describe("parseMubiHtml", () => {
+    it("extracts the film's rating and count from page data", () => {
+      const result = parseMubiHtml(fixture("mubi-film.html"));
+      // 8.4 / 93871 belong to the film; 7.9 / 41233 to a related film
+      expect(result.value).toBe(8.4);
+      expect(result.count).toBe(93871);
+    });
+
+    it("falls back to the JSON-LD aggregateRating", () => {
+      const result = parseMubiHtml(fixture("mubi-film-jsonld.html"));
+      expect(result.value).toBe(8.6);
+      expect(result.count).toBe(112304);
+    });
+
+    it("returns a null rating for films without enough ratings", () => {
+      const result = parseMubiHtml(fixture("mubi-film-unrated.html"));
+      expect(result.value).toBeNull();
+      expect(result.count).toBe(3);
+    });
+
+    it("returns nulls for a page without rating data", () => {
+      const result = parseMubiHtml("<html>Not found</html>");
+      expect(result).toEqual({ value: null, count: null });
+    });
+  });
+
+  describe("parseKinopoiskRatingXml", () => {
+    it("extracts the Kinopoisk rating and vote count", () => {
+      const result = parseKinopoiskRatingXml(fixture("kinopoisk-rating.xml"));
+      // Not the <imdb_rating> (8.7 / 2132740) in the same document
+      expect(result.value).toBe(8.518);
+      expect(result.count).toBe(893415);
+    });
+
+    it("treats a 0 rating (too few votes) as missing", () => {
+      const result = parseKinopoiskRatingXml(
+        fixture("kinopoisk-rating-unrated.xml"),
+      );
+      expect(result.value).toBeNull();
+      expect(result.count).toBe(4);
+    });
+
+    it("returns nulls for a response without a kp_rating", () => {
+      const result = parseKinopoiskRatingXml("<rating></rating>");
+      expect(result).toEqual({ value: null, count: null });
+    });
+  });
+
+  describe("parseImdbRatingsHistogram", () => {
+    it("extracts vote counts for ratings 1-10", () => {
+      const result = parseImdbRatingsHistogram(fixture("imdb-ratings.html"));
+      expect(result).toHaveLength(10);
+      expect(result![0]).toEqual({ rating: 1, count: 9461 });
+      expect(result![9]).toEqual({ rating: 10, count: 282115 });
+    });
+
+    it("returns null when the page has no histogram", () => {
+      expect(parseImdbRatingsHistogram("<html></html>")).toBeNull();
+    });
+  });
+
+  describe("parseLetterboxdHistogram", () => {
+    it("extracts half-star counts, filling empty bars with zero", () => {
+      const result = parseLetterboxdHistogram(
+        fixture("letterboxd-histogram.html"),
+      );
+      expect(result?.map((b) => b.rating)).toEqual([
+        0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5,
+      ]);
+      expect(result?.map((b) => b.count)).toEqual([
+        0, 12, 9, 48, 101, 402, 877, 1530, 744, 588,
+      ]);
+    });
+
+    it("returns null when no bars have ratings", () => {
+      expect(
+        parseLetterboxdHistogram('<div class="rating-histogram">'),
+      ).toBeNull();
+    });
+  });
+
+  describe("parseLetterboxdFilmPage", () => {
+    it("reads title and year from og:title", () => {
+      const html =
+        '<meta property="og:title" content="Schindler&#039;s List (1993)" />';
+      expect(parseLetterboxdFilmPage(html)).toEqual({
+        title: "Schindler's List",
+        year: 1993,
+      });
+    });
+
+    it("falls back to the CDATA-wrapped JSON-LD block", () => {
+      const html = `<script type="application/ld+json">
+/* <![CDATA[ */
+{"@type":"Movie","director":[{"@type":"Person","name":"Denis Villeneuve"}],"name":"Dune","releasedEvent":[{"@type":"PublicationEvent","startDate":"2021"}]}
+/* ]]> */
+</script>`;
+      expect(parseLetterboxdFilmPage(html)).toEqual({
+        title: "Dune",
+        year: 2021,
+      });
+    });
+
+    it("returns nulls when the page has neither", () => {
+      expect(parseLetterboxdFilmPage("<html></html>")).toEqual({
+        title: null,
+        year: null,
+      });
+    });
+  });
+
+  describe("parseFilmAffinityHtml", () => {
+    it("extracts the average and vote count from microdata", () => {
+      const result = parseFilmAffinityHtml(fixture("filmaffinity-film.html"));
+      expect(result.value).toBe(7.6);
+      expect(result.count).toBe(178342);
+    });
+
+    it("falls back to the decimal-comma average", () => {
+      const html =
+        '<div id="movie-rat-avg">\n  6,9\n</div><span itemprop="ratingCount" content="1.204">1.204</span>';
+      const result = parseFilmAffinityHtml(html);
+      expect(result.value).toBe(6.9);
+      expect(result.count).toBe(1204);
+    });
+
+    it("returns nulls for films without enough votes", () => {
+      const result = parseFilmAffinityHtml(
+        fixture("filmaffinity-film-unrated.html"),
+      );
+      expect(result).toEqual({ value: null, count: null });
+    });
+  });
+
   describe("parseAllocineHtml", () => {
     it("extracts both press and user ratings with counts", () => {
       const html = `
@@ -170,6 +320,21 @@ describe("parsers", () => {
       const result = parseMetacriticHtml(html);
       expect(result.value).toBeNull();
     });
+
+    it("extracts the user score and rating count", () => {
+      const html =
+        'c-productScoreInfo_scoreNumber"><div title="Metascore 85 out of 100"> Based on 42 Critic Reviews' +
+        '<div title="User score 7.9 out of 10"><span>7.9</span></div> Based on 2,512 User Ratings';
+      const result = parseMetacriticHtml(html);
+      expect(result.value).toBe(85);
+      expect(result.user).toEqual({ value: 7.9, count: 2512 });
+    });
+
+    it("returns a null user score while it is TBD", () => {
+      const html = '<div title="User score tbd"></div> Based on 3 User Ratings';
+      const result = parseMetacriticHtml(html);
+      expect(result.user).toEqual({ value: null, count: null });
+    });
   });
 
   describe("parseImdbCriticReviewsHtml", () => {
@@ -347,6 +512,105 @@ describe("parsers", () => {
     });
   });
 
+  describe("parseRTEmsId", () => {
+    it("extracts the EMS id from the movie page data", () => {
+      const html =
+        '{"media":{"emsId":"6c45ac0c-6e4f-3d2a-9cd3-5a7b8b6c0f1e","type":"Movie"}}';
+      expect(parseRTEmsId(html)).toBe("6c45ac0c-6e4f-3d2a-9cd3-5a7b8b6c0f1e");
+    });
+
+    it("returns null when missing", () => {
+      expect(parseRTEmsId("<html></html>")).toBeNull();
+    });
+  });
+
+  describe("parseRTFilmPage", () => {
+    it("reads the film's own name from JSON-LD, not the cast's", () => {
+      const html = `<script type="application/ld+json">{"@context":"http://schema.org","@type":"Movie","actor":[{"@type":"Person","name":"Timothée Chalamet"}],"dateCreated":"2024-03-01","name":"Dune: Part Two"}</script>`;
+      expect(parseRTFilmPage(html)).toEqual({
+        title: "Dune: Part Two",
+        year: 2024,
+      });
+    });
+
+    it("skips non-Movie and malformed JSON-LD blocks", () => {
+      const html = `<script type="application/ld+json">{not json</script>
+<script type="application/ld+json">{"@type":"Organization","name":"Rotten Tomatoes"}</script>
+<script type="application/ld+json">{"@type":"Movie","name":"Dune","dateCreated":"1984-12-14"}</script>`;
+      expect(parseRTFilmPage(html)).toEqual({ title: "Dune", year: 1984 });
+    });
+
+    it("falls back to og:title without a year", () => {
+      const html =
+        '<meta property="og:title" content="Dune | Rotten Tomatoes">';
+      expect(parseRTFilmPage(html)).toEqual({ title: "Dune", year: null });
+    });
+  });
+
+  describe("parseOriginalScore", () => {
+    it("converts fractional scores", () => {
+      expect(parseOriginalScore("3.5/4")).toBe(87.5);
+      expect(parseOriginalScore("8 / 10")).toBe(80);
+      expect(parseOriginalScore("2/3")).toBe(66.7);
+    });
+
+    it("converts letter grades on Metacritic's scale", () => {
+      expect(parseOriginalScore("B+")).toBe(83);
+      expect(parseOriginalScore("a-")).toBe(91);
+      expect(parseOriginalScore("F")).toBe(0);
+    });
+
+    it("returns null for unparseable or impossible scores", () => {
+      expect(parseOriginalScore(null)).toBeNull();
+      expect(parseOriginalScore("Recommended")).toBeNull();
+      expect(parseOriginalScore("5/4")).toBeNull();
+      expect(parseOriginalScore("3/0")).toBeNull();
+    });
+  });
+
+  describe("parseRTReviewsPage", () => {
+    const page = JSON.parse(fixture("rt-reviews-top-critics.json"));
+
+    it("maps critic, publication, verdict and original score", () => {
+      const { reviews } = parseRTReviewsPage(page, true);
+      expect(reviews[1]).toEqual({
+        reviewId: "2613220",
+        criticName: "Peter Bradshaw",
+        criticSlug: "peter-bradshaw",
+        publication: "Guardian",
+        topCritic: true,
+        sentiment: "fresh",
+        originalScore: "5/5",
+        normalizedScore: 100,
+        reviewUrl:
+          "https://www.theguardian.com/film/2019/may/21/parasite-review",
+        publishedAt: "2019-10-08",
+      });
+      expect(reviews[0].originalScore).toBeNull();
+      expect(reviews[0].normalizedScore).toBeNull();
+      expect(reviews[2].sentiment).toBe("rotten");
+      expect(reviews[2].normalizedScore).toBe(42);
+    });
+
+    it("skips reviews without a fresh/rotten verdict", () => {
+      const { reviews } = parseRTReviewsPage(page, true);
+      expect(reviews.map((r) => r.reviewId)).not.toContain("2612001");
+      expect(reviews).toHaveLength(3);
+    });
+
+    it("returns the cursor only when another page exists", () => {
+      expect(parseRTReviewsPage(page, true).nextCursor).toBe(
+        page.pageInfo.endCursor,
+      );
+      expect(
+        parseRTReviewsPage(
+          { ...page, pageInfo: { hasNextPage: false, endCursor: "x" } },
+          true,
+        ).nextCursor,
+      ).toBeNull();
+    });
+  });
+
   describe("parseImdbThemes", () => {
     it("extracts themes with positive sentiment", () => {
       const html = `
@@ -525,4 +789,42 @@ describe("parsers", () => {
       expect(result).toEqual({});
     });
   });
+
+  describe("pageSignals", () => {
+    it("reports each anchor by name", () => {
+      const html =
+        '<span class="stareval-note">4,0</span><span class="rating-title"> Presse </span>';
+      expect(pageSignals("allocine", html)).toEqual({
+        starevalNote: true,
+        starevalReview: false,
+        ratingTitle: true,
+      });
+    });
+
+    it("finds anchors on pages of films with no rating yet", () => {
+      const found = (signals: Record<string, boolean>) =>
+        Object.values(signals).some(Boolean);
+      expect(
+        found(pageSignals("mubi", fixture("mubi-film-unrated.html"))),
+      ).toBe(true);
+      expect(
+        found(
+          pageSignals(
+            "filmaffinity",
+            fixture("filmaffinity-film-unrated.html"),
+          ),
+        ),
+      ).toBe(true);
+    });
+
+    it("finds none on a page whose markup changed", () => {
+      const html =
+        '<html><body><div class="score-card" data-score="74"></div></body></html>';
+      expect(Object.values(pageSignals("metacritic", html))).toEqual([
+        false,
+        false,
+        false,
+      ]);
+    });
+  });
 });
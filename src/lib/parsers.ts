@@ -1,6 +1,11 @@
 // src/lib/parsers.ts
 
-import type { ImdbTheme, RTConsensus } from "./types";
+import type {
+  CriticReview,
+  ImdbTheme,
+  RatingDistribution,
+  RTConsensus,
+} from "./types";
 
 /** Parsed rating values before normalization */
 export type ParsedRating = {
@@ -18,6 +23,140 @@ export function parseLetterboxdHtml(html: string): ParsedRating {
   return { value: Number.isFinite(value) ? value : null, count };
 }
 
+// Fill every rating step so gaps render as empty bars; null when the page
+// carried no histogram (or every bucket is empty)
+function toDistribution(
+  counts: Map<number, number>,
+  step: number,
+  steps: number,
+): RatingDistribution | null {
+  const distribution = Array.from({ length: steps }, (_, i) => {
+    const rating = (i + 1) * step;
+    return { rating, count: counts.get(rating) ?? 0 };
+  });
+  return distribution.some((b) => b.count > 0) ? distribution : null;
+}
+
+// Letterboxd rating histogram (/csi/film/{slug}/rating-histogram/)
+// Each non-empty bar links to /ratings/rated/{stars}/ with a tooltip like
+// "1,234&nbsp;★★½ ratings (3%)"; empty bars have no link at all.
+export function parseLetterboxdHistogram(
+  html: string,
+): RatingDistribution | null {
+  const counts = new Map<number, number>();
+  const barRe =
+    /\/ratings\/rated\/([\d.]+)\/"[^>]*?(?:data-original-title|title)="([\d,]+)/g;
+  for (const m of html.matchAll(barRe)) {
+    counts.set(Number(m[1]), parseInt(m[2].replace(/,/g, ""), 10));
+  }
+  return toDistribution(counts, 0.5, 10);
+}
+
+/** A film page's own title and release year, for checking a guessed slug */
+export type ParsedFilmPage = {
+  title: string | null;
+  year: number | null;
+};
+
+// schema.org Movie block (RT and Letterboxd both embed one). Parsed rather
+// than regexed: cast and crew "name" fields come before the film's own.
+function parseMovieJsonLd(html: string): ParsedFilmPage | null {
+  const blockRe =
+    /<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/g;
+  for (const m of html.matchAll(blockRe)) {
+    let data: unknown;
+    try {
+      // Letterboxd wraps its JSON-LD in a CDATA comment
+      data = JSON.parse(
+        m[1].replace(/\/\*\s*<!\[CDATA\[\s*\*\/|\/\*\s*\]\]>\s*\*\//g, ""),
+      );
+    } catch {
+      continue;
+    }
+    const movie = data as {
+      "@type"?: string;
+      name?: string;
+      dateCreated?: string;
+      datePublished?: string;
+      releasedEvent?: { startDate?: string }[];
+    };
+    if (movie["@type"] !== "Movie") continue;
+    const date =
+      movie.releasedEvent?.[0]?.startDate ??
+      movie.dateCreated ??
+      movie.datePublished;
+    const year = date?.match(/^(\d{4})/)?.[1];
+    return {
+      title: movie.name ? decodeHtmlEntities(movie.name) : null,
+      year: year ? parseInt(year, 10) : null,
+    };
+  }
+  return null;
+}
+
+// Letterboxd film page: og:title is "Title (YYYY)"; JSON-LD as fallback
+export function parseLetterboxdFilmPage(html: string): ParsedFilmPage {
+  const og = html.match(
+    /<meta property="og:title" content="([^"]+?)(?: \((\d{4})\))?"/,
+  );
+  if (og) {
+    return {
+      title: decodeHtmlEntities(og[1]),
+      year: og[2] ? parseInt(og[2], 10) : null,
+    };
+  }
+  return parseMovieJsonLd(html) ?? { title: null, year: null };
+}
+
+// MUBI film page parser (ratings are out of 10)
+// Prefers the film's own Next.js page data; falls back to the JSON-LD
+// aggregateRating. First match only — later matches belong to related films.
+export function parseMubiHtml(html: string): ParsedRating {
+  const valueMatch =
+    html.match(/"average_rating_out_of_ten"\s*:\s*([\d.]+)/) ??
+    html.match(/"aggregateRating"\s*:\s*\{[^}]*"ratingValue"\s*:\s*"?([\d.]+)/);
+  const countMatch =
+    html.match(/"number_of_ratings"\s*:\s*(\d+)/) ??
+    html.match(/"aggregateRating"\s*:\s*\{[^}]*"ratingCount"\s*:\s*"?(\d+)/);
+
+  const value = valueMatch?.[1] ? Number(valueMatch[1]) : null;
+  const count = countMatch?.[1] ? parseInt(countMatch[1], 10) : null;
+
+  return { value: Number.isFinite(value) ? value : null, count };
+}
+
+// Kinopoisk rating XML parser (rating.kinopoisk.ru/{id}.xml, 0-10 scale)
+// The XML also carries an <imdb_rating> — only <kp_rating> is read. Films
+// without enough votes report 0, which is treated as no rating.
+export function parseKinopoiskRatingXml(xml: string): ParsedRating {
+  const tag = xml.match(/<kp_rating\b([^>]*)>\s*([\d.]+)\s*<\/kp_rating>/);
+  const votes = tag?.[1].match(/num_vote="(\d+)"/);
+
+  const value = tag?.[2] ? Number(tag[2]) : null;
+  const count = votes?.[1] ? parseInt(votes[1], 10) : null;
+
+  return { value: Number.isFinite(value) && value !== 0 ? value : null, count };
+}
+
+// FilmAffinity film page parser (1-10 scale)
+// Reads the schema.org microdata; the visible average uses a decimal comma
+// ("7,9") and is only a fallback. Counts may carry thousands separators.
+export function parseFilmAffinityHtml(html: string): ParsedRating {
+  const valueMatch =
+    html.match(/itemprop="ratingValue"\s+content="([\d.,]+)"/) ??
+    html.match(/id="movie-rat-avg"[^>]*>\s*([\d.,]+)\s*</);
+  const countMatch = html.match(/itemprop="ratingCount"\s+content="([\d.,]+)"/);
+
+  const value = valueMatch?.[1]
+    ? Number(valueMatch[1].replace(",", "."))
+    : null;
+  const count = countMatch?.[1]
+    ? parseInt(countMatch[1].replace(/[.,]/g, ""), 10)
+    : null;
+
+  return { value: Number.isFinite(value) ? value : null, count };
+}
+
 // AlloCiné HTML parser
 export type ParsedAllocineRatings = {
   press: ParsedRating;
@@ -98,13 +237,32 @@ export function parseImdbHtml(html: string): ParsedRating {
   return { value: Number.isFinite(value) ? value : null, count };
 }
 
+// IMDb ratings page (/title/{id}/ratings/) embeds the 1-10 histogram in its
+// Next.js data: "histogramValues":[{"rating":10,"voteCount":123,...},...]
+export function parseImdbRatingsHistogram(
+  html: string,
+): RatingDistribution | null {
+  const block = html.match(/"histogramValues"\s*:\s*\[([^\]]*)\]/);
+  if (!block) return null;
+
+  const counts = new Map<number, number>();
+  const bucketRe = /"rating"\s*:\s*(\d+)\s*,\s*"voteCount"\s*:\s*(\d+)/g;
+  for (const m of block[1].matchAll(bucketRe)) {
+    counts.set(Number(m[1]), parseInt(m[2], 10));
+  }
+  return toDistribution(counts, 1, 10);
+}
+
 export function parseMetacriticBadge(html: string): string | null {
   // Metacritic "Must-See" badge appears in badge/label elements
   if (/>\s*Must[- ]?See\s*</i.test(html)) return "must_see";
   return null;
 }
 
-export function parseMetacriticHtml(html: string): ParsedRating {
+/** Metascore plus the user score parsed from the same Metacritic page */
+export type MetacriticParsed = ParsedRating & { user: ParsedRating };
+
+export function parseMetacriticHtml(html: string): MetacriticParsed {
   // Find the main score element by anchoring to the product score info container.
   // Metacritic pages include carousel cards with title="Metascore N out of 100"
   // for OTHER movies — an unanchored regex would match those instead of the
@@ -140,6 +298,27 @@ export function parseMetacriticHtml(html: string): ParsedRating {
       ? parseInt(legacyCountMatch[1], 10)
       : null;
 
+  return {
+    value: Number.isFinite(value) ? value : null,
+    count,
+    user: parseMetacriticUserScore(html),
+  };
+}
+
+// User score (0-10) sits in its own score container: title="User score 7.9
+// out of 10", or "User score tbd" before enough ratings. Carousel cards only
+// carry Metascores, so the first match is the film's own.
+function parseMetacriticUserScore(html: string): ParsedRating {
+  const titleMatch = html.match(/title="User score ([^"]+)"/);
+  const scoreMatch = titleMatch?.[1]?.match(/^([\d.]+) out of 10$/);
+  const countMatch = html.match(/Based on ([\d,]+) User Rating/);
+
+  const value = scoreMatch?.[1] ? Number(scoreMatch[1]) : null;
+  const count =
+    value != null && countMatch?.[1]
+      ? parseInt(countMatch[1].replace(/,/g, ""), 10)
+      : null;
+
   return { value: Number.isFinite(value) ? value : null, count };
 }
 
@@ -325,6 +504,125 @@ export function parseRTAudienceHtml(html: string): ParsedRTAudience {
   return { audienceAvg, isVerifiedAudience, audienceCount };
 }
 
+// RT movie page embeds the film's EMS id, which keys the review listing API
+export function parseRTEmsId(html: string): string | null {
+  return html.match(/"emsId"\s*:\s*"([\w-]+)"/)?.[1] ?? null;
+}
+
+// RT movie page: JSON-LD carries title and date; og:title ("Title | Rotten
+// Tomatoes") gives at least the title when it's missing
+export function parseRTFilmPage(html: string): ParsedFilmPage {
+  const jsonLd = parseMovieJsonLd(html);
+  if (jsonLd) return jsonLd;
+  const og = html.match(/<meta property="og:title" content="([^"]+)"/);
+  return {
+    title: og
+      ? decodeHtmlEntities(og[1].replace(/\s*\|\s*Rotten Tomatoes$/, ""))
+      : null,
+    year: null,
+  };
+}
+
+// Metacritic's published letter-grade conversion, so converted critic
+// scores line up with Metascores
+const LETTER_GRADES: Record<string, number> = {
+  "A+": 100,
+  A: 100,
+  "A-": 91,
+  "B+": 83,
+  B: 75,
+  "B-": 67,
+  "C+": 58,
+  C: 50,
+  "C-": 42,
+  "D+": 33,
+  D: 25,
+  "D-": 16,
+  F: 0,
+};
+
+/** Convert a critic's original score ("3.5/4", "8/10", "B+") to 0-100. */
+export function parseOriginalScore(score: string | null): number | null {
+  if (!score) return null;
+  const trimmed = score.trim();
+
+  const fraction = trimmed.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  if (fraction) {
+    const value = Number(fraction[1]);
+    const max = Number(fraction[2]);
+    if (max <= 0 || value > max) return null;
+    return Math.round((value / max) * 1000) / 10;
+  }
+
+  return LETTER_GRADES[trimmed.toUpperCase()] ?? null;
+}
+
+type RTReviewJson = {
+  reviewId?: string | number;
+  critic?: { displayName?: string; criticPageUrl?: string };
+  publication?: { name?: string };
+  scoreSentiment?: string;
+  originalScore?: string;
+  reviewUrl?: string;
+  creationDate?: string;
+};
+
+export type RTReviewsJson = {
+  reviews?: RTReviewJson[];
+  pageInfo?: { hasNextPage?: boolean; endCursor?: string };
+};
+
+export type ParsedRTReviewsPage = {
+  reviews: CriticReview[];
+  nextCursor: string | null;
+};
+
+// "2019-10-11T..." or "Oct 11, 2019" → "2019-10-11"
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// RT review listing API page (napi/movie/{emsId}/reviews/{all|top_critics}).
+// Reviews without a fresh/rotten verdict or a critic name are skipped.
+export function parseRTReviewsPage(
+  json: RTReviewsJson,
+  topCritic: boolean,
+): ParsedRTReviewsPage {
+  const reviews: CriticReview[] = [];
+  for (const r of json.reviews ?? []) {
+    const sentiment = r.scoreSentiment?.toUpperCase();
+    const criticName = r.critic?.displayName?.trim();
+    if (r.reviewId == null || !criticName) continue;
+    if (sentiment !== "POSITIVE" && sentiment !== "NEGATIVE") continue;
+
+    const originalScore = r.originalScore?.trim() || null;
+    reviews.push({
+      reviewId: String(r.reviewId),
+      criticName,
+      criticSlug:
+        r.critic?.criticPageUrl?.match(/\/critics\/([^/?#]+)/)?.[1] ?? null,
+      publication: r.publication?.name?.trim() || null,
+      topCritic,
+      sentiment: sentiment === "POSITIVE" ? "fresh" : "rotten",
+      originalScore,
+      normalizedScore: parseOriginalScore(originalScore),
+      reviewUrl: r.reviewUrl || null,
+      publishedAt: toIsoDate(r.creationDate),
+    });
+  }
+
+  const nextCursor =
+    json.pageInfo?.hasNextPage && json.pageInfo.endCursor
+      ? json.pageInfo.endCursor
+      : null;
+  return { reviews, nextCursor };
+}
+
 const THEME_LABEL_KEYS = ["label", "name", "displayText", "text", "title"];
 const THEME_ID_KEYS = ["id", "themeId", "topicId", "key", "slug", "value"];
 
@@ -614,10 +912,63 @@ function stripTags(html: string): string {
 
 function decodeHtmlEntities(text: string): string {
   return text
-    .replace(/&#39;/g, "'")
+    .replace(/&#0*39;/g, "'")
     .replace(/&quot;/g, '"')
     .replace(/&amp;/g, "&")
     .replace(/&lt;/g, "<")
     .replace(/&gt;/g, ">")
     .trim();
 }
+
+// Structural anchors each scraped page's parsers read, by adapter ID. A real
+// film page carries at least one even when it has no rating yet; a page that
+// loaded with none of them means the site's markup changed under the parser.
+const PAGE_ANCHORS = {
+  rotten_tomatoes: {
+    scoreboardJson: /"criticsAll"|"audience(?:All|Verified)"/,
+    scorecardJson: /"criticsScore"\s*:\s*\{/,
+    jsonLd: /<script[^>]*application\/ld\+json/,
+  },
+  metacritic: {
+    scoreInfo: /c-productScoreInfo/,
+    scoreTitles: /title="(?:Metascore|User score) /,
+    legacyRating: /"ratingValue"/,
+  },
+  allocine: {
+    starevalNote: /class="stareval-note"/,
+    starevalReview: /class="stareval-review/,
+    ratingTitle: />\s*(?:Presse|Spectateurs)\s*</,
+  },
+  letterboxd: {
+    jsonLd: /<script[^>]*application\/ld\+json/,
+    ratingValue: /"ratingValue"/,
+  },
+  mubi: {
+    nextData: /"average_rating_out_of_ten"|"number_of_ratings"/,
+    jsonLd: /<script[^>]*application\/ld\+json/,
+  },
+  filmaffinity: {
+    microdata: /itemprop="rating(?:Value|Count)"/,
+    ratingBox: /id="movie-rat-avg"|id="movie-rating-box"/,
+    // Unrated films have no rating box, only the title block
+    mainTitle: /id="main-title"/,
+  },
+} satisfies Record<string, Record<string, RegExp>>;
+
+/** A scraped source whose pages carry structural anchors. */
+export type PageSource = keyof typeof PAGE_ANCHORS;
+
+export const PAGE_SOURCES = Object.keys(PAGE_ANCHORS) as PageSource[];
+
+/** Each structural anchor `source`'s parsers rely on → whether `html` has it. */
+export function pageSignals(
+  source: PageSource,
+  html: string,
+): Record<string, boolean> {
+  return Object.fromEntries(
+    Object.entries(PAGE_ANCHORS[source]).map(([name, pattern]) => [
+      name,
+      pattern.test(html),
+    ]),
+  );
+}
@@ -0,0 +1,13 @@
+// Query parameters carrying API keys: redacted before a request is keyed,
+// logged or written, so fixtures and caches never hold secrets
+const SECRET_PARAMS = new Set(["api_key", "apikey", "key", "token"]);
+
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.has(name.toLowerCase())) {
+      parsed.searchParams.set(name, "REDACTED");
+    }
+  }
+  return parsed.toString();
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./http", () => ({
+  fetchText: vi.fn(),
+  fetchJson: vi.fn(),
+}));
+
+import { fetchJson, fetchText } from "./http";
+import { fetchRTCriticReviews, rtSlugFromUrl } from "./rt-reviews";
+
+const review = (id: string) => ({
+  reviewId: id,
+  critic: { displayName: `Critic ${id}` },
+  publication: { name: "Paper" },
+  scoreSentiment: "POSITIVE",
+  originalScore: "3/4",
+});
+
+describe("rtSlugFromUrl", () => {
+  it("extracts the slug from a stored score URL", () => {
+    expect(
+      rtSlugFromUrl("https://www.rottentomatoes.com/m/parasite_2019"),
+    ).toBe("parasite_2019");
+    expect(rtSlugFromUrl("https://example.com/m/x")).toBeNull();
+  });
+});
+
+describe("fetchRTCriticReviews", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("follows the cursor through every listing page", async () => {
+    vi.mocked(fetchText).mockResolvedValue('"emsId":"ems-1"');
+    vi.mocked(fetchJson)
+      .mockResolvedValueOnce({
+        reviews: [review("1"), review("2")],
+        pageInfo: { hasNextPage: true, endCursor: "c1" },
+      })
+      .mockResolvedValueOnce({
+        // Overlapping page boundaries must not double-count a review
+        reviews: [review("2"), review("3")],
+        pageInfo: { hasNextPage: false },
+      });
+
+    const reviews = await fetchRTCriticReviews("parasite_2019");
+
+    expect(reviews.map((r) => r.reviewId)).toEqual(["1", "2", "3"]);
+    expect(reviews.every((r) => r.topCritic)).toBe(true);
+    const urls = vi.mocked(fetchJson).mock.calls.map((c) => c[0]);
+    expect(urls[0]).toBe(
+      "https://www.rottentomatoes.com/napi/movie/ems-1/reviews/top_critics?pageCount=50",
+    );
+    expect(urls[1]).toContain("after=c1");
+  });
+
+  it("throws when the movie page has no EMS id", async () => {
+    vi.mocked(fetchText).mockResolvedValue("<html></html>");
+    await expect(fetchRTCriticReviews("missing")).rejects.toThrow(
+      "No RT EMS id on /m/missing",
+    );
+    expect(fetchJson).not.toHaveBeenCalled();
+  });
+
+  it("throws rather than return a partial listing when the cursor never ends", async () => {
+    vi.mocked(fetchText).mockResolvedValue('"emsId":"ems-1"');
+    let n = 0;
+    vi.mocked(fetchJson).mockImplementation(async () => ({
+      reviews: [review(String(++n))],
+      pageInfo: { hasNextPage: true, endCursor: `c${n}` },
+    }));
+
+    await expect(fetchRTCriticReviews("endless")).rejects.toThrow(
+      "RT review listing for /m/endless runs past 20 pages",
+    );
+    expect(fetchJson).toHaveBeenCalledTimes(20);
+  });
+});
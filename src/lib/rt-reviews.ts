@@ -0,0 +1,59 @@
+import { fetchJson, fetchText } from "./http";
+import { parseRTEmsId, parseRTReviewsPage } from "./parsers";
+import type { RTReviewsJson } from "./parsers";
+import { BROWSER_UA } from "./sources/shared";
+import type { CriticReview } from "./types";
+
+export type RTReviewType = "top_critics" | "all";
+
+// Top critics rarely run past a few pages; this caps runaway pagination
+const MAX_PAGES = 20;
+const PAGE_SIZE = 50;
+
+/** RT slug from a stored score URL ("https://www.rottentomatoes.com/m/{slug}"). */
+export function rtSlugFromUrl(url: string): string | null {
+  return url.match(/rottentomatoes\.com\/m\/([^/?#]+)/)?.[1] ?? null;
+}
+
+/**
+ * Fetch every review in RT's review listing for a film. The listing API is
+ * keyed by the film's EMS id, read from the movie page first. Throws when the
+ * page or any listing page fails, or the listing outruns MAX_PAGES — a
+ * partial listing would skew averages.
+ */
+export async function fetchRTCriticReviews(
+  slug: string,
+  options: { type?: RTReviewType; signal?: AbortSignal } = {},
+): Promise<CriticReview[]> {
+  const type = options.type ?? "top_critics";
+  const html = await fetchText(`https://www.rottentomatoes.com/m/${slug}`, {
+    headers: { accept: "text/html", "user-agent": BROWSER_UA },
+    signal: options.signal,
+  });
+  const emsId = parseRTEmsId(html);
+  if (!emsId) throw new Error(`No RT EMS id on /m/${slug}`);
+
+  const byId = new Map<string, CriticReview>();
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const params = new URLSearchParams({ pageCount: String(PAGE_SIZE) });
+    if (cursor) params.set("after", cursor);
+    const json = await fetchJson<RTReviewsJson>(
+      `https://www.rottentomatoes.com/napi/movie/${emsId}/reviews/${type}?${params}`,
+      {
+        headers: { "user-agent": BROWSER_UA, accept: "application/json" },
+        signal: options.signal,
+      },
+    );
+    const parsed = parseRTReviewsPage(json, type === "top_critics");
+    for (const review of parsed.reviews) byId.set(review.reviewId, review);
+    cursor = parsed.nextCursor;
+    if (!cursor) break;
+  }
+  if (cursor) {
+    throw new Error(
+      `RT review listing for /m/${slug} runs past ${MAX_PAGES} pages`,
+    );
+  }
+  return [...byId.values()];
+}
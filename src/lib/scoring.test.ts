@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { computeOverallScore, WEIGHTED_SOURCE_KEYS } from "./scoring";
+import {
+  computeOverallScore,
+  isEmptyOptionalScore,
+  isScoringProfileId,
+  EXPECTED_SOURCE_KEYS,
+  SCORING_PROFILES,
+  WEIGHTED_SOURCE_KEYS,
+} from "./scoring";
 import type { SourceScore, SourceName } from "./types";
 
 /** Helper to build a SourceScore with minimal boilerplate. */
@@ -46,8 +53,21 @@ function makeAllSources(
 
 describe("scoring", () => {
   describe("WEIGHTED_SOURCE_KEYS", () => {
+    it("adds the optional sources to the 9 expected keys", () => {
+      expect(WEIGHTED_SOURCE_KEYS.size).toBe(13);
+      for (const key of [
+        "mubi",
+        "kinopoisk",
+        "filmaffinity",
+        "metacritic_user",
+      ]) {
+        expect(WEIGHTED_SOURCE_KEYS.has(key)).toBe(true);
+        expect(EXPECTED_SOURCE_KEYS.has(key)).toBe(false);
+      }
+    });
+
     it("contains exactly 9 expected keys", () => {
-      expect(WEIGHTED_SOURCE_KEYS.size).toBe(9);
+      expect(EXPECTED_SOURCE_KEYS.size).toBe(9);
       const expected = [
         "rotten_tomatoes_top",
         "metacritic",
@@ -60,11 +80,32 @@ describe("scoring", () => {
         "douban",
       ];
       for (const key of expected) {
+        expect(EXPECTED_SOURCE_KEYS.has(key)).toBe(true);
         expect(WEIGHTED_SOURCE_KEYS.has(key)).toBe(true);
       }
     });
   });
 
+  describe("isEmptyOptionalScore", () => {
+    it("flags optional sources with no score and no error", () => {
+      expect(isEmptyOptionalScore(makeSource("mubi", null))).toBe(true);
+      expect(isEmptyOptionalScore(makeSource("metacritic_user", null))).toBe(
+        true,
+      );
+    });
+
+    it("keeps scored or failed optional sources and every core source", () => {
+      expect(isEmptyOptionalScore(makeSource("kinopoisk", 71))).toBe(false);
+      expect(
+        isEmptyOptionalScore({
+          ...makeSource("filmaffinity", null),
+          error: "Timed out",
+        }),
+      ).toBe(false);
+      expect(isEmptyOptionalScore(makeSource("douban", null))).toBe(false);
+    });
+  });
+
   describe("computeOverallScore", () => {
     it("computes correct score with all 9 sources (no shrinkage counts)", () => {
       // All 9 sources present, no count provided → shrinkage skipped
@@ -311,4 +352,347 @@ describe("scoring", () => {
       expect(result.coverage).toBeCloseTo(8 / 9, 4);
     });
   });
+
+  describe("scoring profiles", () => {
+    it("balanced profile matches the default scoring", () => {
+      const sources = makeAllSources();
+      const byDefault = computeOverallScore(sources)!;
+      const balanced = computeOverallScore(sources, SCORING_PROFILES.balanced)!;
+      expect(balanced.score).toBeCloseTo(byDefault.score, 6);
+    });
+
+    it("every built-in profile has tier weights summing to 1", () => {
+      for (const profile of Object.values(SCORING_PROFILES)) {
+        const { critic, cinephile, mainstream } = profile.tierWeights;
+        expect(critic + cinephile + mainstream).toBeCloseTo(1, 6);
+      }
+    });
+
+    it("crowd profile pulls the score toward the mainstream tier", () => {
+      // Critics love it, audiences don't
+      const sources = makeAllSources({
+        rotten_tomatoes_top: 95,
+        metacritic: 94,
+        rotten_tomatoes_all: 93,
+        allocine_press: 90,
+        rotten_tomatoes_audience: 55,
+        imdb: 58,
+        allocine_user: 55,
+        douban: 60,
+      });
+      const critics = computeOverallScore(
+        sources,
+        SCORING_PROFILES["critics-first"],
+      )!;
+      const crowd = computeOverallScore(sources, SCORING_PROFILES.crowd)!;
+      expect(crowd.score).toBeLessThan(critics.score);
+    });
+
+    it("cinephile profile weights Letterboxd more heavily", () => {
+      const sources = makeAllSources({ letterboxd: 98 });
+      const balanced = computeOverallScore(sources)!;
+      const cinephile = computeOverallScore(
+        sources,
+        SCORING_PROFILES.cinephile,
+      )!;
+      expect(cinephile.score).toBeGreaterThan(balanced.score);
+    });
+
+    it("profiles do not change coverage or disagreement", () => {
+      const sources = makeAllSources({ letterboxd: 98 });
+      const balanced = computeOverallScore(sources)!;
+      const crowd = computeOverallScore(sources, SCORING_PROFILES.crowd)!;
+      expect(crowd.coverage).toBe(balanced.coverage);
+      expect(crowd.disagreement).toBe(balanced.disagreement);
+    });
+
+    it("recognizes built-in profile ids only", () => {
+      expect(isScoringProfileId("balanced")).toBe(true);
+      expect(isScoringProfileId("critics-first")).toBe(true);
+      expect(isScoringProfileId("toString")).toBe(false);
+      expect(isScoringProfileId("nope")).toBe(false);
+      expect(isScoringProfileId(42)).toBe(false);
+    });
+  });
+
+  describe("breakdown", () => {
+    it("reports tier scores, weights and the elite premium", () => {
+      // Same inputs as the all-9-sources hand calculation above
+      const { breakdown } = computeOverallScore(makeAllSources())!;
+      expect(breakdown).toBeDefined();
+      const tiers = Object.fromEntries(
+        breakdown!.tiers.map((t) => [t.tier, t]),
+      );
+      expect(tiers.critic.score).toBeCloseTo(81.68, 2);
+      expect(tiers.cinephile.score).toBe(84);
+      expect(tiers.mainstream.score).toBeCloseTo(77.35, 2);
+      expect(tiers.critic.effectiveWeight).toBeCloseTo(0.5, 6);
+
+      expect(breakdown!.criticMode).toBe("baseline");
+      expect(breakdown!.criticBaseline).toBeCloseTo(80.8, 2);
+      expect(breakdown!.elitePremium!.raw).toBeCloseTo(2.2, 2);
+      expect(breakdown!.elitePremium!.clamped).toBeCloseTo(2.2, 2);
+      expect(breakdown!.elitePremium!.dampened).toBeCloseTo(0.88, 2);
+    });
+
+    it("reports redistributed tier weights when a tier is missing", () => {
+      const sources = makeAllSources().filter((s) => s.source !== "letterboxd");
+      const { breakdown } = computeOverallScore(sources)!;
+      const tiers = Object.fromEntries(
+        breakdown!.tiers.map((t) => [t.tier, t]),
+      );
+      expect(tiers.cinephile.score).toBeNull();
+      expect(tiers.cinephile.effectiveWeight).toBe(0);
+      expect(tiers.critic.baseWeight).toBe(0.5);
+      expect(tiers.critic.effectiveWeight).toBeCloseTo(0.5 / 0.7, 6);
+      expect(tiers.mainstream.effectiveWeight).toBeCloseTo(0.2 / 0.7, 6);
+    });
+
+    it("clamps the elite premium before dampening", () => {
+      const sources = makeAllSources({
+        rotten_tomatoes_top: 50,
+        metacritic: 55,
+        rotten_tomatoes_all: 90,
+        allocine_press: 88,
+      });
+      const { breakdown } = computeOverallScore(sources)!;
+      expect(breakdown!.elitePremium!.raw).toBeLessThan(-15);
+      expect(breakdown!.elitePremium!.clamped).toBe(-15);
+      expect(breakdown!.elitePremium!.dampened).toBeCloseTo(-6, 6);
+    });
+
+    it("marks elite fallback mode when RT All is missing", () => {
+      const sources = makeAllSources().filter(
+        (s) => s.source !== "rotten_tomatoes_all",
+      );
+      const { breakdown } = computeOverallScore(sources)!;
+      expect(breakdown!.criticMode).toBe("elite_fallback");
+      expect(breakdown!.criticBaseline).toBeNull();
+      expect(breakdown!.elitePremium).toBeNull();
+    });
+
+    it("reports pre- and post-shrinkage values per source", () => {
+      const sources = makeAllSources({ allocine_press: [90, 4] });
+      const { breakdown } = computeOverallScore(sources)!;
+      const press = breakdown!.sources.find(
+        (s) => s.source === "allocine_press",
+      )!;
+      // 70 + (4/12) * (90-70) = 76.67
+      expect(press.normalized).toBe(90);
+      expect(press.shrunk).toBeCloseTo(76.67, 2);
+      expect(press.count).toBe(4);
+      const imdb = breakdown!.sources.find((s) => s.source === "imdb")!;
+      expect(imdb.shrunk).toBe(imdb.normalized);
+    });
+  });
+
+  describe("uncertainty band", () => {
+    it("brackets the score", () => {
+      const sources = makeAllSources({
+        allocine_press: [76, 12],
+        allocine_user: [72, 300],
+        imdb: [80, 500000],
+      });
+      const result = computeOverallScore(sources)!;
+      expect(result.scoreLow).toBeLessThan(result.score);
+      expect(result.scoreHigh).toBeGreaterThan(result.score);
+    });
+
+    it("narrows as rating counts grow", () => {
+      const counts = (n: number) =>
+        makeAllSources({
+          rotten_tomatoes_top: [85, n],
+          metacritic: [80, n],
+          rotten_tomatoes_all: [82, n],
+          allocine_press: [76, n],
+          letterboxd: [84, n],
+          rotten_tomatoes_audience: [78, n],
+          imdb: [80, n],
+          allocine_user: [72, n],
+          douban: [75, n],
+        });
+      const thin = computeOverallScore(counts(40))!;
+      const thick = computeOverallScore(counts(1_000_000))!;
+      const width = (r: typeof thin) => r.scoreHigh! - r.scoreLow!;
+      expect(width(thin)).toBeGreaterThan(width(thick));
+      expect(width(thick)).toBeLessThan(0.1);
+    });
+
+    it("stays within 0-100", () => {
+      const sources = makeAllSources({
+        rotten_tomatoes_top: [100, 2],
+        metacritic: [100, 2],
+        rotten_tomatoes_all: [100, 2],
+        allocine_press: [100, 30],
+        letterboxd: [100, 2],
+        rotten_tomatoes_audience: [100, 2],
+        imdb: [100, 2],
+        allocine_user: [100, 1000],
+        douban: [100, 2],
+      });
+      const result = computeOverallScore(sources)!;
+      expect(result.scoreHigh).toBeLessThanOrEqual(100);
+      expect(result.scoreLow).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("critic-audience gap", () => {
+    it("is positive when critics rate higher than audiences", () => {
+      const sources = makeAllSources({
+        rotten_tomatoes_all: 95,
+        rotten_tomatoes_top: 95,
+        metacritic: 95,
+        allocine_press: 95,
+        rotten_tomatoes_audience: 60,
+        imdb: 60,
+        allocine_user: 60,
+        douban: 60,
+      });
+      const result = computeOverallScore(sources)!;
+      const tier = (name: string) =>
+        result.breakdown!.tiers.find((t) => t.tier === name)!.score!;
+      expect(result.criticAudienceGap).toBeCloseTo(
+        tier("critic") - tier("mainstream"),
+        10,
+      );
+      expect(result.criticAudienceGap).toBeGreaterThan(20);
+    });
+
+    it("is negative when audiences rate higher than critics", () => {
+      const sources = makeAllSources({
+        rotten_tomatoes_all: 55,
+        rotten_tomatoes_top: 55,
+        metacritic: 55,
+        allocine_press: 55,
+        rotten_tomatoes_audience: 90,
+        imdb: 90,
+        allocine_user: 90,
+        douban: 90,
+      });
+      expect(computeOverallScore(sources)!.criticAudienceGap).toBeLessThan(-20);
+    });
+
+    it("is null when the mainstream tier is missing", () => {
+      const sources = makeAllSources({}).filter(
+        (s) =>
+          ![
+            "rotten_tomatoes_audience",
+            "imdb",
+            "allocine_user",
+            "douban",
+          ].includes(s.source),
+      );
+      expect(computeOverallScore(sources)!.criticAudienceGap).toBeNull();
+    });
+
+    it("does not depend on the scoring profile", () => {
+      const sources = makeAllSources({ imdb: 60, letterboxd: 95 });
+      expect(
+        computeOverallScore(sources, SCORING_PROFILES.crowd)!.criticAudienceGap,
+      ).toBe(computeOverallScore(sources)!.criticAudienceGap);
+    });
+  });
+
+  describe("MUBI (optional cinephile source)", () => {
+    const cinephile = (sources: SourceScore[]) =>
+      computeOverallScore(sources)!.breakdown!.tiers.find(
+        (t) => t.tier === "cinephile",
+      )!.score;
+
+    it("leaves the cinephile tier as Letterboxd alone when absent", () => {
+      expect(cinephile(makeAllSources({ letterboxd: 84 }))).toBe(84);
+    });
+
+    it("blends into the cinephile tier beside Letterboxd", () => {
+      const sources = [
+        ...makeAllSources({ letterboxd: 80 }),
+        makeSource("mubi", 90, 5000),
+      ];
+      expect(cinephile(sources)).toBeCloseTo(0.7 * 80 + 0.3 * 90, 10);
+    });
+
+    it("shrinks low-count MUBI scores toward the prior", () => {
+      const sources = [
+        ...makeAllSources({ letterboxd: 80 }),
+        makeSource("mubi", 90, 10),
+      ];
+      expect(cinephile(sources)).toBeLessThan(0.7 * 80 + 0.3 * 90);
+    });
+
+    it("does not count toward coverage or the verdict gate", () => {
+      const all = makeAllSources({});
+      const withMubi = [...all, makeSource("mubi", 90, 5000)];
+      expect(computeOverallScore(withMubi)!.coverage).toBe(1);
+
+      // 4 expected sources + MUBI is still below the 5-source gate
+      const thin = [
+        makeSource("rotten_tomatoes_all", 80),
+        makeSource("metacritic", 80),
+        makeSource("letterboxd", 80),
+        makeSource("imdb", 80),
+        makeSource("mubi", 80, 5000),
+      ];
+      expect(computeOverallScore(thin)).toBeNull();
+    });
+  });
+
+  describe("Kinopoisk (optional mainstream source)", () => {
+    const mainstream = (sources: SourceScore[]) =>
+      computeOverallScore(sources)!.breakdown!.tiers.find(
+        (t) => t.tier === "mainstream",
+      )!.score!;
+
+    it("leaves scores unchanged when absent", () => {
+      const sources = makeAllSources({});
+      const withKp = [...sources, makeSource("kinopoisk", null)];
+      expect(computeOverallScore(withKp)!.score).toBe(
+        computeOverallScore(sources)!.score,
+      );
+    });
+
+    it("pulls the mainstream tier toward its score", () => {
+      const sources = makeAllSources({});
+      const high = [...sources, makeSource("kinopoisk", 95, 500_000)];
+      expect(mainstream(high)).toBeGreaterThan(mainstream(sources));
+    });
+
+    it("shrinks low-vote ratings toward the prior", () => {
+      const sources = makeAllSources({});
+      const many = [...sources, makeSource("kinopoisk", 95, 500_000)];
+      const few = [...sources, makeSource("kinopoisk", 95, 5)];
+      expect(mainstream(few)).toBeLessThan(mainstream(many));
+    });
+  });
+
+  describe("FilmAffinity (optional mainstream source)", () => {
+    it("leaves scores unchanged when absent", () => {
+      const sources = makeAllSources({});
+      const withFa = [...sources, makeSource("filmaffinity", null)];
+      expect(computeOverallScore(withFa)!.score).toBe(
+        computeOverallScore(sources)!.score,
+      );
+    });
+
+    it("does not count toward coverage", () => {
+      const sources = makeAllSources({});
+      const withFa = [...sources, makeSource("filmaffinity", 80, 50_000)];
+      expect(computeOverallScore(withFa)!.coverage).toBe(
+        computeOverallScore(sources)!.coverage,
+      );
+    });
+  });
+
+  describe("Metacritic user score (optional mainstream source)", () => {
+    const mainstream = (sources: SourceScore[]) =>
+      computeOverallScore(sources)!.breakdown!.tiers.find(
+        (t) => t.tier === "mainstream",
+      )!.score!;
+
+    it("shrinks low-count user scores toward the prior", () => {
+      const sources = makeAllSources({});
+      const many = [...sources, makeSource("metacritic_user", 95, 5_000)];
+      const few = [...sources, makeSource("metacritic_user", 95, 12)];
+      expect(mainstream(few)).toBeLessThan(mainstream(many));
+    });
+  });
 });
@@ -1,4 +1,14 @@
-import type { SourceScore, OverallScore } from "./types";
+import type {
+  SourceScore,
+  OverallScore,
+  ScoringProfileId,
+  ScoreBreakdown,
+  TierBreakdown,
+  TierName,
+  ElitePremiumBreakdown,
+  SourceBreakdown,
+} from "./types";
+import { SOURCE_DEFINITIONS } from "./sources/catalog";
 
 /**
  * Tiered delta-based scoring algorithm.
@@ -7,50 +17,108 @@ import type { SourceScore, OverallScore } from "./types";
  * Instead of treating overlapping sources as independent votes, elite sources
  * (RT Top, Metacritic) act as premiums on top of a critic baseline.
  *
- * Three tiers with redistribution when a tier is entirely missing:
+ * Three tiers with redistribution when a tier is entirely missing
+ * (weights shown for the default "balanced" profile):
  *   - Critics  (50%): BaseCritics + ElitePremium
- *   - Cinephile (30%): Letterboxd
+ *   - Cinephile (30%): Letterboxd (+ MUBI when available)
  *   - Mainstream (20%): RT Audience, IMDb, Douban, AlloCiné User
+ *     (+ Kinopoisk, FilmAffinity, Metacritic User when available)
  *
- * Includes Bayesian shrinkage for small-sample sources (AlloCiné).
+ * Includes Bayesian shrinkage for small-sample sources (AlloCiné, MUBI,
+ * Kinopoisk, FilmAffinity, Metacritic User).
  */
 
-// ─── Tier weights ─────────────────────────────────────────────────────────────
+// ─── Scoring profiles ─────────────────────────────────────────────────────────
 
-const TIER_WEIGHT_CRITIC = 0.5;
-const TIER_WEIGHT_CINEPHILE = 0.3;
-const TIER_WEIGHT_MAINSTREAM = 0.2;
-
-// ─── Within-tier weights ──────────────────────────────────────────────────────
-
-// Critic baseline (RT All + AlloCiné Press)
-const CRITIC_BASE_WEIGHTS: Record<string, number> = {
-  rotten_tomatoes_all: 0.8,
-  allocine_press: 0.2,
+/**
+ * A named set of tier and within-tier weights. Profiles change how much each
+ * tier (and each source within a tier) contributes — the tier structure,
+ * redistribution, shrinkage and verdict gate are shared by all profiles.
+ */
+export type ScoringProfile = {
+  id: ScoringProfileId;
+  label: string;
+  tierWeights: { critic: number; cinephile: number; mainstream: number };
+  // Critic baseline (RT All + AlloCiné Press)
+  criticBaseWeights: Record<string, number>;
+  // Elite premium sources (delta from baseline)
+  eliteWeights: Record<string, number>;
+  // Fallback when RT All is missing: use elite sources as absolute values
+  eliteFallbackWeights: Record<string, number>;
+  elitePremiumClamp: number; // Max ±N raw premium
+  elitePremiumDampener: number; // Scale factor on clamped premium
+  cinephileWeights: Record<string, number>;
+  mainstreamWeights: Record<string, number>;
 };
 
-// Elite premium sources (delta from baseline)
-const ELITE_WEIGHTS: Record<string, number> = {
-  rotten_tomatoes_top: 0.6,
-  metacritic: 0.4,
+const BALANCED_PROFILE: ScoringProfile = {
+  id: "balanced",
+  label: "Balanced",
+  tierWeights: { critic: 0.5, cinephile: 0.3, mainstream: 0.2 },
+  criticBaseWeights: {
+    rotten_tomatoes_all: 0.8,
+    allocine_press: 0.2,
+  },
+  eliteWeights: {
+    rotten_tomatoes_top: 0.6,
+    metacritic: 0.4,
+  },
+  eliteFallbackWeights: {
+    rotten_tomatoes_top: 0.55,
+    metacritic: 0.45,
+  },
+  elitePremiumClamp: 15,
+  elitePremiumDampener: 0.4,
+  // MUBI is optional: without it the tier is Letterboxd alone
+  cinephileWeights: {
+    letterboxd: 0.7,
+    mubi: 0.3,
+  },
+  mainstreamWeights: {
+    rotten_tomatoes_audience: 0.35,
+    imdb: 0.35,
+    douban: 0.15,
+    allocine_user: 0.15,
+    // Optional, added on top (weights renormalize over present sources), so
+    // films without these ratings score exactly as before
+    kinopoisk: 0.15,
+    filmaffinity: 0.15,
+    metacritic_user: 0.15,
+  },
 };
 
-// Fallback when RT All is missing: use elite sources as absolute values
-const ELITE_FALLBACK_WEIGHTS: Record<string, number> = {
-  rotten_tomatoes_top: 0.55,
-  metacritic: 0.45,
+/** Built-in profiles. "balanced" is the canonical algorithm used for persistence. */
+export const SCORING_PROFILES: Readonly<
+  Record<ScoringProfileId, ScoringProfile>
+> = {
+  balanced: BALANCED_PROFILE,
+  "critics-first": {
+    ...BALANCED_PROFILE,
+    id: "critics-first",
+    label: "Critics First",
+    tierWeights: { critic: 0.7, cinephile: 0.15, mainstream: 0.15 },
+    // Let the elite premium move the critic score further
+    elitePremiumDampener: 0.6,
+  },
+  cinephile: {
+    ...BALANCED_PROFILE,
+    id: "cinephile",
+    label: "Cinephile",
+    tierWeights: { critic: 0.35, cinephile: 0.5, mainstream: 0.15 },
+  },
+  crowd: {
+    ...BALANCED_PROFILE,
+    id: "crowd",
+    label: "Crowd",
+    tierWeights: { critic: 0.25, cinephile: 0.2, mainstream: 0.55 },
+  },
 };
 
-const ELITE_PREMIUM_CLAMP = 15; // Max ±15 raw premium
-const ELITE_PREMIUM_DAMPENER = 0.4; // Scale factor on clamped premium
+export const DEFAULT_SCORING_PROFILE: ScoringProfileId = "balanced";
 
-// Mainstream tier
-const MAINSTREAM_WEIGHTS: Record<string, number> = {
-  rotten_tomatoes_audience: 0.35,
-  imdb: 0.35,
-  douban: 0.15,
-  allocine_user: 0.15,
-};
+export function isScoringProfileId(value: unknown): value is ScoringProfileId {
+  return typeof value === "string" && Object.hasOwn(SCORING_PROFILES, value);
+}
 
 // ─── Bayesian shrinkage ───────────────────────────────────────────────────────
 
@@ -63,6 +131,11 @@ const SHRINKAGE_PRIOR = 70;
 const SHRINKAGE_CONFIG: Record<string, { k: number; fullAt: number }> = {
   allocine_press: { k: 8, fullAt: 30 },
   allocine_user: { k: 30, fullAt: 1000 },
+  mubi: { k: 30, fullAt: 1000 },
+  kinopoisk: { k: 30, fullAt: 1000 },
+  filmaffinity: { k: 30, fullAt: 1000 },
+  // Metacritic user pools are small (often a few hundred) and review-bombable
+  metacritic_user: { k: 30, fullAt: 1000 },
 };
 
 const SHRINKAGE_SOURCES = new Set(Object.keys(SHRINKAGE_CONFIG));
@@ -81,23 +154,36 @@ function applyShrinkage(
   );
 }
 
-// ─── Source key set (public API — unchanged) ──────────────────────────────────
-
-/** The 9 weighted source keys — single source of truth for scoring + persistence. */
-export const WEIGHTED_SOURCE_KEYS: ReadonlySet<string> = new Set([
-  "rotten_tomatoes_top",
-  "metacritic",
-  "rotten_tomatoes_all",
-  "allocine_press",
-  "letterboxd",
-  "rotten_tomatoes_audience",
-  "imdb",
-  "allocine_user",
-  "douban",
-]);
+// ─── Source key set (public API) ──────────────────────────────────────────────
+
+/** The weighted source keys — single source of truth for scoring + persistence.
+ *  Derived from the `weighted` flag on each adapter's source definitions. */
+export const WEIGHTED_SOURCE_KEYS: ReadonlySet<string> = new Set(
+  SOURCE_DEFINITIONS.filter((d) => d.weighted).map((d) => d.id),
+);
+
+/** Weighted sources expected of every film (`optional` ones excluded).
+ *  Coverage, completeness and the verdict gate count only these. */
+export const EXPECTED_SOURCE_KEYS: ReadonlySet<string> = new Set(
+  SOURCE_DEFINITIONS.filter((d) => d.weighted && !d.optional).map((d) => d.id),
+);
+
+const OPTIONAL_SOURCE_KEYS: ReadonlySet<string> = new Set(
+  SOURCE_DEFINITIONS.filter((d) => d.optional).map((d) => d.id),
+);
+
+/** An optional source with neither a score nor an error: the film simply has
+ *  no page there, so there is nothing to show for it. */
+export function isEmptyOptionalScore(s: SourceScore): boolean {
+  return (
+    OPTIONAL_SOURCE_KEYS.has(s.source) &&
+    s.normalized == null &&
+    s.error == null
+  );
+}
 
 // Minimum sources required for a verdict
-const MIN_SOURCES_FOR_VERDICT = 5;
+export const MIN_SOURCES_FOR_VERDICT = 5;
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -138,18 +224,30 @@ function weightedAvg(
 
 // ─── Tier computation ─────────────────────────────────────────────────────────
 
+type CriticTierResult = {
+  score: number | null;
+  baseline: number | null;
+  premium: ElitePremiumBreakdown | null;
+  mode: ScoreBreakdown["criticMode"];
+};
+
 function computeCriticScore(
   sourceMap: Map<string, ValidSource>,
-): number | null {
+  profile: ScoringProfile,
+): CriticTierResult {
   const hasRtAll = sourceMap.has("rotten_tomatoes_all");
 
   if (hasRtAll) {
-    const baseCritics = weightedAvg(CRITIC_BASE_WEIGHTS, sourceMap, true)!;
+    const baseCritics = weightedAvg(
+      profile.criticBaseWeights,
+      sourceMap,
+      true,
+    )!;
     // Normal path: compute elite premium as delta from baseline
     let premiumNumerator = 0;
     let premiumDenominator = 0;
 
-    for (const [key, w] of Object.entries(ELITE_WEIGHTS)) {
+    for (const [key, w] of Object.entries(profile.eliteWeights)) {
       const src = sourceMap.get(key);
       if (!src) continue;
       premiumNumerator += w * (src.normalized - baseCritics);
@@ -159,79 +257,193 @@ function computeCriticScore(
     if (premiumDenominator > 0) {
       const rawPremium = premiumNumerator / premiumDenominator;
       const clampedPremium = Math.max(
-        -ELITE_PREMIUM_CLAMP,
-        Math.min(ELITE_PREMIUM_CLAMP, rawPremium),
+        -profile.elitePremiumClamp,
+        Math.min(profile.elitePremiumClamp, rawPremium),
       );
-      return baseCritics + clampedPremium * ELITE_PREMIUM_DAMPENER;
+      const dampenedPremium = clampedPremium * profile.elitePremiumDampener;
+      return {
+        score: baseCritics + dampenedPremium,
+        baseline: baseCritics,
+        premium: {
+          raw: rawPremium,
+          clamped: clampedPremium,
+          dampened: dampenedPremium,
+        },
+        mode: "baseline",
+      };
     }
 
     // No elite sources available — baseline alone
-    return baseCritics;
+    return {
+      score: baseCritics,
+      baseline: baseCritics,
+      premium: null,
+      mode: "baseline",
+    };
   }
 
   // RT All missing — use elite sources as absolute values (no delta possible)
-  return weightedAvg(ELITE_FALLBACK_WEIGHTS, sourceMap, false);
+  return {
+    score: weightedAvg(profile.eliteFallbackWeights, sourceMap, false),
+    baseline: null,
+    premium: null,
+    mode: "elite_fallback",
+  };
 }
 
 function computeCinephileScore(
   sourceMap: Map<string, ValidSource>,
+  profile: ScoringProfile,
 ): number | null {
-  const lb = sourceMap.get("letterboxd");
-  return lb ? lb.normalized : null;
+  return weightedAvg(profile.cinephileWeights, sourceMap, true);
 }
 
 function computeMainstreamScore(
   sourceMap: Map<string, ValidSource>,
+  profile: ScoringProfile,
 ): number | null {
-  return weightedAvg(MAINSTREAM_WEIGHTS, sourceMap, true);
+  return weightedAvg(profile.mainstreamWeights, sourceMap, true);
 }
 
-// ─── Main scoring function ────────────────────────────────────────────────────
+// ─── Composite ────────────────────────────────────────────────────────────────
 
-export function computeOverallScore(
-  scores: SourceScore[],
-): OverallScore | null {
-  const sourceMap = buildSourceMap(scores);
-
-  // Minimum source count gate
-  if (sourceMap.size < MIN_SOURCES_FOR_VERDICT) return null;
+type CompositeResult = {
+  score: number;
+  critic: CriticTierResult;
+  tiers: TierBreakdown[];
+};
 
+/** Tier scores + redistribution. Returns null when the critic tier is empty. */
+function computeComposite(
+  sourceMap: Map<string, ValidSource>,
+  profile: ScoringProfile,
+): CompositeResult | null {
   // Compute tier scores
-  const criticScore = computeCriticScore(sourceMap);
-  const cinephileScore = computeCinephileScore(sourceMap);
-  const mainstreamScore = computeMainstreamScore(sourceMap);
+  const critic = computeCriticScore(sourceMap, profile);
+  const cinephileScore = computeCinephileScore(sourceMap, profile);
+  const mainstreamScore = computeMainstreamScore(sourceMap, profile);
 
   // Critic tier must not be null
-  if (criticScore == null) return null;
+  if (critic.score == null) return null;
 
   // Build tier list with weights, redistributing when tiers are null
-  const tiers: Array<{ score: number; weight: number }> = [];
-  tiers.push({ score: criticScore, weight: TIER_WEIGHT_CRITIC });
-  if (cinephileScore != null) {
-    tiers.push({ score: cinephileScore, weight: TIER_WEIGHT_CINEPHILE });
-  }
-  if (mainstreamScore != null) {
-    tiers.push({ score: mainstreamScore, weight: TIER_WEIGHT_MAINSTREAM });
-  }
-
-  // Renormalize tier weights
-  const totalTierWeight = tiers.reduce((sum, t) => sum + t.weight, 0);
-  const finalScore = tiers.reduce(
-    (sum, t) => sum + (t.weight / totalTierWeight) * t.score,
+  const tierScores: Array<{ tier: TierName; score: number | null }> = [
+    { tier: "critic", score: critic.score },
+    { tier: "cinephile", score: cinephileScore },
+    { tier: "mainstream", score: mainstreamScore },
+  ];
+
+  // Renormalize tier weights over present tiers
+  const totalTierWeight = tierScores.reduce(
+    (sum, t) => (t.score != null ? sum + profile.tierWeights[t.tier] : sum),
     0,
   );
+  const tiers: TierBreakdown[] = tierScores.map((t) => ({
+    tier: t.tier,
+    score: t.score,
+    baseWeight: profile.tierWeights[t.tier],
+    effectiveWeight:
+      t.score != null ? profile.tierWeights[t.tier] / totalTierWeight : 0,
+  }));
+  const score = tiers.reduce(
+    (sum, t) => sum + t.effectiveWeight * (t.score ?? 0),
+    0,
+  );
+
+  return { score, critic, tiers };
+}
+
+// ─── Uncertainty band ─────────────────────────────────────────────────────────
+
+// Typical spread of a single rating on the 0-100 scale. Critic scores cluster
+// more tightly than user star ratings.
+const RATING_SPREAD: Record<string, number> = {
+  rotten_tomatoes_top: 18,
+  metacritic: 18,
+  rotten_tomatoes_all: 18,
+  allocine_press: 18,
+  letterboxd: 22,
+  rotten_tomatoes_audience: 22,
+  imdb: 22,
+  allocine_user: 22,
+  douban: 22,
+  mubi: 22,
+  kinopoisk: 22,
+  filmaffinity: 22,
+  metacritic_user: 22,
+};
+
+// Standard error assumed when a source reports no count (e.g. Douban's API)
+const UNKNOWN_COUNT_STDERR = 2;
+const CONFIDENCE_Z = 1.96; // 95% band
+const GRADIENT_STEP = 0.01;
+
+function sourceStdErr(src: ValidSource): number {
+  if (src.count == null || src.count <= 0) return UNKNOWN_COUNT_STDERR;
+  return RATING_SPREAD[src.source] / Math.sqrt(src.count);
+}
+
+/**
+ * First-order variance propagation: each source's sampling error (spread / √count)
+ * is pushed through the full algorithm via a numerical gradient, so shrinkage,
+ * premium clamping and tier redistribution are all accounted for.
+ */
+function estimateScoreBand(
+  sourceMap: Map<string, ValidSource>,
+  profile: ScoringProfile,
+  score: number,
+): { low: number; high: number } {
+  let variance = 0;
+  for (const [key, src] of sourceMap) {
+    const nudged = new Map(sourceMap);
+    nudged.set(key, { ...src, normalized: src.normalized + GRADIENT_STEP });
+    const composite = computeComposite(nudged, profile);
+    if (!composite) continue;
+    const gradient = (composite.score - score) / GRADIENT_STEP;
+    variance += (gradient * sourceStdErr(src)) ** 2;
+  }
+  const halfWidth = CONFIDENCE_Z * Math.sqrt(variance);
+  return {
+    low: Math.max(0, score - halfWidth),
+    high: Math.min(100, score + halfWidth),
+  };
+}
 
-  // Coverage: count-based (presentSources / 9)
-  const coverage = sourceMap.size / WEIGHTED_SOURCE_KEYS.size;
+// ─── Main scoring function ────────────────────────────────────────────────────
+
+export function computeOverallScore(
+  scores: SourceScore[],
+  profile: ScoringProfile = SCORING_PROFILES[DEFAULT_SCORING_PROFILE],
+  minSources: number = MIN_SOURCES_FOR_VERDICT,
+): OverallScore | null {
+  const sourceMap = buildSourceMap(scores);
+  const expectedPresent = [...sourceMap.keys()].filter((key) =>
+    EXPECTED_SOURCE_KEYS.has(key),
+  ).length;
+
+  // Minimum source count gate (overridable only for what-if ranking diffs)
+  if (expectedPresent < minSources) return null;
+
+  const composite = computeComposite(sourceMap, profile);
+  if (!composite) return null;
+  const { score: finalScore, critic, tiers } = composite;
+  const band = estimateScoreBand(sourceMap, profile, finalScore);
+
+  // Coverage: count-based (presentSources / 9), optional sources excluded
+  const coverage = expectedPresent / EXPECTED_SOURCE_KEYS.size;
 
   // Disagreement: std dev of normalized scores (with shrinkage applied,
   // consistent with the scoring algorithm — low-sample sources are pulled
   // toward the prior so they don't artificially inflate the spread)
-  const effectiveScores = [...sourceMap.values()].map((s) =>
-    SHRINKAGE_SOURCES.has(s.source)
+  const sources: SourceBreakdown[] = [...sourceMap.values()].map((s) => ({
+    source: s.source,
+    normalized: s.normalized,
+    shrunk: SHRINKAGE_SOURCES.has(s.source)
       ? applyShrinkage(s.source, s.normalized, s.count)
       : s.normalized,
-  );
+    count: s.count ?? null,
+  }));
+  const effectiveScores = sources.map((s) => s.shrunk);
   const mean =
     effectiveScores.reduce((sum, v) => sum + v, 0) / effectiveScores.length;
   const variance =
@@ -239,5 +451,30 @@ export function computeOverallScore(
     effectiveScores.length;
   const disagreement = Math.sqrt(variance);
 
-  return { score: finalScore, coverage, disagreement };
+  // Signed gap: positive when critics rate the film above audiences.
+  // Uses raw tier scores, so it is independent of the profile's tier weights.
+  const criticTier = tiers.find((t) => t.tier === "critic")?.score ?? null;
+  const mainstreamTier =
+    tiers.find((t) => t.tier === "mainstream")?.score ?? null;
+  const criticAudienceGap =
+    criticTier != null && mainstreamTier != null
+      ? criticTier - mainstreamTier
+      : null;
+
+  return {
+    score: finalScore,
+    scoreLow: band.low,
+    scoreHigh: band.high,
+    coverage,
+    disagreement,
+    criticAudienceGap,
+    breakdown: {
+      profile: profile.id,
+      tiers,
+      criticMode: critic.mode,
+      criticBaseline: critic.baseline,
+      elitePremium: critic.premium,
+      sources,
+    },
+  };
 }
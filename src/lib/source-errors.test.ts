@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { CircuitOpenError } from "./circuit-breaker";
+import { HttpError } from "./http";
+import { ParserDriftError } from "./parser-drift";
+import {
+  classifyError,
+  classifyErrorMessage,
+  isTransientFailure,
+  layeredFailureCode,
+  sourceError,
+  storedErrorCode,
+} from "./source-errors";
+
+function named(name: string, message: string): Error {
+  const err = new Error(message);
+  err.name = name;
+  return err;
+}
+
+describe("classifyError", () => {
+  it("maps HTTP statuses", () => {
+    expect(classifyError(new HttpError(404, "Not Found"))).toBe("not_found");
+    expect(classifyError(new HttpError(403, "Forbidden"))).toBe("blocked");
+    expect(classifyError(new HttpError(429, "Too Many Requests"))).toBe(
+      "rate_limited",
+    );
+    expect(classifyError(new HttpError(503, "Service Unavailable"))).toBe(
+      "unavailable",
+    );
+  });
+
+  it("recognises aborts, timeouts, open circuits and unreadable pages", () => {
+    expect(classifyError(named("AbortError", "aborted"))).toBe("aborted");
+    expect(
+      classifyError(named("TimeoutError", "Temporarily unavailable")),
+    ).toBe("timeout");
+    expect(classifyError(new CircuitOpenError("rt.com", 0))).toBe(
+      "unavailable",
+    );
+    expect(classifyError(new SyntaxError("Unexpected token <"))).toBe(
+      "parse_failed",
+    );
+    expect(classifyError(new ParserDriftError("metacritic"))).toBe(
+      "parse_failed",
+    );
+  });
+
+  it("falls back to the message for plain errors", () => {
+    expect(classifyError(new Error("fetch failed"))).toBe("unavailable");
+    expect(classifyError("weird")).toBe("unavailable");
+  });
+});
+
+describe("classifyErrorMessage", () => {
+  it.each([
+    ["Request failed: 404 Not Found", "not_found"],
+    ["Request failed: 451 Unavailable For Legal Reasons", "blocked"],
+    ['Slug mismatch: page is "X" (1962), expected "X" (2024)', "slug_mismatch"],
+    ["No AlloCiné ID", "no_id"],
+    ["Could not find Douban ID", "no_id"],
+    ["Temporarily unavailable", "unavailable"],
+    ["Letterboxd timed out", "timeout"],
+    ["The operation was aborted", "aborted"],
+    ["No rating data available", "no_data"],
+    ["Could not fetch Metacritic score", "no_data"],
+    ["Unexpected end of JSON input", "parse_failed"],
+    ["Page structure changed: no mubi parser anchors found", "parse_failed"],
+    ["Circuit open for movie.douban.com", "unavailable"],
+  ] as const)("%s → %s", (message, code) => {
+    expect(classifyErrorMessage(message)).toBe(code);
+  });
+});
+
+describe("sourceError", () => {
+  it("keeps the message beside the code", () => {
+    expect(sourceError(new HttpError(403, "Forbidden"))).toEqual({
+      error: "Request failed: 403 Forbidden",
+      errorCode: "blocked",
+    });
+  });
+});
+
+describe("layeredFailureCode", () => {
+  it("is no_data when every layer answered without a score", () => {
+    expect(layeredFailureCode([])).toBe("no_data");
+  });
+
+  it("prefers a transient failure over a stable one", () => {
+    expect(
+      layeredFailureCode([
+        new HttpError(404, "Not Found"),
+        new HttpError(429, "Too Many Requests"),
+      ]),
+    ).toBe("rate_limited");
+    expect(layeredFailureCode([new HttpError(404, "Not Found")])).toBe(
+      "not_found",
+    );
+  });
+});
+
+describe("storedErrorCode", () => {
+  it("passes codes through and classifies legacy messages", () => {
+    expect(storedErrorCode("blocked")).toBe("blocked");
+    expect(storedErrorCode("Request failed: 403 Forbidden")).toBe("blocked");
+  });
+});
+
+describe("isTransientFailure", () => {
+  const failed = {
+    source: "douban",
+    label: "Douban",
+    normalized: null,
+  } as const;
+
+  it("is false for scores and stable failures", () => {
+    expect(isTransientFailure({ ...failed, normalized: 80 })).toBe(false);
+    expect(isTransientFailure(failed)).toBe(false);
+    expect(
+      isTransientFailure({ ...failed, error: "x", errorCode: "no_id" }),
+    ).toBe(false);
+    expect(
+      isTransientFailure({ ...failed, error: "x", errorCode: "slug_mismatch" }),
+    ).toBe(false);
+  });
+
+  it("is true for failures worth retrying", () => {
+    expect(
+      isTransientFailure({ ...failed, error: "x", errorCode: "timeout" }),
+    ).toBe(true);
+    // No code: judged by the message
+    expect(
+      isTransientFailure({ ...failed, error: "Request failed: 502" }),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { isCircuitOpenError } from "./circuit-breaker";
+import { isAbortError, isHttpError, isTimeoutError } from "./http";
+import { isParserDriftError } from "./parser-drift";
+import type { SourceScore } from "./types";
+
+/**
+ * Why a source has no score. Stored in `scores.error` (constrained to these
+ * values); the human-readable message stays on `SourceScore.error`.
+ */
+export const SOURCE_ERROR_CODES = [
+  "no_id", // no platform ID to look the film up by
+  "not_found", // the platform has no page for it (404)
+  "slug_mismatch", // a guessed slug landed on a different film
+  "blocked", // refused: 401 / 403 / 451, anti-bot walls
+  "rate_limited", // 429
+  "timeout",
+  "unavailable", // 5xx, network errors, circuit open
+  "parse_failed", // a response we couldn't read
+  "no_data", // the page loaded but carries no rating
+  "aborted", // the caller went away
+] as const;
+
+export type SourceErrorCode = (typeof SOURCE_ERROR_CODES)[number];
+
+// Answers that will be the same on the next request — a payload whose only
+// failures are these can be cached; anything else should be retried fresh
+const STABLE_ERROR_CODES: ReadonlySet<SourceErrorCode> = new Set([
+  "no_id",
+  "not_found",
+  "slug_mismatch",
+  "no_data",
+]);
+
+export function isSourceErrorCode(value: unknown): value is SourceErrorCode {
+  return (SOURCE_ERROR_CODES as readonly unknown[]).includes(value);
+}
+
+function statusCode(status: number): SourceErrorCode {
+  if (status === 404 || status === 410) return "not_found";
+  if (status === 401 || status === 403 || status === 451) return "blocked";
+  if (status === 429) return "rate_limited";
+  if (status === 408) return "timeout";
+  return "unavailable";
+}
+
+/**
+ * Best guess from a message alone: errors that aren't typed, and `scores.error`
+ * rows written before codes existed.
+ */
+export function classifyErrorMessage(message: string): SourceErrorCode {
+  const status = message.match(/^Request failed: (\d{3})/);
+  if (status) return statusCode(Number(status[1]));
+  if (/^Slug mismatch/.test(message)) return "slug_mismatch";
+  if (/^No .*ID$|^Could not find .*ID$/.test(message)) return "no_id";
+  if (/temporarily unavailable/i.test(message)) return "unavailable";
+  if (/timed? ?out/i.test(message)) return "timeout";
+  if (/abort/i.test(message)) return "aborted";
+  if (/^No rating|^Could not fetch/.test(message)) return "no_data";
+  if (/JSON|Unexpected token|^Page structure changed/.test(message)) {
+    return "parse_failed";
+  }
+  return "unavailable";
+}
+
+export function classifyError(err: unknown): SourceErrorCode {
+  if (isAbortError(err)) return "aborted";
+  if (isTimeoutError(err)) return "timeout";
+  if (isHttpError(err)) return statusCode(err.status);
+  if (isCircuitOpenError(err)) return "unavailable";
+  if (err instanceof SyntaxError || isParserDriftError(err)) {
+    return "parse_failed";
+  }
+  if (err instanceof Error) return classifyErrorMessage(err.message);
+  return "unavailable";
+}
+
+/** `error` / `errorCode` for a score whose fetch threw `err`. */
+export function sourceError(
+  err: unknown,
+): Required<Pick<SourceScore, "error" | "errorCode">> {
+  return {
+    error: err instanceof Error ? err.message : String(err),
+    errorCode: classifyError(err),
+  };
+}
+
+/**
+ * The code for a source that tried several layers and got nothing: the first
+ * transient failure if there was one (so the payload isn't cached), else the
+ * first stable one, else "no_data" — every layer answered but none had a score.
+ */
+export function layeredFailureCode(failures: unknown[]): SourceErrorCode {
+  const codes = failures.map(classifyError);
+  return codes.find((c) => !STABLE_ERROR_CODES.has(c)) ?? codes[0] ?? "no_data";
+}
+
+/** The code behind a stored `scores.error` value, legacy messages included. */
+export function storedErrorCode(value: string): SourceErrorCode {
+  return isSourceErrorCode(value) ? value : classifyErrorMessage(value);
+}
+
+/** A failure worth retrying: don't cache the payload it's part of. */
+export function isTransientFailure(score: SourceScore): boolean {
+  if (score.normalized != null || score.error == null) return false;
+  const code = score.errorCode ?? classifyErrorMessage(score.error);
+  return !STABLE_ERROR_CODES.has(code);
+}
@@ -0,0 +1,98 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { checkPageStructure } from "../parser-drift";
+import { parseAllocineHtml } from "../parsers";
+import { sourceError } from "../source-errors";
+import { ALLOCINE } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+async function fetchAllocine(ctx: FetcherContext): Promise<AdapterResult> {
+  const filmId = ctx.wikidata.allocineFilm;
+  const seriesId = ctx.wikidata.allocineSeries;
+
+  const id = filmId || seriesId;
+  if (!id) {
+    return {
+      scores: [
+        {
+          source: "allocine_press",
+          label: "AlloCiné Press",
+          normalized: null,
+          error: "No AlloCiné ID",
+          errorCode: "no_id",
+        },
+        {
+          source: "allocine_user",
+          label: "AlloCiné User",
+          normalized: null,
+          error: "No AlloCiné ID",
+          errorCode: "no_id",
+        },
+      ],
+    };
+  }
+
+  const isFilm = !!filmId;
+  const url = isFilm
+    ? `https://www.allocine.fr/film/fichefilm_gen_cfilm=${id}.html`
+    : `https://www.allocine.fr/series/ficheserie_gen_cserie=${id}.html`;
+
+  try {
+    const html = await fetchText(url, {
+      headers: { "user-agent": BROWSER_UA },
+      signal: ctx.signal,
+    });
+    checkPageStructure("allocine", html, url);
+    const { press, user } = parseAllocineHtml(html);
+
+    return {
+      scores: [
+        normalizeScore({
+          source: "allocine_press",
+          label: "AlloCiné Press",
+          normalized: null,
+          raw:
+            press.value != null
+              ? { value: press.value, scale: "0-5" }
+              : undefined,
+          count: press.count,
+          url,
+        }),
+        normalizeScore({
+          source: "allocine_user",
+          label: "AlloCiné User",
+          normalized: null,
+          raw:
+            user.value != null
+              ? { value: user.value, scale: "0-5" }
+              : undefined,
+          count: user.count,
+          url,
+        }),
+      ],
+    };
+  } catch (err) {
+    return {
+      scores: [
+        {
+          source: "allocine_press",
+          label: "AlloCiné Press",
+          normalized: null,
+          ...sourceError(err),
+        },
+        {
+          source: "allocine_user",
+          label: "AlloCiné User",
+          normalized: null,
+          ...sourceError(err),
+        },
+      ],
+    };
+  }
+}
+
+export const allocine = {
+  ...ALLOCINE,
+  fetch: fetchAllocine,
+} as const;
@@ -0,0 +1,253 @@
+import { PERCENT, STARS_5 } from "./curves";
+import type { NormalizationCurve } from "./curves";
+import type {
+  SourceDefinition,
+  SourceDescription,
+  WikidataProperty,
+} from "./types";
+
+/**
+ * What each rating platform scores — ids, labels, curves, weighting — and the
+ * Wikidata properties its IDs come from. Data only: scoring reads it on the
+ * client, so nothing here may import fetching code. Each adapter module pairs
+ * its entry with `fetch` (see registry.ts).
+ */
+
+export const IMDB = {
+  id: "imdb",
+  sources: [
+    {
+      id: "imdb",
+      label: "IMDb",
+      // IMDb scores are compressed (6-9.3 practical range): linear below 7,
+      // then 7.0-9.3 stretched over 70-100 so 8.5 ≈ 90, 9.0 ≈ 96
+      curve: {
+        scale: "0-10",
+        knots: [
+          [0, 0],
+          [7, 70],
+          [9.3, 100],
+        ],
+      },
+      weighted: true,
+    },
+  ],
+  // Only needs movie.imdbId
+  wikidata: [],
+} as const satisfies SourceDescription;
+
+export const ROTTEN_TOMATOES = {
+  id: "rotten_tomatoes",
+  sources: [
+    // Tomatometer is a % positive, not a rating — shown but not weighted
+    {
+      id: "rotten_tomatoes",
+      label: "RT Tomatometer",
+      curve: PERCENT,
+      weighted: false,
+    },
+    {
+      id: "rotten_tomatoes_all",
+      label: "RT Critics Avg (All)",
+      curve: PERCENT,
+      weighted: true,
+    },
+    {
+      id: "rotten_tomatoes_top",
+      label: "RT Critics Avg (Top)",
+      curve: PERCENT,
+      weighted: true,
+    },
+    {
+      id: "rotten_tomatoes_audience",
+      label: "RT Audience",
+      curve: STARS_5,
+      weighted: true,
+    },
+  ],
+  wikidata: [{ key: "rottenTomatoes", property: "P1258" }],
+} as const satisfies SourceDescription;
+
+export const METACRITIC = {
+  id: "metacritic",
+  sources: [
+    // Metascore already 0-100
+    { id: "metacritic", label: "Metacritic", curve: PERCENT, weighted: true },
+    {
+      id: "metacritic_user",
+      label: "Metacritic User",
+      // User score is 0-10
+      curve: {
+        scale: "0-10",
+        knots: [
+          [0, 0],
+          [10, 100],
+        ],
+      },
+      weighted: true,
+      // Mainstream tier extra; TBD until enough users have rated
+      optional: true,
+    },
+  ],
+  wikidata: [{ key: "metacritic", property: "P1712" }],
+} as const satisfies SourceDescription;
+
+export const LETTERBOXD = {
+  id: "letterboxd",
+  sources: [
+    { id: "letterboxd", label: "Letterboxd", curve: STARS_5, weighted: true },
+  ],
+  wikidata: [{ key: "letterboxd", property: "P6127" }],
+} as const satisfies SourceDescription;
+
+export const MUBI = {
+  id: "mubi",
+  sources: [
+    {
+      id: "mubi",
+      label: "MUBI",
+      // MUBI ratings are 0-10
+      curve: {
+        scale: "0-10",
+        knots: [
+          [0, 0],
+          [10, 100],
+        ],
+      },
+      weighted: true,
+      // Cinephile tier extra beside Letterboxd; many films have no MUBI page
+      optional: true,
+    },
+  ],
+  wikidata: [{ key: "mubi", property: "P7299" }],
+} as const satisfies SourceDescription;
+
+export const ALLOCINE = {
+  id: "allocine",
+  // AlloCiné ratings are 0-5 stars
+  sources: [
+    {
+      id: "allocine_press",
+      label: "AlloCiné Press",
+      curve: STARS_5,
+      weighted: true,
+    },
+    {
+      id: "allocine_user",
+      label: "AlloCiné User",
+      curve: STARS_5,
+      weighted: true,
+    },
+  ],
+  wikidata: [
+    { key: "allocineFilm", property: "P1265" },
+    { key: "allocineSeries", property: "P1267" },
+  ],
+} as const satisfies SourceDescription;
+
+export const DOUBAN = {
+  id: "douban",
+  sources: [
+    {
+      id: "douban",
+      label: "Douban",
+      // Douban ratings are 0-10
+      curve: {
+        scale: "0-10",
+        knots: [
+          [0, 0],
+          [10, 100],
+        ],
+      },
+      weighted: true,
+    },
+  ],
+  wikidata: [{ key: "douban", property: "P4529" }],
+} as const satisfies SourceDescription;
+
+export const KINOPOISK = {
+  id: "kinopoisk",
+  sources: [
+    {
+      id: "kinopoisk",
+      label: "Kinopoisk",
+      // Kinopoisk ratings are 0-10
+      curve: {
+        scale: "0-10",
+        knots: [
+          [0, 0],
+          [10, 100],
+        ],
+      },
+      weighted: true,
+      // Regional mainstream extra — coverage stays defined over the core nine
+      optional: true,
+    },
+  ],
+  wikidata: [{ key: "kinopoisk", property: "P2603" }],
+} as const satisfies SourceDescription;
+
+export const FILMAFFINITY = {
+  id: "filmaffinity",
+  sources: [
+    {
+      id: "filmaffinity",
+      label: "FilmAffinity",
+      // FilmAffinity votes run 1-10, so 1 (the floor) maps to 0
+      curve: {
+        scale: "1-10",
+        knots: [
+          [1, 0],
+          [10, 100],
+        ],
+      },
+      weighted: true,
+      // Regional mainstream extra — coverage stays defined over the core nine
+      optional: true,
+    },
+  ],
+  wikidata: [{ key: "filmAffinity", property: "P480" }],
+} as const satisfies SourceDescription;
+
+// Order is the order scores appear in the payload
+export const SOURCE_CATALOG = [
+  IMDB,
+  ROTTEN_TOMATOES,
+  METACRITIC,
+  LETTERBOXD,
+  MUBI,
+  ALLOCINE,
+  DOUBAN,
+  KINOPOISK,
+  FILMAFFINITY,
+] as const;
+
+export type SourceName =
+  (typeof SOURCE_CATALOG)[number]["sources"][number]["id"];
+
+export type WikidataKey =
+  (typeof SOURCE_CATALOG)[number]["wikidata"][number]["key"];
+
+const ENTRIES: readonly SourceDescription[] = SOURCE_CATALOG;
+
+export const SOURCE_DEFINITIONS = ENTRIES.flatMap(
+  (entry) => entry.sources,
+) as readonly (SourceDefinition & { id: SourceName })[];
+
+/** Every score id, sorted — the allowed values of `scores.source`. */
+export const SOURCE_NAMES: readonly SourceName[] = SOURCE_DEFINITIONS.map(
+  (d) => d.id,
+).sort();
+
+export const WIKIDATA_PROPERTIES: readonly WikidataProperty[] = ENTRIES.flatMap(
+  (entry) => entry.wikidata,
+);
+
+/** Every platform ID key, sorted — the allowed values of `source_ids.source`. */
+export const WIKIDATA_KEYS = [
+  ...new Set(WIKIDATA_PROPERTIES.map((w) => w.key)),
+].sort() as readonly WikidataKey[];
+
+export const NORMALIZATION_CURVES = Object.fromEntries(
+  SOURCE_DEFINITIONS.map((d) => [d.id, d.curve]),
+) as Readonly<Record<SourceName, NormalizationCurve>>;
@@ -0,0 +1,31 @@
+/**
+ * Declarative raw → 0-100 mapping for one source.
+ *
+ * `knots` are [raw, normalized] points, ascending in raw; values between
+ * knots are interpolated linearly and values outside extend the nearest
+ * segment before clamping. `scale` is the `raw.scale` the fetcher must
+ * report — a mismatch is an error, never a silent mis-normalization.
+ */
+export type NormalizationCurve = {
+  scale: string;
+  knots: readonly (readonly [raw: number, normalized: number])[];
+  clamp?: readonly [min: number, max: number]; // default [0, 100]
+};
+
+// Shared by every 0-5 star source (Letterboxd, AlloCiné, RT Audience)
+export const STARS_5: NormalizationCurve = {
+  scale: "0-5",
+  knots: [
+    [0, 0],
+    [5, 100],
+  ],
+};
+
+// Shared by sources already on a 0-100 scale (RT, Metacritic)
+export const PERCENT: NormalizationCurve = {
+  scale: "0-100",
+  knots: [
+    [0, 0],
+    [100, 100],
+  ],
+};
@@ -0,0 +1,300 @@
+import { fetchJson, fetchText } from "../http";
+import { MemoryCache } from "../cache";
+import { normalizeScore } from "../normalize";
+import {
+  parseDoubanSubjectSearchHtml,
+  parseDoubanGlobalSearchHtml,
+  parseGoogleDoubanSearchHtml,
+} from "../parsers";
+import { sourceError } from "../source-errors";
+import type {
+  SourceIdConfidence,
+  SourceIdResolution,
+  SourceScore,
+} from "../types";
+import { DOUBAN } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+const doubanCache = new MemoryCache<SourceScore>(24 * 60 * 60 * 1000, 500); // 24h TTL for Douban
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Douban fetcher with 5-method waterfall for ID resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+type DoubanIdResult = { id: string | null; method: string };
+
+// Method 1: Wikidata (already fetched via ctx.wikidata.douban)
+function getDoubanIdFromWikidata(wikidataId?: string): DoubanIdResult {
+  if (wikidataId) {
+    return { id: wikidataId, method: "wikidata" };
+  }
+  return { id: null, method: "wikidata" };
+}
+
+// Method 2: Douban Suggest API (JSON endpoint) - try IMDb ID first, then title
+async function getDoubanIdFromSuggestApi(
+  imdbId: string,
+  title?: string,
+  signal?: AbortSignal,
+): Promise<DoubanIdResult> {
+  try {
+    // First try with IMDb ID
+    const rawImdbId = imdbId.replace(/^tt/, "");
+    let data = await fetchJson<
+      Array<{ id?: string; episode?: string; sub_title?: string }>
+    >(
+      `https://movie.douban.com/j/subject_suggest?q=tt${rawImdbId}`,
+      { headers: { "user-agent": BROWSER_UA }, signal },
+      4000,
+    );
+
+    // Check if response contains the IMDb ID (confirms match)
+    const jsonStr = JSON.stringify(data);
+    if (jsonStr.includes(rawImdbId) && data[0]?.id) {
+      return { id: data[0].id, method: "suggest_api" };
+    }
+
+    // Fallback: try with movie title if provided
+    if (title && data.length === 0) {
+      data = await fetchJson<
+        Array<{ id?: string; episode?: string; sub_title?: string }>
+      >(
+        `https://movie.douban.com/j/subject_suggest?q=${encodeURIComponent(title)}`,
+        { headers: { "user-agent": BROWSER_UA }, signal },
+        4000,
+      );
+      // Match by sub_title (English title) to avoid wrong matches
+      const match = data.find(
+        (item) => item.sub_title?.toLowerCase() === title.toLowerCase(),
+      );
+      if (match?.id) {
+        return { id: match.id, method: "suggest_api" };
+      }
+    }
+
+    return { id: null, method: "suggest_api" };
+  } catch {
+    return { id: null, method: "suggest_api" };
+  }
+}
+
+// Method 3: Douban Subject Search (HTML scraping)
+async function getDoubanIdFromSubjectSearch(
+  imdbId: string,
+  signal?: AbortSignal,
+): Promise<DoubanIdResult> {
+  try {
+    const rawImdbId = imdbId.replace(/^tt/, "");
+    const html = await fetchText(
+      `https://movie.douban.com/subject_search?search_text=tt${rawImdbId}`,
+      { headers: { "user-agent": BROWSER_UA, accept: "text/html" }, signal },
+      4000,
+    );
+    const id = parseDoubanSubjectSearchHtml(html);
+    return { id, method: "subject_search" };
+  } catch {
+    return { id: null, method: "subject_search" };
+  }
+}
+
+// Method 4: Douban Global Search (looks for IMDb ID in onclick attributes)
+async function getDoubanIdFromGlobalSearch(
+  imdbId: string,
+  signal?: AbortSignal,
+): Promise<DoubanIdResult> {
+  try {
+    const rawImdbId = imdbId.replace(/^tt/, "");
+    const html = await fetchText(
+      `https://www.douban.com/search?cat=1002&q=tt${rawImdbId}`,
+      { headers: { "user-agent": BROWSER_UA, accept: "text/html" }, signal },
+      8000,
+    );
+    const id = parseDoubanGlobalSearchHtml(html);
+    return { id, method: "global_search" };
+  } catch {
+    return { id: null, method: "global_search" };
+  }
+}
+
+// Method 5: Google Search (last resort when Douban blocks)
+async function getDoubanIdFromGoogle(
+  imdbId: string,
+  signal?: AbortSignal,
+): Promise<DoubanIdResult> {
+  try {
+    const html = await fetchText(
+      `https://www.google.com/search?q=%22${imdbId}%22+site:movie.douban.com/subject&safe=off`,
+      { headers: { "user-agent": BROWSER_UA, accept: "text/html" }, signal },
+      10000,
+    );
+    const id = parseGoogleDoubanSearchHtml(html);
+    return { id, method: "google" };
+  } catch {
+    return { id: null, method: "google" };
+  }
+}
+
+// Waterfall: try each method in order until one succeeds
+async function resolveDoubanId(
+  imdbId: string,
+  wikidataDoubanId?: string,
+  title?: string,
+  signal?: AbortSignal,
+): Promise<DoubanIdResult> {
+  // 1. Wikidata (already fetched, safest)
+  const wikiResult = getDoubanIdFromWikidata(wikidataDoubanId);
+  if (wikiResult.id) return wikiResult;
+
+  // 2. Douban Suggest API (tries IMDb ID, then title)
+  const suggestResult = await getDoubanIdFromSuggestApi(imdbId, title, signal);
+  if (suggestResult.id) return suggestResult;
+
+  // 3. Douban Subject Search
+  const subjectResult = await getDoubanIdFromSubjectSearch(imdbId, signal);
+  if (subjectResult.id) return subjectResult;
+
+  // 4. Douban Global Search
+  const globalResult = await getDoubanIdFromGlobalSearch(imdbId, signal);
+  if (globalResult.id) return globalResult;
+
+  // 5. Google Search (last resort)
+  const googleResult = await getDoubanIdFromGoogle(imdbId, signal);
+  if (googleResult.id) return googleResult;
+
+  return { id: null, method: "none" };
+}
+
+// Douban's own searches (mostly keyed on the IMDb ID) beat a Google hit.
+// "wikidata" (which also covers stored IDs) is already remembered.
+const WATERFALL_CONFIDENCE: Partial<Record<string, SourceIdConfidence>> = {
+  suggest_api: "medium",
+  subject_search: "medium",
+  global_search: "medium",
+  google: "low",
+};
+
+// Douban subject_abstract API response type
+type DoubanAbstractResponse = {
+  r: number;
+  subject?: {
+    rate?: string; // e.g. "9.4"
+    title?: string;
+  };
+};
+
+// Fetch rating from Douban's subject_abstract JSON API
+// Note: Vote count is not available via API, and HTML pages are protected (302 redirect).
+// Douban will use default 0.7 reliability.
+async function fetchDoubanRating(
+  doubanId: string,
+  signal?: AbortSignal,
+): Promise<{ rating: number | null; count: number | null }> {
+  const data = await fetchJson<DoubanAbstractResponse>(
+    `https://movie.douban.com/j/subject_abstract?subject_id=${doubanId}`,
+    { headers: { "user-agent": BROWSER_UA }, signal },
+    10000,
+  );
+
+  let rating: number | null = null;
+
+  if (data.subject?.rate) {
+    rating = parseFloat(data.subject.rate);
+    if (isNaN(rating)) rating = null;
+  }
+
+  // Vote count not available - HTML pages are blocked (anti-bot protection)
+  return { rating, count: null };
+}
+
+async function fetchDoubanScore(
+  ctx: FetcherContext,
+): Promise<{ score: SourceScore; resolved?: SourceIdResolution }> {
+  // Check cache first (24h TTL for successful results)
+  const cacheKey = ctx.movie.imdbId;
+  const cached = doubanCache.get(cacheKey);
+  if (cached) return { score: cached };
+
+  try {
+    // Resolve Douban ID using waterfall (Wikidata → Suggest API → Subject Search → Global Search → Google)
+    const { id: doubanId, method } = await resolveDoubanId(
+      ctx.movie.imdbId,
+      ctx.wikidata.douban,
+      ctx.movie.title,
+      ctx.signal,
+    );
+
+    if (!doubanId) {
+      return {
+        score: {
+          source: "douban",
+          label: "Douban",
+          normalized: null,
+          error: "Could not find Douban ID",
+          errorCode: "no_id",
+        },
+      };
+    }
+
+    // Fetch rating from JSON API (HTML pages have JS challenge)
+    const { rating, count } = await fetchDoubanRating(doubanId, ctx.signal);
+    const url = `https://movie.douban.com/subject/${doubanId}/`;
+
+    if (rating == null) {
+      return {
+        score: {
+          source: "douban",
+          label: "Douban",
+          normalized: null,
+          url,
+          error: "No rating found",
+          errorCode: "no_data",
+        },
+      };
+    }
+
+    const result = normalizeScore({
+      source: "douban",
+      label: "Douban",
+      normalized: null,
+      raw: { value: rating, scale: "0-10" },
+      count,
+      url,
+      // Include which method found the ID (useful for debugging)
+      fromFallback: method !== "wikidata",
+    });
+
+    if (result.normalized == null) return { score: result };
+
+    // Cache only successful results (with a score)
+    doubanCache.set(cacheKey, result);
+
+    // Remember IDs the waterfall found so the next lookup skips it
+    const confidence = WATERFALL_CONFIDENCE[method];
+    return {
+      score: result,
+      resolved: confidence
+        ? { key: "douban", id: doubanId, method, confidence }
+        : undefined,
+    };
+  } catch (err) {
+    return {
+      score: {
+        source: "douban",
+        label: "Douban",
+        normalized: null,
+        ...sourceError(err),
+      },
+    };
+  }
+}
+
+async function fetchDouban(ctx: FetcherContext): Promise<AdapterResult> {
+  const { score, resolved } = await fetchDoubanScore(ctx);
+  return { scores: [score], resolvedIds: resolved ? [resolved] : undefined };
+}
+
+export const douban = {
+  ...DOUBAN,
+  fetch: fetchDouban,
+} as const;
@@ -0,0 +1,64 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { checkPageStructure } from "../parser-drift";
+import { parseFilmAffinityHtml } from "../parsers";
+import { sourceError } from "../source-errors";
+import { FILMAFFINITY } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+async function fetchFilmAffinity(ctx: FetcherContext): Promise<AdapterResult> {
+  // Wikidata P480 is FilmAffinity's numeric film ID
+  const id = ctx.wikidata.filmAffinity;
+  if (!id) {
+    // Optional source — a missing mapping is not a failure (see mubi.ts)
+    return {
+      scores: [
+        { source: "filmaffinity", label: "FilmAffinity", normalized: null },
+      ],
+    };
+  }
+
+  const url = `https://www.filmaffinity.com/en/film${id}.html`;
+  try {
+    const html = await fetchText(url, {
+      headers: {
+        accept: "text/html",
+        "user-agent": BROWSER_UA,
+        "accept-language": "en-US,en;q=0.9",
+      },
+      signal: ctx.signal,
+    });
+    checkPageStructure("filmaffinity", html, url);
+    const parsed = parseFilmAffinityHtml(html);
+    return {
+      scores: [
+        normalizeScore({
+          source: "filmaffinity",
+          label: "FilmAffinity",
+          normalized: null,
+          raw: { value: parsed.value, scale: "1-10" },
+          count: parsed.count,
+          url,
+        }),
+      ],
+    };
+  } catch (err) {
+    return {
+      scores: [
+        {
+          source: "filmaffinity",
+          label: "FilmAffinity",
+          normalized: null,
+          url,
+          ...sourceError(err),
+        },
+      ],
+    };
+  }
+}
+
+export const filmAffinity = {
+  ...FILMAFFINITY,
+  fetch: fetchFilmAffinity,
+} as const;
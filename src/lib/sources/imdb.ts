@@ -0,0 +1,142 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { getApiKeys } from "../config";
+import { fetchOmdbByIdWithRotation, parseOmdbRatings } from "../omdb";
+import {
+  parseImdbHtml,
+  parseImdbRatingsHistogram,
+  parseImdbThemes,
+  parseImdbSummary,
+} from "../parsers";
+import { layeredFailureCode } from "../source-errors";
+import type { ImdbTheme, RatingDistribution } from "../types";
+import { IMDB } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+function imdbPayload(themes: ImdbTheme[], summary: string | null) {
+  return {
+    themes: themes.length > 0 ? themes : undefined,
+    imdbSummary: summary || undefined,
+  };
+}
+
+// The 1-10 vote histogram lives on its own ratings page; best-effort only
+async function fetchImdbDistribution(
+  imdbUrl: string,
+  signal?: AbortSignal,
+): Promise<RatingDistribution | undefined> {
+  try {
+    const html = await fetchText(`${imdbUrl}/ratings/`, {
+      headers: {
+        "user-agent": BROWSER_UA,
+        "accept-language": "en-US,en;q=0.9",
+      },
+      signal,
+    });
+    return parseImdbRatingsHistogram(html) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function fetchImdb(ctx: FetcherContext): Promise<AdapterResult> {
+  const { omdbKeys } = getApiKeys(ctx.env);
+  const imdbUrl = `https://www.imdb.com/title/${ctx.movie.imdbId}`;
+  const distribution = fetchImdbDistribution(imdbUrl, ctx.signal);
+
+  // Errors from each layer, to tell "no rating anywhere" from "couldn't reach"
+  const failures: unknown[] = [];
+
+  // Always fetch IMDb HTML for themes and summary (only exist in HTML, not APIs)
+  let themes: ImdbTheme[] = [];
+  let summary: string | null = null;
+  try {
+    const html = await fetchText(imdbUrl, {
+      headers: {
+        "user-agent": BROWSER_UA,
+        "accept-language": "en-US,en;q=0.9",
+      },
+      signal: ctx.signal,
+    });
+    themes = parseImdbThemes(html);
+    summary = parseImdbSummary(html);
+
+    // Also try to parse rating from HTML as a fallback
+    const parsed = parseImdbHtml(html);
+    if (parsed.value != null) {
+      // If we got rating from HTML, use it directly (skip OMDB)
+      return {
+        scores: [
+          normalizeScore({
+            source: "imdb",
+            label: "IMDb",
+            normalized: null,
+            raw: { value: parsed.value, scale: "0-10" },
+            count: parsed.count,
+            url: imdbUrl,
+            distribution: await distribution,
+          }),
+        ],
+        payload: imdbPayload(themes, summary),
+      };
+    }
+  } catch (err) {
+    // HTML scrape failed, will try OMDB below
+    failures.push(err);
+  }
+
+  // Layer 2: OMDB API fallback for rating (themes/summary already extracted above)
+  if (omdbKeys.length > 0) {
+    try {
+      const data = await fetchOmdbByIdWithRotation(
+        ctx.movie.imdbId,
+        omdbKeys,
+        ctx.signal,
+      );
+      const ratings = parseOmdbRatings(data);
+      if (ratings.imdb != null && !isNaN(ratings.imdb)) {
+        const score = normalizeScore({
+          source: "imdb",
+          label: "IMDb",
+          normalized: null,
+          raw: { value: ratings.imdb, scale: "0-10" },
+          count: ratings.imdbVotes,
+          url: imdbUrl,
+          distribution: await distribution,
+        });
+        return {
+          scores: [score],
+          // OMDB also carries RT and Metascore — offered to those adapters
+          fallbacks: {
+            rotten_tomatoes: ratings.rottenTomatoes,
+            metacritic: ratings.metacritic,
+          },
+          payload: imdbPayload(themes, summary),
+        };
+      }
+    } catch (err) {
+      // All OMDB keys failed
+      failures.push(err);
+    }
+  }
+
+  return {
+    scores: [
+      {
+        source: "imdb",
+        label: "IMDb",
+        normalized: null,
+        url: imdbUrl,
+        error: "No rating data available",
+        errorCode: layeredFailureCode(failures),
+      },
+    ],
+    payload: imdbPayload(themes, summary),
+  };
+}
+
+export const imdb = {
+  ...IMDB,
+  fetch: fetchImdb,
+} as const;
@@ -0,0 +1,57 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { parseKinopoiskRatingXml } from "../parsers";
+import { sourceError } from "../source-errors";
+import { KINOPOISK } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+async function fetchKinopoisk(ctx: FetcherContext): Promise<AdapterResult> {
+  // Wikidata P2603 is Kinopoisk's numeric film ID
+  const id = ctx.wikidata.kinopoisk;
+  if (!id) {
+    // Optional source — a missing mapping is not a failure (see mubi.ts)
+    return {
+      scores: [{ source: "kinopoisk", label: "Kinopoisk", normalized: null }],
+    };
+  }
+
+  // The film page sits behind a captcha; the rating XML does not
+  const url = `https://www.kinopoisk.ru/film/${id}/`;
+  try {
+    const xml = await fetchText(`https://rating.kinopoisk.ru/${id}.xml`, {
+      headers: { accept: "application/xml", "user-agent": BROWSER_UA },
+      signal: ctx.signal,
+    });
+    const parsed = parseKinopoiskRatingXml(xml);
+    return {
+      scores: [
+        normalizeScore({
+          source: "kinopoisk",
+          label: "Kinopoisk",
+          normalized: null,
+          raw: { value: parsed.value, scale: "0-10" },
+          count: parsed.count,
+          url,
+        }),
+      ],
+    };
+  } catch (err) {
+    return {
+      scores: [
+        {
+          source: "kinopoisk",
+          label: "Kinopoisk",
+          normalized: null,
+          url,
+          ...sourceError(err),
+        },
+      ],
+    };
+  }
+}
+
+export const kinopoisk = {
+  ...KINOPOISK,
+  fetch: fetchKinopoisk,
+} as const;
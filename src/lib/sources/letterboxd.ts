@@ -0,0 +1,119 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { checkPageStructure } from "../parser-drift";
+import {
+  parseLetterboxdFilmPage,
+  parseLetterboxdHistogram,
+  parseLetterboxdHtml,
+} from "../parsers";
+import { sourceError } from "../source-errors";
+import type { RatingDistribution } from "../types";
+import { LETTERBOXD } from "./catalog";
+import { BROWSER_UA, verifyFilmPage } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+// Letterboxd slug fallback: title-year format (e.g., "the-wrecking-crew-2026")
+function slugifyForLetterboxd(title: string, year?: string) {
+  const titleSlug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return year ? `${titleSlug}-${year}` : titleSlug;
+}
+
+// The half-star histogram is lazy-loaded into the film page; best-effort only
+async function fetchLetterboxdDistribution(
+  slug: string,
+  signal?: AbortSignal,
+): Promise<RatingDistribution | undefined> {
+  try {
+    const html = await fetchText(
+      `https://letterboxd.com/csi/film/${slug}/rating-histogram/`,
+      {
+        headers: { accept: "text/html", "user-agent": BROWSER_UA },
+        signal,
+      },
+    );
+    return parseLetterboxdHistogram(html) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function fetchLetterboxd(ctx: FetcherContext): Promise<AdapterResult> {
+  // Prefer Wikidata slug, fall back to title-year slug
+  const slug =
+    ctx.wikidata.letterboxd ||
+    slugifyForLetterboxd(ctx.movie.title, ctx.movie.year);
+  const url = `https://letterboxd.com/film/${slug}/`;
+  const distribution = fetchLetterboxdDistribution(slug, ctx.signal);
+  try {
+    const html = await fetchText(url, {
+      headers: { accept: "text/html", "user-agent": BROWSER_UA },
+      signal: ctx.signal,
+    });
+    checkPageStructure("letterboxd", html, url);
+    // A title-year guess can land on a remake or a same-named film
+    const guessed = !ctx.wikidata.letterboxd;
+    const mismatch = guessed
+      ? verifyFilmPage(ctx.movie, parseLetterboxdFilmPage(html))
+      : null;
+    if (mismatch) {
+      return {
+        scores: [
+          {
+            source: "letterboxd",
+            label: "Letterboxd",
+            normalized: null,
+            url, // the rejected candidate, for debugging
+            error: mismatch,
+            errorCode: "slug_mismatch",
+          },
+        ],
+      };
+    }
+
+    const parsed = parseLetterboxdHtml(html);
+    const score = normalizeScore({
+      source: "letterboxd",
+      label: "Letterboxd",
+      normalized: null,
+      raw: { value: parsed.value, scale: "0-5" },
+      count: parsed.count,
+      url,
+      distribution: await distribution,
+    });
+    // Remember a verified guess once it scores; still low confidence, since
+    // title and year can't tell apart every same-named film
+    return {
+      scores: [score],
+      resolvedIds:
+        guessed && score.normalized != null
+          ? [
+              {
+                key: "letterboxd",
+                id: slug,
+                method: "slug_guess",
+                confidence: "low",
+              },
+            ]
+          : undefined,
+    };
+  } catch (err) {
+    return {
+      scores: [
+        {
+          source: "letterboxd",
+          label: "Letterboxd",
+          normalized: null,
+          ...sourceError(err),
+        },
+      ],
+    };
+  }
+}
+
+export const letterboxd = {
+  ...LETTERBOXD,
+  fetch: fetchLetterboxd,
+} as const;
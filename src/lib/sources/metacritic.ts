@@ -0,0 +1,214 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { checkPageStructure } from "../parser-drift";
+import {
+  parseMetacriticHtml,
+  parseMetacriticBadge,
+  parseImdbCriticReviewsHtml,
+} from "../parsers";
+import type { ParsedRating } from "../parsers";
+import { layeredFailureCode } from "../source-errors";
+import type { SourceScore } from "../types";
+import { METACRITIC } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+type MetacriticPage = {
+  value: number | null;
+  count: number | null;
+  badge?: string;
+  user: ParsedRating;
+};
+
+// Try to scrape Metacritic page and extract score/count; request errors and
+// drifted pages are collected in `failures` (see `layeredFailureCode`)
+async function scrapeMetacritic(
+  slug: string,
+  failures: unknown[],
+  signal?: AbortSignal,
+): Promise<MetacriticPage | null> {
+  const url = `https://www.metacritic.com/movie/${slug}/`;
+  try {
+    const html = await fetchText(url, {
+      headers: { accept: "text/html", "user-agent": BROWSER_UA },
+      signal,
+    });
+    checkPageStructure("metacritic", html, url);
+    const parsed = parseMetacriticHtml(html);
+    if (parsed.value != null || parsed.user.value != null) {
+      const badge = parseMetacriticBadge(html);
+      return {
+        value: parsed.value,
+        count: parsed.count,
+        badge: badge ?? undefined,
+        user: parsed.user,
+      };
+    }
+    return null; // Page loaded but no score found
+  } catch (err) {
+    failures.push(err);
+    return null; // 404 or other error
+  }
+}
+
+// The user score only comes from a direct page scrape. Without one it is a
+// known absence (optional source), not an error — the Metascore layers below
+// still decide whether the payload is complete.
+function metacriticUserScore(
+  user: ParsedRating | undefined,
+  url?: string,
+): SourceScore {
+  return normalizeScore({
+    source: "metacritic_user",
+    label: "Metacritic User",
+    normalized: null,
+    raw: user?.value != null ? { value: user.value, scale: "0-10" } : undefined,
+    count: user?.count ?? null,
+    url: user?.value != null ? url : undefined,
+  });
+}
+
+// Fallback: scrape Metacritic score from IMDb's critic reviews page
+// IMDb embeds the Metascore, review count, and Metacritic URL directly
+async function scrapeMetacriticViaImdb(
+  imdbId: string,
+  failures: unknown[],
+  signal?: AbortSignal,
+): Promise<{
+  value: number | null;
+  count: number | null;
+  metacriticUrl: string | null;
+} | null> {
+  try {
+    const html = await fetchText(
+      `https://www.imdb.com/title/${imdbId}/criticreviews`,
+      {
+        headers: {
+          "user-agent": BROWSER_UA,
+          "accept-language": "en-US,en;q=0.9",
+        },
+        signal,
+      },
+    );
+    const parsed = parseImdbCriticReviewsHtml(html);
+    if (parsed.value != null) {
+      return parsed;
+    }
+    return null;
+  } catch (err) {
+    failures.push(err);
+    return null;
+  }
+}
+
+async function fetchMetacritic(ctx: FetcherContext): Promise<AdapterResult> {
+  // Wikidata P1712 may include "movie/" prefix, strip it if present
+  const slug = ctx.wikidata.metacritic?.replace(/^movie\//, "");
+
+  let userScore = metacriticUserScore(undefined);
+  const failures: unknown[] = [];
+
+  // --- Layer 1: Direct Metacritic scrape (requires slug) ---
+  if (slug) {
+    let result: MetacriticPage | null = null;
+    let usedSlug = slug;
+
+    if (ctx.movie.year) {
+      const slugWithYear = `${slug}-${ctx.movie.year}`;
+      const [canonical, withYear] = await Promise.all([
+        scrapeMetacritic(slug, failures, ctx.signal),
+        scrapeMetacritic(slugWithYear, failures, ctx.signal),
+      ]);
+      // Prefer the page with a Metascore; a user score alone is a weaker match
+      if (canonical?.value != null) {
+        result = canonical;
+      } else if (withYear?.value != null) {
+        result = withYear;
+        usedSlug = slugWithYear;
+      } else if (canonical) {
+        result = canonical;
+      } else if (withYear) {
+        result = withYear;
+        usedSlug = slugWithYear;
+      }
+    } else {
+      result = await scrapeMetacritic(slug, failures, ctx.signal);
+    }
+
+    if (result) {
+      const url = `https://www.metacritic.com/movie/${usedSlug}`;
+      userScore = metacriticUserScore(result.user, url);
+      if (result.value != null) {
+        return {
+          scores: [
+            normalizeScore({
+              source: "metacritic",
+              label: "Metacritic",
+              normalized: null,
+              raw: { value: result.value, scale: "0-100" },
+              count: result.count,
+              url,
+              badge: result.badge,
+            }),
+            userScore,
+          ],
+        };
+      }
+    }
+  }
+
+  // --- Layer 2: IMDb critic reviews page (no slug needed, just IMDb ID) ---
+  const imdbResult = await scrapeMetacriticViaImdb(
+    ctx.movie.imdbId,
+    failures,
+    ctx.signal,
+  );
+  if (imdbResult) {
+    return {
+      scores: [
+        normalizeScore({
+          source: "metacritic",
+          label: "Metacritic",
+          normalized: null,
+          raw: { value: imdbResult.value, scale: "0-100" },
+          count: imdbResult.count,
+          url: imdbResult.metacriticUrl ?? undefined,
+          fromFallback: true,
+        }),
+        userScore,
+      ],
+    };
+  }
+
+  // Layer 3 (OMDB Metascore) is applied by the runner via `fallback`
+  return {
+    scores: [
+      {
+        source: "metacritic",
+        label: "Metacritic",
+        normalized: null,
+        error: "Could not fetch Metacritic score",
+        errorCode: layeredFailureCode(failures),
+      },
+      userScore,
+    ],
+  };
+}
+
+function metacriticFallback(value: number): SourceScore[] {
+  return [
+    normalizeScore({
+      source: "metacritic",
+      label: "Metacritic",
+      normalized: null,
+      raw: { value, scale: "0-100" },
+      fromFallback: true,
+    }),
+  ];
+}
+
+export const metacritic = {
+  ...METACRITIC,
+  fetch: fetchMetacritic,
+  fallback: metacriticFallback,
+} as const;
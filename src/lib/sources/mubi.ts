@@ -0,0 +1,57 @@
+import { fetchText } from "../http";
+import { normalizeScore } from "../normalize";
+import { checkPageStructure } from "../parser-drift";
+import { parseMubiHtml } from "../parsers";
+import { sourceError } from "../source-errors";
+import { MUBI } from "./catalog";
+import { BROWSER_UA } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+async function fetchMubi(ctx: FetcherContext): Promise<AdapterResult> {
+  // Wikidata P7299 is MUBI's numeric film ID; /films/{id} redirects to the slug
+  const id = ctx.wikidata.mubi;
+  if (!id) {
+    // Most films have no MUBI mapping — a known absence, not a failure, so
+    // no error (an error would stop the whole payload from being cached)
+    return { scores: [{ source: "mubi", label: "MUBI", normalized: null }] };
+  }
+
+  const url = `https://mubi.com/films/${id}`;
+  try {
+    const html = await fetchText(url, {
+      headers: { accept: "text/html", "user-agent": BROWSER_UA },
+      signal: ctx.signal,
+    });
+    checkPageStructure("mubi", html, url);
+    const parsed = parseMubiHtml(html);
+    return {
+      scores: [
+        normalizeScore({
+          source: "mubi",
+          label: "MUBI",
+          normalized: null,
+          raw: { value: parsed.value, scale: "0-10" },
+          count: parsed.count,
+          url,
+        }),
+      ],
+    };
+  } catch (err) {
+    return {
+      scores: [
+        {
+          source: "mubi",
+          label: "MUBI",
+          normalized: null,
+          url,
+          ...sourceError(err),
+        },
+      ],
+    };
+  }
+}
+
+export const mubi = {
+  ...MUBI,
+  fetch: fetchMubi,
+} as const;
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  NORMALIZATION_CURVES,
+  SOURCE_CATALOG,
+  SOURCE_DEFINITIONS,
+  SOURCE_NAMES,
+} from "./catalog";
+import { SOURCE_ADAPTERS } from "./registry";
+import { WEIGHTED_SOURCE_KEYS } from "../scoring";
+
+describe("source registry", () => {
+  it("gives every adapter and every score a unique id", () => {
+    const adapterIds = SOURCE_ADAPTERS.map((a) => a.id);
+    expect(new Set(adapterIds).size).toBe(adapterIds.length);
+    expect(new Set(SOURCE_NAMES).size).toBe(SOURCE_DEFINITIONS.length);
+  });
+
+  it("lists source names sorted for the source_check constraint", () => {
+    expect(SOURCE_NAMES).toEqual([
+      "allocine_press",
+      "allocine_user",
+      "douban",
+      "filmaffinity",
+      "imdb",
+      "kinopoisk",
+      "letterboxd",
+      "metacritic",
+      "metacritic_user",
+      "mubi",
+      "rotten_tomatoes",
+      "rotten_tomatoes_all",
+      "rotten_tomatoes_audience",
+      "rotten_tomatoes_top",
+    ]);
+  });
+
+  it("derives the weighted key set from the definitions", () => {
+    expect(WEIGHTED_SOURCE_KEYS.size).toBe(13);
+    expect(WEIGHTED_SOURCE_KEYS.has("rotten_tomatoes")).toBe(false);
+    expect(WEIGHTED_SOURCE_KEYS.has("mubi")).toBe(true);
+    expect(WEIGHTED_SOURCE_KEYS.has("rotten_tomatoes_top")).toBe(true);
+  });
+
+  it("has a normalization curve for every source", () => {
+    expect(Object.keys(NORMALIZATION_CURVES).sort()).toEqual(SOURCE_NAMES);
+  });
+
+  it("pairs each catalog entry with its adapter, in catalog order", () => {
+    expect(SOURCE_ADAPTERS.map((a) => a.id)).toEqual(
+      SOURCE_CATALOG.map((e) => e.id),
+    );
+    SOURCE_ADAPTERS.forEach((adapter, i) => {
+      expect(adapter.sources).toBe(SOURCE_CATALOG[i].sources);
+    });
+  });
+
+  it("starts only adapters without Wikidata needs early", () => {
+    const early = SOURCE_ADAPTERS.filter((a) => a.wikidata.length === 0);
+    expect(early.map((a) => a.id)).toEqual(["imdb"]);
+  });
+
+  it("declares a fallback only where another adapter supplies one", () => {
+    const withFallback = SOURCE_ADAPTERS.filter((a) => a.fallback);
+    expect(withFallback.map((a) => a.id)).toEqual([
+      "rotten_tomatoes",
+      "metacritic",
+    ]);
+  });
+});
@@ -0,0 +1,23 @@
+import type { SourceAdapter } from "./types";
+import { imdb } from "./imdb";
+import { rottenTomatoes } from "./rotten-tomatoes";
+import { metacritic } from "./metacritic";
+import { letterboxd } from "./letterboxd";
+import { mubi } from "./mubi";
+import { allocine } from "./allocine";
+import { douban } from "./douban";
+import { kinopoisk } from "./kinopoisk";
+import { filmAffinity } from "./filmaffinity";
+
+// Same order as SOURCE_CATALOG: the order scores appear in the payload
+export const SOURCE_ADAPTERS: readonly SourceAdapter[] = [
+  imdb,
+  rottenTomatoes,
+  metacritic,
+  letterboxd,
+  mubi,
+  allocine,
+  douban,
+  kinopoisk,
+  filmAffinity,
+];
@@ -0,0 +1,301 @@
+import { fetchJson, fetchText } from "../http";
+import { log } from "../logger";
+import { normalizeScore } from "../normalize";
+import { checkPageStructure, isParserDriftError } from "../parser-drift";
+import {
+  parseRTApiResponse,
+  parseRTCriticsHtml,
+  parseRTAudienceHtml,
+  parseRTConsensus,
+  parseRTFilmPage,
+} from "../parsers";
+import { sourceError } from "../source-errors";
+import type { RTConsensus, SourceScore } from "../types";
+import { ROTTEN_TOMATOES } from "./catalog";
+import { BROWSER_UA, verifyFilmPage } from "./shared";
+import type { AdapterResult, FetcherContext } from "./types";
+
+function slugifyTitle(title: string) {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\\s]/g, "")
+    .trim()
+    .replace(/\\s+/g, "_");
+}
+
+function fetchRTPage(url: string, signal?: AbortSignal): Promise<string> {
+  return fetchText(url, {
+    headers: { accept: "text/html", "user-agent": BROWSER_UA },
+    signal,
+  });
+}
+
+function rtPayload(consensus: RTConsensus) {
+  return {
+    consensus: Object.keys(consensus).length > 0 ? consensus : undefined,
+  };
+}
+
+function rtFailure(err: unknown): AdapterResult {
+  return {
+    scores: [
+      {
+        source: "rotten_tomatoes",
+        label: "RT Tomatometer",
+        normalized: null,
+        ...sourceError(err),
+      },
+    ],
+  };
+}
+
+// A verified guessed slug that produced a score is remembered (low confidence:
+// title and year can't tell apart every same-named film); Wikidata and stored
+// slugs aren't
+function guessedSlug(
+  ctx: FetcherContext,
+  slug: string,
+  scores: SourceScore[],
+): AdapterResult["resolvedIds"] {
+  if (ctx.wikidata.rottenTomatoes) return undefined;
+  if (!scores.some((s) => s.normalized != null)) return undefined;
+  return [
+    {
+      key: "rottenTomatoes",
+      id: `m/${slug}`,
+      method: "slug_guess",
+      confidence: "low",
+    },
+  ];
+}
+
+async function fetchRottenTomatoes(
+  ctx: FetcherContext,
+): Promise<AdapterResult> {
+  // Wikidata P1258 may include the "m/" prefix, strip it if present
+  const slug =
+    ctx.wikidata.rottenTomatoes?.replace(/^m\//, "") ||
+    slugifyTitle(ctx.movie.title);
+  const pageUrl = `https://www.rottentomatoes.com/m/${slug}`;
+
+  // A guessed title slug can land on a remake or a same-named film: check the
+  // page first (the API response carries no title or year) and reuse it below
+  let guessedPage: string | undefined;
+  if (!ctx.wikidata.rottenTomatoes) {
+    try {
+      guessedPage = await fetchRTPage(pageUrl, ctx.signal);
+    } catch {
+      // A missing page is reported by the API/scrape path below
+    }
+    const mismatch =
+      guessedPage && verifyFilmPage(ctx.movie, parseRTFilmPage(guessedPage));
+    if (mismatch) {
+      return {
+        scores: [
+          {
+            source: "rotten_tomatoes",
+            label: "RT Tomatometer",
+            normalized: null,
+            url: pageUrl, // the rejected candidate, for debugging
+            error: mismatch,
+            errorCode: "slug_mismatch",
+          },
+        ],
+      };
+    }
+  }
+
+  try {
+    const apiUrl = `https://www.rottentomatoes.com/napi/movie/${slug}`;
+    const json = await fetchJson<{ meterScore?: number }>(apiUrl, {
+      headers: { "user-agent": BROWSER_UA, accept: "application/json" },
+      signal: ctx.signal,
+    });
+    const apiParsed = parseRTApiResponse(json);
+    let value = apiParsed.tomatometer;
+
+    let avgAll: number | null = null;
+    let avgTop: number | null = null;
+    let allCriticsCount: number | null = null;
+    let topCriticsCount: number | null = null;
+    let consensus: RTConsensus = {};
+    let badge: string | undefined = undefined;
+
+    // If percentage missing, fall back to average rating scraped from HTML
+    if (value == null) {
+      const html = guessedPage ?? (await fetchRTPage(pageUrl, ctx.signal));
+      checkPageStructure("rotten_tomatoes", html, pageUrl);
+      const criticsParsed = parseRTCriticsHtml(html);
+      avgAll = criticsParsed.criticsAvgAll;
+      avgTop = criticsParsed.criticsAvgTop;
+      allCriticsCount = criticsParsed.allCriticsCount;
+      topCriticsCount = criticsParsed.topCriticsCount;
+      badge = criticsParsed.badge ?? undefined;
+      consensus = parseRTConsensus(html);
+      if (avgAll != null) value = avgAll;
+    }
+
+    const scores: SourceScore[] = [];
+
+    scores.push(
+      normalizeScore({
+        source: "rotten_tomatoes",
+        label: "RT Tomatometer",
+        normalized: null,
+        raw: { value, scale: "0-100" },
+        count: allCriticsCount,
+        url: pageUrl,
+        badge,
+      }),
+    );
+
+    if (avgAll != null) {
+      scores.push(
+        normalizeScore({
+          source: "rotten_tomatoes_all",
+          label: "RT Critics Avg (All)",
+          normalized: null,
+          raw: { value: avgAll, scale: "0-100" },
+          count: allCriticsCount,
+          url: pageUrl,
+        }),
+      );
+    }
+
+    if (avgTop != null) {
+      scores.push(
+        normalizeScore({
+          source: "rotten_tomatoes_top",
+          label: "RT Critics Avg (Top)",
+          normalized: null,
+          raw: { value: avgTop, scale: "0-100" },
+          count: topCriticsCount,
+          url: pageUrl,
+        }),
+      );
+    }
+
+    return {
+      scores,
+      payload: rtPayload(consensus),
+      resolvedIds: guessedSlug(ctx, slug, scores),
+    };
+  } catch (err) {
+    // The page itself no longer parses: scraping it again won't help
+    if (isParserDriftError(err)) return rtFailure(err);
+
+    // Try HTML scrape even if API failed (404/403/etc.)
+    try {
+      const html = guessedPage ?? (await fetchRTPage(pageUrl, ctx.signal));
+      checkPageStructure("rotten_tomatoes", html, pageUrl);
+      const criticsParsed = parseRTCriticsHtml(html);
+      const audienceParsed = parseRTAudienceHtml(html);
+      const consensus = parseRTConsensus(html);
+
+      const {
+        tomatometer,
+        criticsAvgAll: avgAll,
+        criticsAvgTop: avgTop,
+        allCriticsCount,
+        topCriticsCount,
+        badge: rtBadge,
+      } = criticsParsed;
+      const { audienceAvg, isVerifiedAudience, audienceCount } = audienceParsed;
+
+      if (
+        tomatometer != null ||
+        avgAll != null ||
+        avgTop != null ||
+        audienceAvg != null
+      ) {
+        const scores: SourceScore[] = [];
+        // Always include Tomatometer first if available
+        if (tomatometer != null) {
+          scores.push(
+            normalizeScore({
+              source: "rotten_tomatoes",
+              label: "RT Tomatometer",
+              normalized: null,
+              raw: { value: tomatometer, scale: "0-100" },
+              count: allCriticsCount,
+              url: pageUrl,
+              badge: rtBadge ?? undefined,
+            }),
+          );
+        }
+        if (audienceAvg != null) {
+          scores.push(
+            normalizeScore({
+              source: "rotten_tomatoes_audience",
+              label: isVerifiedAudience
+                ? "RT Verified Audience"
+                : "RT Audience",
+              normalized: null,
+              raw: { value: audienceAvg, scale: "0-5" },
+              count: audienceCount,
+              url: pageUrl,
+            }),
+          );
+        }
+        if (avgAll != null) {
+          scores.push(
+            normalizeScore({
+              source: "rotten_tomatoes_all",
+              label: "RT Critics Avg (All)",
+              normalized: null,
+              raw: { value: avgAll, scale: "0-100" },
+              count: allCriticsCount,
+              url: pageUrl,
+            }),
+          );
+        }
+        if (avgTop != null) {
+          scores.push(
+            normalizeScore({
+              source: "rotten_tomatoes_top",
+              label: "RT Critics Avg (Top)",
+              normalized: null,
+              raw: { value: avgTop, scale: "0-100" },
+              count: topCriticsCount,
+              url: pageUrl,
+            }),
+          );
+        }
+        return {
+          scores,
+          payload: rtPayload(consensus),
+          resolvedIds: guessedSlug(ctx, slug, scores),
+        };
+      }
+    } catch (scrapeErr) {
+      // A drifted page says more than the API's error (often a plain 404)
+      if (isParserDriftError(scrapeErr)) return rtFailure(scrapeErr);
+      log.warn("rt_scrape_failed", {
+        imdbId: ctx.movie.imdbId,
+        error: (scrapeErr as Error).message,
+      });
+      // fall through — the runner applies the OMDB fallback if there is one
+    }
+
+    return rtFailure(err);
+  }
+}
+
+// OMDB Tomatometer, used when neither the API nor the HTML scrape scored
+function rottenTomatoesFallback(value: number): SourceScore[] {
+  return [
+    normalizeScore({
+      source: "rotten_tomatoes",
+      label: "RT Tomatometer",
+      normalized: null,
+      raw: { value, scale: "0-100" },
+      fromFallback: true,
+    }),
+  ];
+}
+
+export const rottenTomatoes = {
+  ...ROTTEN_TOMATOES,
+  fetch: fetchRottenTomatoes,
+  fallback: rottenTomatoesFallback,
+} as const;
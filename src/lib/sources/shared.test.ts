@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { SLUG_MISMATCH, verifyFilmPage } from "./shared";
+
+describe("verifyFilmPage", () => {
+  const movie = { imdbId: "tt1160419", title: "Dune", year: "2021" };
+
+  it("accepts the same film, allowing a year either way", () => {
+    expect(verifyFilmPage(movie, { title: "Dune", year: 2021 })).toBeNull();
+    expect(verifyFilmPage(movie, { title: "Dune", year: 2020 })).toBeNull();
+  });
+
+  it("rejects a same-named film from another year (remake)", () => {
+    const error = verifyFilmPage(movie, { title: "Dune", year: 1984 });
+    expect(error).toBe(
+      `${SLUG_MISMATCH}: page is "Dune" (1984), expected "Dune" (2021)`,
+    );
+  });
+
+  it("rejects a page for a different title", () => {
+    const error = verifyFilmPage(movie, { title: "Dune Drifter", year: 2021 });
+    expect(error?.startsWith(SLUG_MISMATCH)).toBe(true);
+  });
+
+  it("tolerates punctuation and leading articles in the page title", () => {
+    expect(
+      verifyFilmPage(
+        { imdbId: "tt0068646", title: "The Godfather", year: "1972" },
+        { title: "Godfather", year: 1972 },
+      ),
+    ).toBeNull();
+  });
+
+  it("accepts when the page gives nothing to compare", () => {
+    expect(verifyFilmPage(movie, { title: null, year: null })).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import type { ParsedFilmPage } from "../parsers";
+import { similarity } from "../search-utils";
+import type { MovieInfo } from "../types";
+
+export const BROWSER_UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36";
+
+/** Error prefix for a guessed slug that landed on a different film */
+export const SLUG_MISMATCH = "Slug mismatch";
+
+// Below this, the page is some other film that happens to share a slug
+const MIN_TITLE_SIMILARITY = 0.8;
+
+/**
+ * Check a page reached through a guessed slug is the film we asked for:
+ * title by `similarity`, year within one (festival vs. release dates).
+ * Returns the error to report, or null when it matches — or when the page
+ * gives nothing to compare against.
+ */
+export function verifyFilmPage(
+  movie: MovieInfo,
+  page: ParsedFilmPage,
+): string | null {
+  const titleScore =
+    page.title != null ? similarity(movie.title, page.title) : 1;
+  const expectedYear = movie.year ? parseInt(movie.year, 10) : NaN;
+  const yearOff =
+    page.year != null &&
+    Number.isFinite(expectedYear) &&
+    Math.abs(page.year - expectedYear) > 1;
+
+  if (titleScore >= MIN_TITLE_SIMILARITY && !yearOff) return null;
+
+  const found = `"${page.title ?? "?"}" (${page.year ?? "?"})`;
+  const expected = `"${movie.title}" (${movie.year ?? "?"})`;
+  return `${SLUG_MISMATCH}: page is ${found}, expected ${expected}`;
+}
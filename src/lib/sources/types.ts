@@ -0,0 +1,73 @@
+import type {
+  MovieInfo,
+  ScorePayload,
+  SourceIdResolution,
+  SourceScore,
+  WikidataIds,
+} from "../types";
+import type { NormalizationCurve } from "./curves";
+
+export type FetcherContext = {
+  movie: MovieInfo;
+  wikidata: WikidataIds;
+  env: Record<string, string | undefined>;
+  signal?: AbortSignal;
+  kvGet?: (imdbId: string) => Promise<ScorePayload | null>;
+  kvSet?: (
+    imdbId: string,
+    payload: ScorePayload,
+    releaseDate: string | undefined,
+    movieYear: string | undefined,
+  ) => Promise<void>;
+};
+
+/** One score an adapter emits, e.g. "rotten_tomatoes_top". */
+export type SourceDefinition = {
+  id: string;
+  label: string;
+  curve: NormalizationCurve;
+  // Counted by the scoring algorithm (and in coverage); display-only otherwise
+  weighted: boolean;
+  // Weighted when present but not expected of every film: excluded from
+  // coverage, completeness and the verdict gate's source count
+  optional?: boolean;
+};
+
+/** A Wikidata property the adapter reads its platform ID from. */
+export type WikidataProperty = {
+  key: string; // field on WikidataIds (and SPARQL variable name)
+  property: `P${number}`;
+};
+
+export type AdapterResult = {
+  scores: SourceScore[];
+  // Raw values this adapter recovered on behalf of other adapters, keyed by
+  // adapter id (e.g. OMDB's Tomatometer and Metascore, found via IMDb)
+  fallbacks?: Partial<Record<string, number | null>>;
+  // Extra payload fields only this adapter can provide
+  payload?: Partial<Pick<ScorePayload, "themes" | "consensus" | "imdbSummary">>;
+  // Platform IDs found without Wikidata (slug guesses, search waterfalls) that
+  // led to a score — remembered in `source_ids` so later lookups reuse them
+  resolvedIds?: SourceIdResolution[];
+};
+
+/** A rating platform's static description, kept in catalog.ts. */
+export type SourceDescription = {
+  id: string;
+  sources: readonly SourceDefinition[];
+  // Adapters needing no Wikidata IDs start before the Wikidata lookup resolves
+  wikidata: readonly WikidataProperty[];
+};
+
+/**
+ * A rating platform. Adding a source means describing it in the catalog,
+ * writing one adapter module and listing it in the registry — the SourceName
+ * union, the scores `source_check` constraint, the Wikidata query and the
+ * weighted key set are all derived from the catalog.
+ */
+export type SourceAdapter = SourceDescription & {
+  fetch: (ctx: FetcherContext) => Promise<AdapterResult>;
+  // Used when every score from `fetch` failed and another adapter supplied a
+  // fallback value for this one
+  fallback?: (value: number) => SourceScore[];
+};
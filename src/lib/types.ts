@@ -1,14 +1,12 @@
-export type SourceName =
-  | "allocine_press"
-  | "allocine_user"
-  | "douban"
-  | "imdb"
-  | "letterboxd"
-  | "metacritic"
-  | "rotten_tomatoes"
-  | "rotten_tomatoes_all"
-  | "rotten_tomatoes_audience"
-  | "rotten_tomatoes_top";
+import type { SourceErrorCode } from "./source-errors";
+import type { SourceName, WikidataKey } from "./sources/catalog";
+
+// Derived from the source catalog in sources/catalog.ts
+export type { SourceName, WikidataKey };
+export type { SourceErrorCode };
+
+/** Vote counts per rating step, lowest step first (IMDb 1–10, Letterboxd ½–5★) */
+export type RatingDistribution = { rating: number; count: number }[];
 
 export type SourceScore = {
   source: SourceName;
@@ -20,9 +18,11 @@ export type SourceScore = {
   };
   count?: number | null; // votes/ratings/reviews count
   url?: string;
-  error?: string;
+  error?: string; // human-readable
+  errorCode?: SourceErrorCode; // set whenever `error` is
   fromFallback?: boolean;
   badge?: string;
+  distribution?: RatingDistribution;
 };
 
 export type MovieInfo = {
@@ -45,19 +45,67 @@ export type MovieInfo = {
   cast?: string[];
 };
 
-export type WikidataIds = {
-  rottenTomatoes?: string;
-  metacritic?: string;
-  letterboxd?: string;
-  douban?: string;
-  allocineFilm?: string;
-  allocineSeries?: string;
+// Platform IDs keyed by the Wikidata properties the source adapters declare
+export type WikidataIds = Partial<Record<WikidataKey, string>>;
+
+export type SourceIdConfidence = "high" | "medium" | "low";
+
+/** A platform ID found some way other than Wikidata (see `source_ids`). */
+export type SourceIdResolution = {
+  key: WikidataKey;
+  id: string;
+  method: string; // "manual", "slug_guess", "suggest_api", "google", ...
+  confidence: SourceIdConfidence;
+};
+
+// "static": fixed per-source mappings; "percentile": empirical percentile
+// within the stored catalogue (see calibration.ts)
+export type NormalizationMode = "static" | "percentile";
+
+export type ScoringProfileId =
+  "balanced" | "critics-first" | "cinephile" | "crowd";
+
+export type TierName = "critic" | "cinephile" | "mainstream";
+
+export type TierBreakdown = {
+  tier: TierName;
+  score: number | null; // null when every source in the tier is missing
+  baseWeight: number; // profile weight before redistribution
+  effectiveWeight: number; // weight after redistribution over present tiers (0 if missing)
+};
+
+export type ElitePremiumBreakdown = {
+  raw: number; // weighted delta of elite sources from the critic baseline
+  clamped: number;
+  dampened: number; // amount actually added to the critic baseline
+};
+
+export type SourceBreakdown = {
+  source: SourceName;
+  normalized: number; // before Bayesian shrinkage
+  shrunk: number; // after Bayesian shrinkage (equal to normalized if not applied)
+  count: number | null;
+};
+
+export type ScoreBreakdown = {
+  profile: ScoringProfileId;
+  tiers: TierBreakdown[];
+  // "baseline": RT All present, elite sources act as a premium on the baseline
+  // "elite_fallback": RT All missing, elite sources used as absolute values
+  criticMode: "baseline" | "elite_fallback";
+  criticBaseline: number | null;
+  elitePremium: ElitePremiumBreakdown | null;
+  sources: SourceBreakdown[];
 };
 
 export type OverallScore = {
   score: number;
+  scoreLow?: number; // lower bound of the 95% uncertainty band (from source counts)
+  scoreHigh?: number; // upper bound of the 95% uncertainty band
   coverage: number; // fraction of sources present (0-1), count-based
   disagreement: number; // std dev of source scores (0-100)
+  criticAudienceGap?: number | null; // critic tier − mainstream tier (+ = critics higher); null if either tier is missing
+  breakdown?: ScoreBreakdown; // how `score` was derived (absent on older cached payloads)
 };
 
 export type ImdbTheme = {
@@ -71,10 +119,27 @@ export type RTConsensus = {
   audience?: string;
 };
 
+/** One critic's review from Rotten Tomatoes' review listing */
+export type CriticReview = {
+  reviewId: string;
+  criticName: string;
+  criticSlug: string | null; // RT critic page, e.g. "manohla-dargis"
+  publication: string | null;
+  topCritic: boolean;
+  sentiment: "fresh" | "rotten";
+  originalScore: string | null; // as published: "3.5/4", "B+"
+  normalizedScore: number | null; // originalScore on 0-100, when parseable
+  reviewUrl: string | null;
+  publishedAt: string | null; // "YYYY-MM-DD"
+};
+
 export type ScorePayload = {
   movie: MovieInfo;
   sources: SourceScore[];
   overall: OverallScore | null;
+  profile?: ScoringProfileId; // Scoring profile used for `overall` (default: balanced)
+  normalization?: NormalizationMode; // How `sources[].normalized` was derived (default: static)
+  calibrationVersion?: number; // Calibration used when normalization is "percentile"
   missingSources?: string[];
   themes?: ImdbTheme[];
   consensus?: RTConsensus;
@@ -11,10 +11,10 @@ const SPARQL_RESPONSE = {
   results: {
     bindings: [
       {
-        rt: { value: "the_matrix" },
-        mc: { value: "the-matrix" },
-        lb: { value: "the-matrix" },
-        db: { value: "1291546" },
+        rottenTomatoes: { value: "the_matrix" },
+        metacritic: { value: "the-matrix" },
+        letterboxd: { value: "the-matrix" },
+        douban: { value: "1291546" },
       },
     ],
   },
@@ -41,6 +41,29 @@ describe("fetchWikidataIds", () => {
     expect(fetchJson).toHaveBeenCalledTimes(1); // only one network call
   });
 
+  it("queries every property the source adapters declare", async () => {
+    vi.mocked(fetchJson).mockResolvedValue(SPARQL_RESPONSE);
+    const result = await fetchWikidataIds("tt0133093");
+    const query = decodeURIComponent(vi.mocked(fetchJson).mock.calls[0][0]);
+    for (const property of [
+      "P1258",
+      "P1712",
+      "P6127",
+      "P4529",
+      "P1265",
+      "P2603",
+      "P480",
+    ]) {
+      expect(query).toContain(`wdt:${property}`);
+    }
+    expect(result).toMatchObject({
+      metacritic: "the-matrix",
+      letterboxd: "the-matrix",
+      douban: "1291546",
+      allocineFilm: undefined,
+    });
+  });
+
   it("caches different IMDb IDs independently", async () => {
     vi.mocked(fetchJson).mockResolvedValue(SPARQL_RESPONSE);
     await fetchWikidataIds("tt0133093");
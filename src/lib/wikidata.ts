@@ -1,17 +1,13 @@
 import { fetchJson } from "./http";
 import { LRUCache } from "./cache";
 import type { WikidataIds } from "./types";
+import { WIKIDATA_PROPERTIES } from "./sources/catalog";
+import type { WikidataKey } from "./sources/catalog";
 
+// One binding per SPARQL variable; variables are named after WikidataIds keys
 type SparqlResponse = {
   results: {
-    bindings: Array<{
-      rt?: { value: string };
-      mc?: { value: string };
-      lb?: { value: string };
-      db?: { value: string };
-      allocineFilm?: { value: string };
-      allocineSeries?: { value: string };
-    }>;
+    bindings: Array<Partial<Record<string, { value: string }>>>;
   };
 };
 
@@ -26,14 +22,14 @@ export async function fetchWikidataIds(
   const cached = wikidataCache.get(imdbId);
   if (cached) return cached;
 
-  const query = `SELECT ?rt ?mc ?lb ?db ?allocineFilm ?allocineSeries WHERE {
+  // Every property any source needs, fetched in one query
+  const variables = WIKIDATA_PROPERTIES.map((p) => `?${p.key}`).join(" ");
+  const optionals = WIKIDATA_PROPERTIES.map(
+    (p) => `OPTIONAL { ?item wdt:${p.property} ?${p.key} }`,
+  ).join("\n    ");
+  const query = `SELECT ${variables} WHERE {
     ?item wdt:P345 "${imdbId}" .
-    OPTIONAL { ?item wdt:P1258 ?rt }
-    OPTIONAL { ?item wdt:P1712 ?mc }
-    OPTIONAL { ?item wdt:P6127 ?lb }
-    OPTIONAL { ?item wdt:P4529 ?db }
-    OPTIONAL { ?item wdt:P1265 ?allocineFilm }
-    OPTIONAL { ?item wdt:P1267 ?allocineSeries }
+    ${optionals}
   } LIMIT 1`;
 
   const url = `${ENDPOINT}?format=json&query=${encodeURIComponent(query)}`;
@@ -47,14 +43,10 @@ export async function fetchWikidataIds(
   });
 
   const hit = data.results.bindings[0];
-  const result: WikidataIds = {
-    rottenTomatoes: hit?.rt?.value,
-    metacritic: hit?.mc?.value,
-    letterboxd: hit?.lb?.value,
-    douban: hit?.db?.value,
-    allocineFilm: hit?.allocineFilm?.value,
-    allocineSeries: hit?.allocineSeries?.value,
-  };
+  const result: WikidataIds = {};
+  for (const { key } of WIKIDATA_PROPERTIES) {
+    result[key as WikidataKey] = hit?.[key]?.value;
+  }
 
   wikidataCache.set(imdbId, result);
   return result;